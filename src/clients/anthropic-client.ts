@@ -3,11 +3,22 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import retry from 'async-retry';
-import type { LLMClient, ChatMessage, AssistantMessage, Tool, ToolCall, TokenUsage } from '../core/models.js';
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  ReasoningBlock,
+  RedactedReasoningBlock,
+  Tool,
+  ToolCall,
+  TokenUsage,
+} from '../core/models.js';
 import { ContextOverflowError } from '../core/models.js';
 import { toAnthropicMessages, toAnthropicTools } from './utils.js';
-import { MAX_RETRY_ATTEMPTS, RETRY_MIN_TIMEOUT, RETRY_MAX_TIMEOUT } from '../constants.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
 
 export interface AnthropicClientConfig {
   /** Model identifier (e.g., 'claude-sonnet-4-5') */
@@ -27,15 +38,47 @@ export interface AnthropicClientConfig {
 
   /** Maximum tokens to generate */
   maxTokensToGenerate?: number;
+
+  /**
+   * Prompt caching breakpoints (default: enabled with the defaults of AnthropicPromptCachingConfig)
+   * Pass false to disable caching.
+   */
+  promptCaching?: boolean | AnthropicPromptCachingConfig;
+
+  /**
+   * Enable extended thinking with a token budget (minimum 1024, below maxTokensToGenerate)
+   * Temperature is not sent while thinking is enabled, as the API requires its default.
+   */
+  thinking?: { budgetTokens: number };
+}
+
+/**
+ * Where AnthropicClient places `cache_control` breakpoints
+ * Anthropic allows at most 4 breakpoints per request; message breakpoints are capped to fit.
+ */
+export interface AnthropicPromptCachingConfig {
+  /** Cache the system prompt (default: true) */
+  system?: boolean;
+  /** Cache the tool definitions (default: true) */
+  tools?: boolean;
+  /** Number of most recent messages to mark as breakpoints (default: 2) */
+  recentMessages?: number;
+  /** Cache lifetime (default: '5m') */
+  ttl?: '5m' | '1h';
 }
 
+/** Maximum cache breakpoints Anthropic accepts in one request */
+const MAX_CACHE_BREAKPOINTS = 4;
+
 /**
  * Anthropic Claude native client
  * Uses official Anthropic SDK
  */
 export class AnthropicClient implements LLMClient {
   private client: Anthropic;
-  private config: Required<Omit<AnthropicClientConfig, 'apiKey'>>;
+  private config: Required<Omit<AnthropicClientConfig, 'apiKey' | 'promptCaching' | 'thinking'>>;
+  private promptCaching: Required<AnthropicPromptCachingConfig> | undefined;
+  private thinking: AnthropicClientConfig['thinking'];
 
   constructor(config: AnthropicClientConfig) {
     const {
@@ -45,12 +88,18 @@ export class AnthropicClient implements LLMClient {
       maxRetries = MAX_RETRY_ATTEMPTS,
       temperature = 1.0,
       maxTokensToGenerate = 8192,
+      promptCaching = true,
+      thinking,
     } = config;
 
     if (!apiKey) {
       throw new Error('ANTHROPIC_API_KEY environment variable is required');
     }
 
+    if (thinking && (thinking.budgetTokens < 1024 || thinking.budgetTokens >= maxTokensToGenerate)) {
+      throw new Error('thinking.budgetTokens must be at least 1024 and less than maxTokensToGenerate');
+    }
+
     this.client = new Anthropic({
       apiKey,
       maxRetries: 0, // We handle retries ourselves
@@ -63,6 +112,11 @@ export class AnthropicClient implements LLMClient {
       temperature,
       maxTokensToGenerate,
     };
+
+    this.promptCaching = promptCaching
+      ? { system: true, tools: true, recentMessages: 2, ttl: '5m', ...(promptCaching === true ? {} : promptCaching) }
+      : undefined;
+    this.thinking = thinking;
   }
 
   get modelSlug(): string {
@@ -73,17 +127,152 @@ export class AnthropicClient implements LLMClient {
     return this.config.maxTokens;
   }
 
-  async generate(messages: ChatMessage[], tools: Map<string, Tool>): Promise<AssistantMessage> {
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const response = await retryRequest(
+        async () => {
+          return await this.client.messages.create(params, { signal });
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return this.parseResponse(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model
+   * Retries only cover opening the stream; errors after the first event are not retried
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const stream = await retryRequest(
+        async () => {
+          return await this.client.messages.create({ ...params, stream: true }, { signal });
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      // Reassemble the message from raw stream events so it can be parsed like a non-streaming response
+      let message: Anthropic.Message | undefined;
+      const blocks: Anthropic.ContentBlock[] = [];
+      const partialJson: string[] = [];
+      let toolCallIndex = 0;
+      const toolCallIndexByBlock = new Map<number, number>();
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            message = { ...event.message, content: [] };
+            break;
+
+          case 'content_block_start': {
+            const block = { ...event.content_block };
+            blocks[event.index] = block;
+            if (block.type === 'tool_use') {
+              partialJson[event.index] = '';
+              toolCallIndexByBlock.set(event.index, toolCallIndex);
+              yield {
+                type: 'tool_call:delta',
+                index: toolCallIndex++,
+                toolCallId: block.id,
+                name: block.name,
+                argumentsDelta: '',
+              };
+            } else if (block.type === 'text' && block.text) {
+              yield { type: 'text:delta', delta: block.text };
+            }
+            break;
+          }
+
+          case 'content_block_delta': {
+            const block = blocks[event.index];
+            const { delta } = event;
+            if (delta.type === 'text_delta') {
+              if (block?.type === 'text') block.text += delta.text;
+              yield { type: 'text:delta', delta: delta.text };
+            } else if (delta.type === 'input_json_delta') {
+              partialJson[event.index] = (partialJson[event.index] ?? '') + delta.partial_json;
+              yield {
+                type: 'tool_call:delta',
+                index: toolCallIndexByBlock.get(event.index) ?? 0,
+                argumentsDelta: delta.partial_json,
+              };
+            } else if (delta.type === 'thinking_delta') {
+              if (block?.type === 'thinking') block.thinking += delta.thinking;
+              yield { type: 'reasoning:delta', delta: delta.thinking };
+            } else if (delta.type === 'signature_delta') {
+              if (block?.type === 'thinking') block.signature = delta.signature;
+            }
+            break;
+          }
+
+          case 'content_block_stop': {
+            const block = blocks[event.index];
+            if (block?.type === 'tool_use') {
+              const json = partialJson[event.index] ?? '';
+              block.input = json ? (JSON.parse(json) as unknown) : {};
+            }
+            break;
+          }
+
+          case 'message_delta':
+            if (message) {
+              message.stop_reason = event.delta.stop_reason;
+              message.usage = { ...message.usage, output_tokens: event.usage.output_tokens };
+            }
+            break;
+        }
+      }
+
+      if (!message) {
+        throw new Error('Stream ended before message_start');
+      }
+      message.content = blocks.filter(Boolean);
+
+      yield { type: 'done', message: this.parseResponse(message) };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Build request parameters shared by generate() and generateStream()
+   */
+  private buildParams(messages: ChatMessage[], tools: Map<string, Tool>): Anthropic.MessageCreateParamsNonStreaming {
     const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
     const anthropicTools = tools.size > 0 ? toAnthropicTools(tools) : undefined;
 
-    const params: Anthropic.MessageCreateParams = {
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
       model: this.config.model,
       max_tokens: this.config.maxTokensToGenerate,
       messages: anthropicMessages as Anthropic.MessageParam[],
-      temperature: this.config.temperature,
     };
 
+    if (this.thinking) {
+      params.thinking = { type: 'enabled', budget_tokens: this.thinking.budgetTokens };
+    } else {
+      params.temperature = this.config.temperature;
+    }
+
     if (system) {
       params.system = system;
     }
@@ -92,37 +281,75 @@ export class AnthropicClient implements LLMClient {
       params.tools = anthropicTools as Anthropic.Tool[];
     }
 
-    try {
-      const response = await retry(
-        async () => {
-          return await this.client.messages.create(params);
-        },
-        {
-          retries: this.config.maxRetries,
-          minTimeout: RETRY_MIN_TIMEOUT,
-          maxTimeout: RETRY_MAX_TIMEOUT,
-          onRetry: (error: Error, attempt: number) => {
-            console.warn(`Retry attempt ${attempt} after error:`, error.message);
-          },
-        }
+    if (this.promptCaching) {
+      this.addCacheBreakpoints(params, this.promptCaching);
+    }
+
+    return params;
+  }
+
+  /**
+   * Mark the tools, system prompt and most recent messages with `cache_control`
+   * The cached prefix runs tools → system → messages, so each breakpoint caches everything before it.
+   */
+  private addCacheBreakpoints(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    caching: Required<AnthropicPromptCachingConfig>
+  ): void {
+    const cacheControl: Anthropic.CacheControlEphemeral =
+      caching.ttl === '5m' ? { type: 'ephemeral' } : { type: 'ephemeral', ttl: caching.ttl };
+    let remaining = MAX_CACHE_BREAKPOINTS;
+
+    const tools = params.tools;
+    const lastTool = tools?.[tools.length - 1];
+    if (caching.tools && tools && lastTool) {
+      tools[tools.length - 1] = { ...lastTool, cache_control: cacheControl };
+      remaining--;
+    }
+
+    if (caching.system && params.system) {
+      params.system = [{ type: 'text', text: params.system as string, cache_control: cacheControl }];
+      remaining--;
+    }
+
+    let messageBreakpoints = Math.min(caching.recentMessages, remaining);
+    for (let i = params.messages.length - 1; i >= 0 && messageBreakpoints > 0; i--) {
+      const message = params.messages[i]!;
+      const content =
+        typeof message.content === 'string' ? [{ type: 'text' as const, text: message.content }] : message.content;
+      // Thinking blocks and empty text blocks cannot carry cache_control
+      const index = content.findLastIndex(
+        (block) =>
+          block.type !== 'thinking' && block.type !== 'redacted_thinking' && !(block.type === 'text' && !block.text)
       );
+      if (index === -1) continue;
 
-      return this.parseResponse(response);
-    } catch (error) {
-      // Check for context overflow errors
-      if (
-        error instanceof Anthropic.APIError &&
-        (error.message.includes('prompt is too long') || error.message.includes('maximum context length'))
-      ) {
-        throw new ContextOverflowError('Context window exceeded');
-      }
-      throw error;
+      params.messages[i] = {
+        ...message,
+        content: content.map((block, j) => (j === index ? { ...block, cache_control: cacheControl } : block)),
+      };
+      messageBreakpoints--;
     }
   }
 
+  /**
+   * Map provider errors to Stirrup errors
+   */
+  private mapError(error: unknown): unknown {
+    // Check for context overflow errors
+    if (
+      error instanceof Anthropic.APIError &&
+      (error.message.includes('prompt is too long') || error.message.includes('maximum context length'))
+    ) {
+      return new ContextOverflowError('Context window exceeded');
+    }
+    return error;
+  }
+
   private parseResponse(response: Anthropic.Message): AssistantMessage {
     let textContent = '';
     const toolCalls: ToolCall[] = [];
+    const reasoning: Array<ReasoningBlock | RedactedReasoningBlock> = [];
     let reasoningTokens = 0;
 
     for (const block of response.content) {
@@ -136,27 +363,33 @@ export class AnthropicClient implements LLMClient {
           toolCallId: blockWithType.id,
         });
       } else if (blockWithType.type === 'thinking') {
-        // Extended thinking blocks (Claude can include thinking)
-        // Count as reasoning tokens (approximate)
-        const thinkingText = blockWithType.thinking;
-        if (thinkingText) {
-          reasoningTokens += Math.ceil(thinkingText.length / 4); // Rough token estimate
-        }
+        // Kept with its signature so it can be sent back on the next turn
+        reasoning.push({ type: 'reasoning', text: blockWithType.thinking, signature: blockWithType.signature });
+        // The API bills thinking as output without reporting it separately, so estimate it
+        reasoningTokens += Math.ceil(blockWithType.thinking.length / 4);
+      } else if (blockWithType.type === 'redacted_thinking') {
+        reasoning.push({ type: 'redacted_reasoning', data: blockWithType.data });
       }
     }
 
     let tokenUsage: TokenUsage | undefined;
     if (response.usage) {
+      // input_tokens excludes cached tokens, which are reported separately
+      const cacheRead = response.usage.cache_read_input_tokens ?? 0;
+      const cacheWrite = response.usage.cache_creation_input_tokens ?? 0;
       tokenUsage = {
-        input: response.usage.input_tokens,
+        input: response.usage.input_tokens + cacheRead + cacheWrite,
         output: response.usage.output_tokens,
         reasoning: reasoningTokens,
+        cacheRead,
+        cacheWrite,
       };
     }
 
     return {
       role: 'assistant',
       content: textContent,
+      reasoning: reasoning.length > 0 ? reasoning : undefined,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       tokenUsage,
     };
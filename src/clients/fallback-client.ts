@@ -0,0 +1,147 @@
+/**
+ * Fallback client - tries a list of clients in order when a model is rate limited, failing or out of context
+ */
+
+import type {
+  AssistantMessage,
+  ChatMessage,
+  GenerateOptions,
+  LLMClient,
+  LLMStreamEvent,
+  Tool,
+} from '../core/models.js';
+import { ContextOverflowError } from '../core/models.js';
+
+export interface FallbackClientConfig {
+  /** Clients to try, in order; the first is the primary */
+  clients: LLMClient[];
+
+  /**
+   * Whether an error from a client should move on to the next one (default: isFallbackError)
+   * Other errors are thrown straight away.
+   */
+  shouldFallback?: (error: unknown, client: LLMClient) => boolean;
+
+  /** Called when a client fails and the next one is tried */
+  onFallback?: (error: unknown, from: LLMClient, to: LLMClient) => void;
+}
+
+/**
+ * Whether an error is worth retrying on another model
+ * True for context overflow, rate limits (HTTP 429) and server errors (HTTP 5xx), as reported in the `status`
+ * of provider SDK errors.
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (error instanceof ContextOverflowError) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+/**
+ * Client that tries each of several clients in turn
+ * Each client should do its own retries; the next client is tried once one gives up with a fallback error.
+ * Responses carry the model that generated them in `model`, so the agent reports and prices the model
+ * actually used.
+ *
+ * @example
+ * ```typescript
+ * const client = new FallbackClient({
+ *   clients: [
+ *     new AnthropicClient({ model: 'claude-sonnet-4-5' }),
+ *     new ChatCompletionsClient({ model: 'gpt-5' }),
+ *   ],
+ * });
+ * ```
+ */
+export class FallbackClient implements LLMClient {
+  private primary: LLMClient;
+  private clients: LLMClient[];
+  private shouldFallback: (error: unknown, client: LLMClient) => boolean;
+  private onFallback?: (error: unknown, from: LLMClient, to: LLMClient) => void;
+
+  constructor(config: FallbackClientConfig) {
+    const [primary] = config.clients;
+    if (!primary) {
+      throw new Error('FallbackClient needs at least one client');
+    }
+    this.primary = primary;
+    this.clients = config.clients;
+    this.shouldFallback = config.shouldFallback ?? isFallbackError;
+    this.onFallback = config.onFallback;
+  }
+
+  /** The primary client's model */
+  get modelSlug(): string {
+    return this.primary.modelSlug;
+  }
+
+  /** The primary client's context window, so the agent summarizes before the primary overflows */
+  get maxTokens(): number {
+    return this.primary.maxTokens;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): Promise<AssistantMessage> {
+    let client = this.primary;
+    for (let i = 0; ; i++) {
+      try {
+        const message = await client.generate(messages, tools, options);
+        return withModel(message, client);
+      } catch (error) {
+        client = this.next(error, client, i, options?.signal);
+      }
+    }
+  }
+
+  /**
+   * Stream from the first client that starts responding
+   * A client that fails after it has streamed deltas is not replaced, since those deltas were already yielded.
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): AsyncIterable<LLMStreamEvent> {
+    let client = this.primary;
+    for (let i = 0; ; i++) {
+      let started = false;
+      try {
+        if (!client.generateStream) {
+          const message = await client.generate(messages, tools, options);
+          yield { type: 'done', message: withModel(message, client) };
+          return;
+        }
+        for await (const event of client.generateStream(messages, tools, options)) {
+          started = true;
+          yield event.type === 'done' ? { type: 'done', message: withModel(event.message, client) } : event;
+        }
+        return;
+      } catch (error) {
+        if (started) throw error;
+        client = this.next(error, client, i, options?.signal);
+      }
+    }
+  }
+
+  /**
+   * The client to try after the one at `index` failed
+   * @throws The error, unless it can fall back to a next client
+   */
+  private next(error: unknown, client: LLMClient, index: number, signal?: AbortSignal): LLMClient {
+    signal?.throwIfAborted();
+    const next = this.clients[index + 1];
+    if (!next || !this.shouldFallback(error, client)) {
+      throw error;
+    }
+    this.onFallback?.(error, client, next);
+    return next;
+  }
+}
+
+/** Tag a response with the client's model, keeping one set by a nested multi-model client */
+export function withModel(message: AssistantMessage, client: LLMClient): AssistantMessage {
+  return message.model ? message : { ...message, model: client.modelSlug };
+}
@@ -0,0 +1,332 @@
+/**
+ * Google Gemini native client implementation
+ */
+
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  ReasoningBlock,
+  Tool,
+  ToolCall,
+  TokenUsage,
+} from '../core/models.js';
+import { ContextOverflowError } from '../core/models.js';
+import { readServerSentEvents, toGeminiMessages, toGeminiTools } from './utils.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
+
+export interface GeminiClientConfig {
+  /** Model identifier (e.g., 'gemini-2.5-pro') */
+  model: string;
+
+  /** Maximum tokens in context window */
+  maxTokens?: number;
+
+  /** API key for authentication (default: GEMINI_API_KEY, then GOOGLE_API_KEY) */
+  apiKey?: string;
+
+  /** Base URL of the Gemini API (default: 'https://generativelanguage.googleapis.com/v1beta') */
+  baseURL?: string;
+
+  /** Maximum number of retry attempts */
+  maxRetries?: number;
+
+  /** Temperature for sampling (0-2 for Gemini) */
+  temperature?: number;
+
+  /** Maximum tokens to generate (default: the model's limit) */
+  maxTokensToGenerate?: number;
+
+  /**
+   * Thinking token budget; 0 turns thinking off (where the model allows it) and -1 lets the model decide
+   * Thought summaries are returned in AssistantMessage.reasoning unless includeThoughts is false.
+   */
+  thinking?: { budgetTokens: number; includeThoughts?: boolean };
+}
+
+/**
+ * Error response from the Gemini API
+ * `status` is the HTTP status code, as on provider SDK errors.
+ */
+export class GeminiAPIError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly reason?: string
+  ) {
+    super(`Gemini API error ${status}${reason ? ` (${reason})` : ''}: ${message}`);
+    this.name = 'GeminiAPIError';
+  }
+}
+
+/** A part of Gemini content, as returned by the API */
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  thoughtSignature?: string;
+  functionCall?: { id?: string; name: string; args?: unknown };
+}
+
+/** generateContent response, or one chunk of a streamed response */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+}
+
+/**
+ * Google Gemini native client
+ * Calls the Gemini REST API directly; images, video and audio are sent as inline data.
+ */
+export class GeminiClient implements LLMClient {
+  private config: Required<Omit<GeminiClientConfig, 'maxTokensToGenerate' | 'thinking'>>;
+  private maxTokensToGenerate: number | undefined;
+  private thinking: GeminiClientConfig['thinking'];
+
+  constructor(config: GeminiClientConfig) {
+    const {
+      model,
+      maxTokens = 1_048_576,
+      apiKey = process.env.GEMINI_API_KEY ?? process.env.GOOGLE_API_KEY,
+      baseURL = 'https://generativelanguage.googleapis.com/v1beta',
+      maxRetries = MAX_RETRY_ATTEMPTS,
+      temperature = 1.0,
+      maxTokensToGenerate,
+      thinking,
+    } = config;
+
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+
+    if (thinking && thinking.budgetTokens < -1) {
+      throw new Error('thinking.budgetTokens must be -1 (dynamic), 0 (off) or a positive token budget');
+    }
+
+    this.config = {
+      model,
+      maxTokens,
+      apiKey,
+      baseURL: baseURL.replace(/\/+$/, ''),
+      maxRetries,
+      temperature,
+    };
+    this.maxTokensToGenerate = maxTokensToGenerate;
+    this.thinking = thinking;
+  }
+
+  get modelSlug(): string {
+    return this.config.model;
+  }
+
+  get maxTokens(): number {
+    return this.config.maxTokens;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+    const body = this.buildBody(messages, tools);
+
+    try {
+      const response = await retryRequest(
+        async () => {
+          const res = await this.post('generateContent', body, signal);
+          return (await res.json()) as GeminiResponse;
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return this.parseResponse(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model over server-sent events
+   * Retries only cover opening the stream; errors after the first chunk are not retried
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+    const body = this.buildBody(messages, tools);
+
+    try {
+      const res = await retryRequest(() => this.post('streamGenerateContent?alt=sse', body, signal), {
+        retries: this.config.maxRetries,
+        signal,
+      });
+
+      // Chunks carry new parts only; gather them into one response so parsing is shared
+      const parts: GeminiPart[] = [];
+      let last: GeminiResponse = {};
+      let toolCallIndex = 0;
+
+      for await (const chunk of readServerSentEvents(res)) {
+        const response = JSON.parse(chunk) as GeminiResponse;
+        last = { ...last, ...response };
+
+        for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+          parts.push(part);
+          if (part.functionCall) {
+            // Gemini sends each function call whole
+            yield {
+              type: 'tool_call:delta',
+              index: toolCallIndex++,
+              toolCallId: part.functionCall.id,
+              name: part.functionCall.name,
+              argumentsDelta: JSON.stringify(part.functionCall.args ?? {}),
+            };
+          } else if (part.text) {
+            yield { type: part.thought ? 'reasoning:delta' : 'text:delta', delta: part.text };
+          }
+        }
+      }
+
+      const candidate = last.candidates?.[0];
+      yield {
+        type: 'done',
+        message: this.parseResponse({ ...last, candidates: [{ ...candidate, content: { parts } }] }),
+      };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Build the request body shared by generate() and generateStream()
+   */
+  private buildBody(messages: ChatMessage[], tools: Map<string, Tool>): Record<string, unknown> {
+    const { systemInstruction, contents } = toGeminiMessages(messages);
+    const geminiTools = toGeminiTools(tools);
+
+    const generationConfig: Record<string, unknown> = { temperature: this.config.temperature };
+    if (this.maxTokensToGenerate !== undefined) {
+      generationConfig.maxOutputTokens = this.maxTokensToGenerate;
+    }
+    if (this.thinking) {
+      generationConfig.thinkingConfig = {
+        thinkingBudget: this.thinking.budgetTokens,
+        includeThoughts: this.thinking.budgetTokens !== 0 && this.thinking.includeThoughts !== false,
+      };
+    }
+
+    const body: Record<string, unknown> = { contents, generationConfig };
+
+    if (systemInstruction) {
+      body.systemInstruction = systemInstruction;
+    }
+
+    if (geminiTools.length > 0) {
+      body.tools = geminiTools;
+    }
+
+    return body;
+  }
+
+  /**
+   * POST to a model method, throwing GeminiAPIError for error responses
+   */
+  private async post(method: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const res = await fetch(`${this.config.baseURL}/models/${this.config.model}:${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.config.apiKey },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      let error: { message?: string; status?: string } | undefined;
+      try {
+        error = (JSON.parse(text) as { error?: { message?: string; status?: string } }).error;
+      } catch {
+        // Not a JSON error body; report the raw text
+      }
+      throw new GeminiAPIError(res.status, error?.message ?? (text || res.statusText), error?.status);
+    }
+
+    return res;
+  }
+
+  /**
+   * Map provider errors to Stirrup errors
+   */
+  private mapError(error: unknown): unknown {
+    // Check for context overflow errors
+    if (
+      error instanceof GeminiAPIError &&
+      error.status === 400 &&
+      /exceeds the maximum number of tokens|context window|too long/i.test(error.message)
+    ) {
+      return new ContextOverflowError('Context window exceeded');
+    }
+    return error;
+  }
+
+  private parseResponse(response: GeminiResponse): AssistantMessage {
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+      const reason = response.promptFeedback?.blockReason;
+      throw new Error(reason ? `Gemini blocked the prompt: ${reason}` : 'Gemini returned no candidates');
+    }
+
+    let textContent = '';
+    const toolCalls: ToolCall[] = [];
+    const reasoning: ReasoningBlock[] = [];
+
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.functionCall) {
+        toolCalls.push({
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+          toolCallId: part.functionCall.id,
+          // Sent back on the next turn so the model keeps its reasoning across tool calls
+          signature: part.thoughtSignature,
+        });
+      } else if (part.thought) {
+        reasoning.push({ type: 'reasoning', text: part.text ?? '' });
+      } else if (part.text) {
+        textContent += part.text;
+      }
+    }
+
+    let tokenUsage: TokenUsage | undefined;
+    const usage = response.usageMetadata;
+    if (usage) {
+      // candidatesTokenCount excludes thinking, which is billed as output
+      const reasoningTokens = usage.thoughtsTokenCount ?? 0;
+      tokenUsage = {
+        input: usage.promptTokenCount ?? 0,
+        output: (usage.candidatesTokenCount ?? 0) + reasoningTokens,
+        reasoning: reasoningTokens,
+        cacheRead: usage.cachedContentTokenCount ?? 0,
+      };
+    }
+
+    return {
+      role: 'assistant',
+      content: textContent,
+      reasoning: reasoning.length > 0 ? reasoning : undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      tokenUsage,
+    };
+  }
+}
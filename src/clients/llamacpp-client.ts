@@ -0,0 +1,275 @@
+/**
+ * llama.cpp server client implementation using the raw /completion endpoint
+ */
+
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  Tool,
+  TokenUsage,
+} from '../core/models.js';
+import { ContextOverflowError, contentToText } from '../core/models.js';
+import { parseTextToolCalls, readServerSentEvents, toTextToolMessages } from './utils.js';
+import { LocalModelServerError } from './ollama-client.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
+
+export interface LlamaCppClientConfig {
+  /** llama.cpp server URL (default: 'http://localhost:8080') */
+  baseURL?: string;
+
+  /** Model name to report (default: 'llama.cpp'); the server runs a single model */
+  model?: string;
+
+  /** API key, when the server was started with --api-key */
+  apiKey?: string;
+
+  /** Maximum tokens in context window (default: the server's n_ctx, read before the first request) */
+  maxTokens?: number;
+
+  /** Maximum number of retry attempts */
+  maxRetries?: number;
+
+  /** Temperature for sampling */
+  temperature?: number;
+
+  /** Maximum tokens to generate (default: until the model stops or the context is full) */
+  maxTokensToGenerate?: number;
+}
+
+/** Context window assumed until the server reports its own */
+const DEFAULT_CONTEXT_LENGTH = 4096;
+
+/** /completion response, or one event of a streamed response */
+interface CompletionResponse {
+  content?: string;
+  stop?: boolean;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
+
+/**
+ * Client for a llama.cpp server's /completion endpoint
+ * Messages are rendered with the model's own chat template through /apply-template, and tools always use the
+ * JSON-in-text protocol, so any model the server can load works, with or without function calling. Media is
+ * replaced by placeholders.
+ *
+ * @example
+ * ```typescript
+ * const client = await LlamaCppClient.create({ baseURL: 'http://localhost:8080', model: 'qwen2.5-7b' });
+ * ```
+ */
+export class LlamaCppClient implements LLMClient {
+  private config: Required<Omit<LlamaCppClientConfig, 'apiKey' | 'maxTokens' | 'maxTokensToGenerate'>>;
+  private apiKey: string | undefined;
+  private maxTokensToGenerate: number | undefined;
+  private contextLength: number | undefined;
+  private props?: Promise<void>;
+
+  constructor(config: LlamaCppClientConfig = {}) {
+    const {
+      baseURL = 'http://localhost:8080',
+      model = 'llama.cpp',
+      apiKey,
+      maxTokens,
+      maxRetries = MAX_RETRY_ATTEMPTS,
+      temperature = 0.7,
+      maxTokensToGenerate,
+    } = config;
+
+    this.config = { baseURL: baseURL.replace(/\/+$/, ''), model, maxRetries, temperature };
+    this.apiKey = apiKey;
+    this.maxTokensToGenerate = maxTokensToGenerate;
+    this.contextLength = maxTokens;
+  }
+
+  /**
+   * Create a client with the server's context window already read
+   */
+  static async create(config: LlamaCppClientConfig = {}): Promise<LlamaCppClient> {
+    const client = new LlamaCppClient(config);
+    await client.loadServerProps();
+    return client;
+  }
+
+  get modelSlug(): string {
+    return this.config.model;
+  }
+
+  get maxTokens(): number {
+    return this.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  }
+
+  /**
+   * Read the context length (n_ctx) from /props
+   * Runs once, before the first request, unless maxTokens was configured.
+   */
+  loadServerProps(signal?: AbortSignal): Promise<void> {
+    if (this.contextLength !== undefined) {
+      return Promise.resolve();
+    }
+    this.props ??= this.fetchServerProps(signal).catch((error: unknown) => {
+      this.props = undefined;
+      throw error;
+    });
+    return this.props;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+
+    try {
+      await this.loadServerProps(signal);
+      const response = await retryRequest(
+        async () => {
+          const body = await this.buildBody(messages, tools, false, signal);
+          const res = await this.request('/completion', body, signal);
+          return (await res.json()) as CompletionResponse;
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return this.parseResponse(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model over server-sent events
+   * Retries only cover opening the stream; errors after the first event are not retried.
+   * Tool calls are parsed from the full reply, so its text is streamed as is.
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+
+    try {
+      await this.loadServerProps(signal);
+      const res = await retryRequest(
+        async () => this.request('/completion', await this.buildBody(messages, tools, true, signal), signal),
+        { retries: this.config.maxRetries, signal }
+      );
+
+      let content = '';
+      let last: CompletionResponse = {};
+      for await (const data of readServerSentEvents(res)) {
+        const chunk = JSON.parse(data) as CompletionResponse & { error?: { code?: number; message?: string } };
+        if (chunk.error) {
+          throw new LocalModelServerError(chunk.error.code ?? 500, chunk.error.message ?? 'Stream error');
+        }
+        last = chunk;
+        if (chunk.content) {
+          content += chunk.content;
+          yield { type: 'text:delta', delta: chunk.content };
+        }
+      }
+
+      yield { type: 'done', message: this.parseResponse({ ...last, content }) };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  private async fetchServerProps(signal?: AbortSignal): Promise<void> {
+    const res = await this.request('/props', undefined, signal);
+    const props = (await res.json()) as { default_generation_settings?: { n_ctx?: number }; n_ctx?: number };
+    const contextLength = props.default_generation_settings?.n_ctx ?? props.n_ctx;
+    if (typeof contextLength === 'number') {
+      this.contextLength = contextLength;
+    }
+  }
+
+  /**
+   * Build the /completion body, rendering the conversation with the model's chat template
+   */
+  private async buildBody(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Record<string, unknown>> {
+    const templateMessages = toTextToolMessages(messages, tools).map((message) => ({
+      role: message.role,
+      content: contentToText(message.content),
+    }));
+    const res = await this.request('/apply-template', { messages: templateMessages }, signal);
+    const { prompt } = (await res.json()) as { prompt: string };
+
+    return {
+      prompt,
+      stream,
+      temperature: this.config.temperature,
+      n_predict: this.maxTokensToGenerate ?? -1,
+      cache_prompt: true,
+    };
+  }
+
+  /**
+   * Send a request (POST when there is a body), throwing LocalModelServerError for error responses
+   */
+  private async request(path: string, body?: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const res = await fetch(`${this.config.baseURL}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      let message: string | undefined;
+      try {
+        message = (JSON.parse(text) as { error?: { message?: string } }).error?.message;
+      } catch {
+        // Not a JSON error body; report the raw text
+      }
+      throw new LocalModelServerError(res.status, message ?? (text || res.statusText));
+    }
+
+    return res;
+  }
+
+  /**
+   * Map server errors to Stirrup errors
+   */
+  private mapError(error: unknown): unknown {
+    // Check for context overflow errors
+    if (error instanceof LocalModelServerError && /context size|context length|too long/i.test(error.message)) {
+      return new ContextOverflowError('Context window exceeded');
+    }
+    return error;
+  }
+
+  private parseResponse(response: CompletionResponse): AssistantMessage {
+    const { content, toolCalls } = parseTextToolCalls(response.content ?? '');
+
+    let tokenUsage: TokenUsage | undefined;
+    if (response.tokens_evaluated !== undefined || response.tokens_predicted !== undefined) {
+      tokenUsage = {
+        input: response.tokens_evaluated ?? 0,
+        output: response.tokens_predicted ?? 0,
+        reasoning: 0,
+      };
+    }
+
+    return { role: 'assistant', content, toolCalls, tokenUsage };
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Ollama client implementation for local models
+ */
+
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  Tool,
+  ToolCall,
+  TokenUsage,
+} from '../core/models.js';
+import { ContextOverflowError } from '../core/models.js';
+import { parseTextToolCalls, readJsonLines, toOllamaMessages, toOpenAITools, toTextToolMessages } from './utils.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
+
+/**
+ * How tools are offered to the model
+ * 'native' uses Ollama's function calling, 'json' describes tools in the system prompt and parses JSON tool
+ * calls from the reply, and 'auto' picks 'native' when the model reports the tools capability.
+ */
+export type ToolCallingMode = 'auto' | 'native' | 'json';
+
+export interface OllamaClientConfig {
+  /** Model name (e.g., 'qwen3:8b') */
+  model: string;
+
+  /** Ollama server URL (default: OLLAMA_HOST, else 'http://localhost:11434') */
+  baseURL?: string;
+
+  /**
+   * Maximum tokens in context window, also sent as `num_ctx`
+   * Default: the model's context length from the server, read before the first request (see create()).
+   */
+  maxTokens?: number;
+
+  /** How tools are offered to the model (default: 'auto') */
+  toolCalling?: ToolCallingMode;
+
+  /** Maximum number of retry attempts */
+  maxRetries?: number;
+
+  /** Temperature for sampling */
+  temperature?: number;
+
+  /** Maximum tokens to generate (default: the server's) */
+  maxTokensToGenerate?: number;
+
+  /** Enable or disable thinking on models that support it; thinking is returned in AssistantMessage.reasoning */
+  think?: boolean;
+}
+
+/** Context window assumed until the server reports the model's */
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+/**
+ * Error response from a local model server
+ * `status` is the HTTP status code, as on provider SDK errors.
+ */
+export class LocalModelServerError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(`Model server error ${status}: ${message}`);
+    this.name = 'LocalModelServerError';
+  }
+}
+
+/** /api/chat response, or one line of a streamed response */
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+    thinking?: string;
+    tool_calls?: Array<{ function: { name: string; arguments?: unknown } }>;
+  };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Ollama client for local models
+ * Uses Ollama's native chat API. The context window and function-calling support are read from the server's
+ * model info; models without function calling get tools through a JSON-in-text protocol.
+ *
+ * @example
+ * ```typescript
+ * const client = await OllamaClient.create({ model: 'qwen3:8b' });
+ * ```
+ */
+export class OllamaClient implements LLMClient {
+  private config: Required<Omit<OllamaClientConfig, 'maxTokens' | 'maxTokensToGenerate' | 'think'>>;
+  private maxTokensToGenerate: number | undefined;
+  private think: boolean | undefined;
+  private contextLength: number | undefined;
+  private nativeTools: boolean | undefined;
+  private modelInfo?: Promise<void>;
+
+  constructor(config: OllamaClientConfig) {
+    const {
+      model,
+      baseURL = process.env.OLLAMA_HOST ?? 'http://localhost:11434',
+      maxTokens,
+      toolCalling = 'auto',
+      maxRetries = MAX_RETRY_ATTEMPTS,
+      temperature = 0.7,
+      maxTokensToGenerate,
+      think,
+    } = config;
+
+    this.config = {
+      model,
+      baseURL: (/^https?:\/\//.test(baseURL) ? baseURL : `http://${baseURL}`).replace(/\/+$/, ''),
+      toolCalling,
+      maxRetries,
+      temperature,
+    };
+    this.maxTokensToGenerate = maxTokensToGenerate;
+    this.think = think;
+    this.contextLength = maxTokens;
+    if (toolCalling !== 'auto') {
+      this.nativeTools = toolCalling === 'native';
+    }
+  }
+
+  /**
+   * Create a client with the model's context window and capabilities already read from the server
+   */
+  static async create(config: OllamaClientConfig): Promise<OllamaClient> {
+    const client = new OllamaClient(config);
+    await client.loadModelInfo();
+    return client;
+  }
+
+  get modelSlug(): string {
+    return this.config.model;
+  }
+
+  get maxTokens(): number {
+    return this.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  }
+
+  /**
+   * Read the model's context length and function-calling support from /api/show
+   * Runs once, before the first request; settings given in the config are kept.
+   */
+  loadModelInfo(signal?: AbortSignal): Promise<void> {
+    if (this.contextLength !== undefined && this.nativeTools !== undefined) {
+      return Promise.resolve();
+    }
+    this.modelInfo ??= this.fetchModelInfo(signal).catch((error: unknown) => {
+      this.modelInfo = undefined;
+      throw error;
+    });
+    return this.modelInfo;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+
+    try {
+      await this.loadModelInfo(signal);
+      const body = this.buildBody(messages, tools, false);
+      const response = await retryRequest(
+        async () => {
+          const res = await this.post('/api/chat', body, signal);
+          return (await res.json()) as OllamaChatResponse;
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return this.parseResponse(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model
+   * Retries only cover opening the stream; errors after the first line are not retried.
+   * With JSON tool calling, tool calls are parsed from the full reply, so its text is streamed as is.
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+
+    try {
+      await this.loadModelInfo(signal);
+      const body = this.buildBody(messages, tools, true);
+      const res = await retryRequest(() => this.post('/api/chat', body, signal), {
+        retries: this.config.maxRetries,
+        signal,
+      });
+
+      // Accumulate lines into the shape of a non-streaming response so parsing is shared
+      let content = '';
+      let thinking = '';
+      const toolCalls: NonNullable<NonNullable<OllamaChatResponse['message']>['tool_calls']> = [];
+      let last: OllamaChatResponse = {};
+
+      for await (const line of readJsonLines(res)) {
+        const chunk = JSON.parse(line) as OllamaChatResponse & { error?: string };
+        if (chunk.error) {
+          throw new LocalModelServerError(500, chunk.error);
+        }
+        last = chunk;
+
+        if (chunk.message?.thinking) {
+          thinking += chunk.message.thinking;
+          yield { type: 'reasoning:delta', delta: chunk.message.thinking };
+        }
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          yield { type: 'text:delta', delta: chunk.message.content };
+        }
+        for (const tc of chunk.message?.tool_calls ?? []) {
+          // Ollama sends each tool call whole
+          yield {
+            type: 'tool_call:delta',
+            index: toolCalls.length,
+            name: tc.function.name,
+            argumentsDelta: JSON.stringify(tc.function.arguments ?? {}),
+          };
+          toolCalls.push(tc);
+        }
+      }
+
+      yield {
+        type: 'done',
+        message: this.parseResponse({
+          ...last,
+          message: { content, thinking, tool_calls: toolCalls.length > 0 ? toolCalls : undefined },
+        }),
+      };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  private async fetchModelInfo(signal?: AbortSignal): Promise<void> {
+    const res = await this.post('/api/show', { model: this.config.model }, signal);
+    const info = (await res.json()) as { model_info?: Record<string, unknown>; capabilities?: string[] };
+
+    if (this.contextLength === undefined) {
+      // Keyed by architecture, e.g. 'llama.context_length'
+      const architecture = info.model_info?.['general.architecture'];
+      const contextLength = info.model_info?.[`${String(architecture)}.context_length`];
+      if (typeof contextLength === 'number') {
+        this.contextLength = contextLength;
+      }
+    }
+
+    // Older servers do not report capabilities; assume function calling then
+    this.nativeTools ??= info.capabilities?.includes('tools') ?? true;
+  }
+
+  /**
+   * Build the request body shared by generate() and generateStream()
+   */
+  private buildBody(messages: ChatMessage[], tools: Map<string, Tool>, stream: boolean): Record<string, unknown> {
+    const native = this.nativeTools !== false;
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: toOllamaMessages(native ? messages : toTextToolMessages(messages, tools)),
+      stream,
+      options: {
+        temperature: this.config.temperature,
+        num_ctx: this.maxTokens,
+        ...(this.maxTokensToGenerate !== undefined ? { num_predict: this.maxTokensToGenerate } : {}),
+      },
+    };
+
+    if (native && tools.size > 0) {
+      body.tools = toOpenAITools(tools);
+    }
+
+    if (this.think !== undefined) {
+      body.think = this.think;
+    }
+
+    return body;
+  }
+
+  /**
+   * POST JSON to the server, throwing LocalModelServerError for error responses
+   */
+  private async post(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const res = await fetch(`${this.config.baseURL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      let message: string | undefined;
+      try {
+        message = (JSON.parse(text) as { error?: string }).error;
+      } catch {
+        // Not a JSON error body; report the raw text
+      }
+      throw new LocalModelServerError(res.status, message ?? (text || res.statusText));
+    }
+
+    return res;
+  }
+
+  /**
+   * Map server errors to Stirrup errors
+   */
+  private mapError(error: unknown): unknown {
+    // Check for context overflow errors
+    if (error instanceof LocalModelServerError && /context (length|size|window)|too long/i.test(error.message)) {
+      return new ContextOverflowError('Context window exceeded');
+    }
+    return error;
+  }
+
+  private parseResponse(response: OllamaChatResponse): AssistantMessage {
+    const message = response.message ?? {};
+    let content = message.content ?? '';
+    let toolCalls: ToolCall[] | undefined;
+
+    if (this.nativeTools === false) {
+      ({ content, toolCalls } = parseTextToolCalls(content));
+    } else if (message.tool_calls && message.tool_calls.length > 0) {
+      // Ollama does not assign tool call IDs
+      toolCalls = message.tool_calls.map((tc) => ({
+        name: tc.function.name,
+        arguments: JSON.stringify(tc.function.arguments ?? {}),
+        toolCallId: `call_${Math.random().toString(36).slice(2, 11)}`,
+      }));
+    }
+
+    let tokenUsage: TokenUsage | undefined;
+    if (response.prompt_eval_count !== undefined || response.eval_count !== undefined) {
+      tokenUsage = {
+        input: response.prompt_eval_count ?? 0,
+        output: response.eval_count ?? 0,
+        reasoning: 0,
+      };
+    }
+
+    return {
+      role: 'assistant',
+      content,
+      reasoning: message.thinking ? [{ type: 'reasoning', text: message.thinking }] : undefined,
+      toolCalls,
+      tokenUsage,
+    };
+  }
+}
@@ -9,11 +9,22 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import OpenAI from 'openai';
-import retry from 'async-retry';
-import type { LLMClient, ChatMessage, AssistantMessage, Tool, ToolCall, TokenUsage, Content } from '../core/models.js';
-import { ContextOverflowError } from '../core/models.js';
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  ReasoningBlock,
+  Tool,
+  ToolCall,
+  TokenUsage,
+  Content,
+} from '../core/models.js';
+import { ContextOverflowError, moveToolMediaToUserMessages } from '../core/models.js';
 import { zodToJsonSchema } from './utils.js';
-import { MAX_RETRY_ATTEMPTS, RETRY_MIN_TIMEOUT, RETRY_MAX_TIMEOUT } from '../constants.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
 
 export interface OpenResponsesClientConfig {
   /** Model identifier (e.g., 'gpt-4o', 'o3-mini') */
@@ -36,6 +47,9 @@ export interface OpenResponsesClientConfig {
 
   /** Reasoning effort for o-series models */
   reasoningEffort?: 'low' | 'medium' | 'high';
+
+  /** Request reasoning summaries, returned in AssistantMessage.reasoning */
+  reasoningSummary?: 'auto' | 'concise' | 'detailed';
 }
 
 /**
@@ -53,6 +67,7 @@ export class OpenResponsesClient implements LLMClient {
     maxRetries: number;
     temperature: number;
     reasoningEffort?: 'low' | 'medium' | 'high';
+    reasoningSummary?: 'auto' | 'concise' | 'detailed';
   };
 
   constructor(config: OpenResponsesClientConfig) {
@@ -64,6 +79,7 @@ export class OpenResponsesClient implements LLMClient {
       maxRetries = MAX_RETRY_ATTEMPTS,
       temperature = 1.0,
       reasoningEffort,
+      reasoningSummary,
     } = config;
 
     if (!apiKey) {
@@ -71,7 +87,7 @@ export class OpenResponsesClient implements LLMClient {
     }
 
     this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 });
-    this.config = { model, maxTokens, maxRetries, temperature, reasoningEffort };
+    this.config = { model, maxTokens, maxRetries, temperature, reasoningEffort, reasoningSummary };
   }
 
   get modelSlug(): string {
@@ -82,7 +98,117 @@ export class OpenResponsesClient implements LLMClient {
     return this.config.maxTokens;
   }
 
-  async generate(messages: ChatMessage[], tools: Map<string, Tool>): Promise<AssistantMessage> {
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const response = await retryRequest(
+        async () => {
+          return await (this.client as any).responses.create(params, { signal });
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return parseResponseOutput(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model.
+   *
+   * Retries only cover opening the stream; errors after the first event are not retried.
+   * The final message is parsed from the `response.completed` event.
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const stream: AsyncIterable<any> = await retryRequest(
+        async () => {
+          return await (this.client as any).responses.create({ ...params, stream: true }, { signal });
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      // Map output item index -> tool call index (tool calls are numbered among function_call items only)
+      const toolCallIndexByOutput = new Map<number, number>();
+      let completed: any;
+
+      for await (const event of stream) {
+        switch (getAttr(event, 'type')) {
+          case 'response.output_text.delta':
+            yield { type: 'text:delta', delta: getAttr(event, 'delta', '') };
+            break;
+
+          case 'response.reasoning_summary_text.delta':
+          case 'response.reasoning_text.delta':
+            yield { type: 'reasoning:delta', delta: getAttr(event, 'delta', '') };
+            break;
+
+          case 'response.output_item.added': {
+            const item = getAttr(event, 'item');
+            if (getAttr(item, 'type') === 'function_call') {
+              const index = toolCallIndexByOutput.size;
+              toolCallIndexByOutput.set(getAttr(event, 'output_index'), index);
+              yield {
+                type: 'tool_call:delta',
+                index,
+                toolCallId: getAttr(item, 'call_id') ?? getAttr(item, 'id'),
+                name: getAttr(item, 'name'),
+                argumentsDelta: '',
+              };
+            }
+            break;
+          }
+
+          case 'response.function_call_arguments.delta':
+            yield {
+              type: 'tool_call:delta',
+              index: toolCallIndexByOutput.get(getAttr(event, 'output_index')) ?? 0,
+              argumentsDelta: getAttr(event, 'delta', ''),
+            };
+            break;
+
+          case 'response.completed':
+            completed = getAttr(event, 'response');
+            break;
+
+          case 'response.failed':
+          case 'error': {
+            const error = getAttr(getAttr(event, 'response'), 'error') ?? event;
+            throw new Error(getAttr(error, 'message', 'Response stream failed'));
+          }
+        }
+      }
+
+      if (!completed) {
+        throw new Error('Stream ended before response.completed');
+      }
+
+      yield { type: 'done', message: parseResponseOutput(completed) };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw mapError(error);
+    }
+  }
+
+  /**
+   * Build request parameters shared by generate() and generateStream()
+   */
+  private buildParams(messages: ChatMessage[], tools: Map<string, Tool>): Record<string, unknown> {
     const { instructions, input } = toResponsesInput(messages);
     const responsesTools = tools.size > 0 ? toResponsesTools(tools) : undefined;
 
@@ -101,33 +227,22 @@ export class OpenResponsesClient implements LLMClient {
       params.tool_choice = 'auto';
     }
 
-    if (this.config.reasoningEffort) {
-      params.reasoning = { effort: this.config.reasoningEffort };
+    if (this.config.reasoningEffort || this.config.reasoningSummary) {
+      params.reasoning = { effort: this.config.reasoningEffort, summary: this.config.reasoningSummary };
     }
 
-    try {
-      const response = await retry(
-        async () => {
-          return await (this.client as any).responses.create(params);
-        },
-        {
-          retries: this.config.maxRetries,
-          minTimeout: RETRY_MIN_TIMEOUT,
-          maxTimeout: RETRY_MAX_TIMEOUT,
-          onRetry: (error: Error, attempt: number) => {
-            console.warn(`Retry attempt ${attempt} after error:`, error.message);
-          },
-        }
-      );
+    return params;
+  }
+}
 
-      return parseResponseOutput(response);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('context_length_exceeded')) {
-        throw new ContextOverflowError('Context window exceeded');
-      }
-      throw error;
-    }
+/**
+ * Map provider errors to Stirrup errors.
+ */
+function mapError(error: unknown): unknown {
+  if (error instanceof Error && error.message.includes('context_length_exceeded')) {
+    return new ContextOverflowError('Context window exceeded');
   }
+  return error;
 }
 
 // ============================================================================
@@ -168,13 +283,14 @@ function contentToInputParts(content: Content): unknown[] {
  * Convert ChatMessage list to Responses API (instructions, input) pair.
  *
  * SystemMessage content is extracted as the instructions parameter.
- * Other messages are converted to input items.
+ * Other messages are converted to input items. Images and files in tool results are sent in the
+ * function_call_output; audio is not accepted there and moves to a follow-up user message.
  */
 function toResponsesInput(messages: ChatMessage[]): { instructions: string | undefined; input: unknown[] } {
   let instructions: string | undefined;
   const input: unknown[] = [];
 
-  for (const message of messages) {
+  for (const message of moveToolMediaToUserMessages(messages, (block) => block.type === 'audio')) {
     if (message.role === 'system') {
       instructions = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
       continue;
@@ -211,7 +327,7 @@ function toResponsesInput(messages: ChatMessage[]): { instructions: string | und
       input.push({
         type: 'function_call_output',
         call_id: message.toolCallId,
-        output: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+        output: typeof message.content === 'string' ? message.content : contentToInputParts(message.content),
       });
     }
   }
@@ -285,6 +401,7 @@ function getAttr(obj: any, name: string, defaultValue: any = undefined): any {
 function parseResponseOutput(response: any): AssistantMessage {
   let textContent = '';
   const toolCalls: ToolCall[] = [];
+  const reasoning: ReasoningBlock[] = [];
 
   const output = response.output ?? [];
   for (const item of output) {
@@ -303,6 +420,16 @@ function parseResponseOutput(response: any): AssistantMessage {
         arguments: getAttr(item, 'arguments', ''),
         toolCallId: getAttr(item, 'call_id') ?? getAttr(item, 'id'),
       });
+    } else if (itemType === 'reasoning') {
+      // OpenAI returns summaries; open-weight models behind the Responses API may return the full reasoning text
+      const summary = getAttr(item, 'summary', []).map((part: any) => getAttr(part, 'text', ''));
+      const text = getAttr(item, 'content', [])
+        .filter((part: any) => getAttr(part, 'type') === 'reasoning_text')
+        .map((part: any) => getAttr(part, 'text', ''));
+      const parts = summary.length > 0 ? summary : text;
+      if (parts.length > 0) {
+        reasoning.push({ type: 'reasoning', text: parts.join('\n\n') });
+      }
     }
   }
 
@@ -317,12 +444,14 @@ function parseResponseOutput(response: any): AssistantMessage {
       input: inputTokens,
       output: outputTokens,
       reasoning: reasoningTokens,
+      cacheRead: usage.input_tokens_details?.cached_tokens ?? 0,
     };
   }
 
   return {
     role: 'assistant',
     content: textContent,
+    reasoning: reasoning.length > 0 ? reasoning : undefined,
     toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
     tokenUsage,
   };
@@ -4,11 +4,20 @@
  */
 
 import OpenAI from 'openai';
-import retry from 'async-retry';
-import type { LLMClient, ChatMessage, AssistantMessage, Tool, ToolCall, TokenUsage } from '../core/models.js';
+import type {
+  LLMClient,
+  LLMStreamEvent,
+  ChatMessage,
+  AssistantMessage,
+  GenerateOptions,
+  Tool,
+  ToolCall,
+  TokenUsage,
+} from '../core/models.js';
 import { ContextOverflowError } from '../core/models.js';
 import { toOpenAIMessages, toOpenAITools } from './utils.js';
-import { MAX_RETRY_ATTEMPTS, RETRY_MIN_TIMEOUT, RETRY_MAX_TIMEOUT } from '../constants.js';
+import { retryRequest } from '../utils/retry.js';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
 
 export interface ChatCompletionsClientConfig {
   /** Model identifier (e.g., 'gpt-4o', 'deepseek-chat') */
@@ -93,11 +102,140 @@ export class ChatCompletionsClient implements LLMClient {
     return this.config.maxTokens;
   }
 
-  async generate(messages: ChatMessage[], tools: Map<string, Tool>): Promise<AssistantMessage> {
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const response = await retryRequest(
+        async () => {
+          return await this.client.chat.completions.create(params, { signal });
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      return this.parseResponse(response);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Stream a response from the model
+   * Retries only cover opening the stream; errors after the first chunk are not retried
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+    const params = this.buildParams(messages, tools);
+
+    try {
+      const stream = await retryRequest(
+        async () => {
+          return await this.client.chat.completions.create(
+            {
+              ...params,
+              stream: true,
+              stream_options: { include_usage: true },
+            },
+            { signal }
+          );
+        },
+        { retries: this.config.maxRetries, signal }
+      );
+
+      // Accumulate chunks into the shape of a non-streaming completion so parsing is shared
+      let content = '';
+      const toolCalls: OpenAI.ChatCompletionMessageFunctionToolCall[] = [];
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          yield { type: 'text:delta', delta: delta.content };
+        }
+
+        // Reasoning text is exposed by some OpenAI-compatible providers (e.g. OpenRouter, DeepSeek)
+        const extended = delta as { reasoning?: string | null; reasoning_content?: string | null };
+        const reasoning = extended.reasoning_content ?? extended.reasoning;
+        if (reasoning) {
+          yield { type: 'reasoning:delta', delta: reasoning };
+        }
+
+        for (const tc of delta.tool_calls ?? []) {
+          let call = toolCalls[tc.index];
+          if (!call) {
+            call = { id: tc.id ?? '', type: 'function', function: { name: '', arguments: '' } };
+            toolCalls[tc.index] = call;
+          }
+          if (tc.id) call.id = tc.id;
+          if (tc.function?.name) call.function.name += tc.function.name;
+          if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+
+          yield {
+            type: 'tool_call:delta',
+            index: tc.index,
+            toolCallId: tc.id,
+            name: tc.function?.name,
+            argumentsDelta: tc.function?.arguments ?? '',
+          };
+        }
+      }
+
+      const message = this.parseResponse({
+        id: '',
+        object: 'chat.completion',
+        created: 0,
+        model: this.config.model,
+        choices: [
+          {
+            index: 0,
+            finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+            logprobs: null,
+            message: {
+              role: 'assistant',
+              content,
+              refusal: null,
+              tool_calls: toolCalls.length > 0 ? toolCalls.filter(Boolean) : undefined,
+            },
+          },
+        ],
+        usage,
+      });
+
+      yield { type: 'done', message };
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Build request parameters shared by generate() and generateStream()
+   */
+  private buildParams(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>
+  ): OpenAI.ChatCompletionCreateParamsNonStreaming {
     const openaiMessages = toOpenAIMessages(messages);
     const openaiTools = tools.size > 0 ? toOpenAITools(tools) : undefined;
 
-    const params: OpenAI.ChatCompletionCreateParams = {
+    const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
       model: this.config.model,
       messages: openaiMessages as OpenAI.ChatCompletionMessageParam[],
       temperature: this.config.temperature,
@@ -113,29 +251,18 @@ export class ChatCompletionsClient implements LLMClient {
       Object.assign(params, { reasoning_effort: this.config.reasoningEffort });
     }
 
-    try {
-      const response = await retry(
-        async () => {
-          return await this.client.chat.completions.create(params);
-        },
-        {
-          retries: this.config.maxRetries,
-          minTimeout: RETRY_MIN_TIMEOUT,
-          maxTimeout: RETRY_MAX_TIMEOUT,
-          onRetry: (error: Error, attempt: number) => {
-            console.warn(`Retry attempt ${attempt} after error:`, error.message);
-          },
-        }
-      );
+    return params;
+  }
 
-      return this.parseResponse(response);
-    } catch (error) {
-      // Check for context overflow errors
-      if (error instanceof Error && error.message.includes('context_length_exceeded')) {
-        throw new ContextOverflowError('Context window exceeded');
-      }
-      throw error;
+  /**
+   * Map provider errors to Stirrup errors
+   */
+  private mapError(error: unknown): unknown {
+    // Check for context overflow errors
+    if (error instanceof Error && error.message.includes('context_length_exceeded')) {
+      return new ContextOverflowError('Context window exceeded');
     }
+    return error;
   }
 
   private parseResponse(response: OpenAI.ChatCompletion): AssistantMessage {
@@ -177,6 +304,7 @@ export class ChatCompletionsClient implements LLMClient {
         reasoning: this.config.includeReasoningTokens
           ? (usageWithDetails.completion_tokens_details?.reasoning_tokens ?? 0)
           : 0,
+        cacheRead: response.usage.prompt_tokens_details?.cached_tokens ?? 0,
       };
     }
 
@@ -0,0 +1,155 @@
+/**
+ * Router client - picks the model for each turn with a policy function
+ */
+
+import type {
+  AssistantMessage,
+  ChatMessage,
+  GenerateOptions,
+  LLMClient,
+  LLMStreamEvent,
+  Tool,
+} from '../core/models.js';
+import { contentToText } from '../core/models.js';
+import { createHeuristicTokenEstimator, type TokenEstimator } from '../core/token-estimator.js';
+import { withModel } from './fallback-client.js';
+
+/**
+ * What a routing policy sees about the next request
+ */
+export interface RouteContext<K extends string = string> {
+  /** Messages of the request */
+  messages: ChatMessage[];
+  /** Tools offered to the model */
+  tools: Map<string, Tool>;
+  /** Estimated input tokens of the request */
+  estimatedTokens: number;
+  /** Whether the request continues from tool results rather than a new user message */
+  afterToolResults: boolean;
+  /** Consecutive most recent turns whose tool results include a failure (invalid arguments or an error) */
+  failedTurns: number;
+  /** Key of the client used for the previous request, if any */
+  previous?: K;
+  /** The router's clients, e.g. to compare context windows */
+  clients: Record<K, LLMClient>;
+}
+
+/** Chooses the key of the client for a request */
+export type RoutingPolicy<K extends string = string> = (context: RouteContext<K>) => K;
+
+export interface RouterClientConfig<K extends string = string> {
+  /** Clients by key, e.g. { cheap, strong, long } */
+  clients: Record<K, LLMClient>;
+
+  /** Picks the client for each request */
+  policy: RoutingPolicy<K>;
+
+  /** Key of the client whose model the router reports as its modelSlug (default: the first client) */
+  defaultClient?: K;
+
+  /** Estimator for `estimatedTokens` (default: about 4 characters per token) */
+  tokenEstimator?: TokenEstimator;
+}
+
+/**
+ * Client that routes each request to one of several clients
+ * The policy runs before every generation, so a run can use a cheap model for routine tool-result turns, a
+ * stronger model after failures, or a larger-context model as the history grows. `maxTokens` is the largest
+ * context window among the clients, so the agent only summarizes once no client can take the request.
+ * Responses carry the model that generated them in `model`.
+ *
+ * @example
+ * ```typescript
+ * const client = new RouterClient({
+ *   clients: { cheap: miniClient, strong: fullClient, long: longContextClient },
+ *   defaultClient: 'strong',
+ *   policy: ({ estimatedTokens, afterToolResults, failedTurns, clients }) => {
+ *     if (estimatedTokens > 0.8 * clients.strong.maxTokens) return 'long';
+ *     if (failedTurns > 0 || !afterToolResults) return 'strong';
+ *     return 'cheap';
+ *   },
+ * });
+ * ```
+ */
+export class RouterClient<K extends string = string> implements LLMClient {
+  readonly modelSlug: string;
+  readonly maxTokens: number;
+
+  private clients: Record<K, LLMClient>;
+  private policy: RoutingPolicy<K>;
+  private estimator: TokenEstimator;
+  private previous?: K;
+
+  constructor(config: RouterClientConfig<K>) {
+    const keys = Object.keys(config.clients) as K[];
+    const [firstKey] = keys;
+    if (firstKey === undefined) {
+      throw new Error('RouterClient needs at least one client');
+    }
+    this.clients = config.clients;
+    this.policy = config.policy;
+    this.estimator = config.tokenEstimator ?? createHeuristicTokenEstimator();
+    this.modelSlug = config.clients[config.defaultClient ?? firstKey].modelSlug;
+    this.maxTokens = Math.max(...keys.map((key) => config.clients[key].maxTokens));
+  }
+
+  /** Key of the client the policy picks for a request */
+  route(messages: ChatMessage[], tools: Map<string, Tool>): K {
+    const key = this.policy({
+      messages,
+      tools,
+      estimatedTokens: this.estimator.countRequest(messages, tools),
+      afterToolResults: messages[messages.length - 1]?.role === 'tool',
+      failedTurns: countFailedTurns(messages),
+      previous: this.previous,
+      clients: this.clients,
+    });
+    if (!(key in this.clients)) {
+      throw new Error(`Routing policy chose unknown client '${key}'`);
+    }
+    this.previous = key;
+    return key;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): Promise<AssistantMessage> {
+    const client = this.clients[this.route(messages, tools)];
+    return withModel(await client.generate(messages, tools, options), client);
+  }
+
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): AsyncIterable<LLMStreamEvent> {
+    const client = this.clients[this.route(messages, tools)];
+    if (!client.generateStream) {
+      yield { type: 'done', message: withModel(await client.generate(messages, tools, options), client) };
+      return;
+    }
+    for await (const event of client.generateStream(messages, tools, options)) {
+      yield event.type === 'done' ? { type: 'done', message: withModel(event.message, client) } : event;
+    }
+  }
+}
+
+/** Turns at the end of the conversation, newest first, whose tool results include a failure */
+function countFailedTurns(messages: ChatMessage[]): number {
+  let failed = 0;
+  let turnFailed = false;
+  for (const message of [...messages].reverse()) {
+    if (message.role === 'tool') {
+      turnFailed ||= !message.argsWasValid || contentToText(message.content).startsWith('Error');
+    } else if (message.role === 'assistant') {
+      if (!turnFailed) break;
+      failed++;
+      turnFailed = false;
+    } else if (message.role !== 'user') {
+      break;
+    }
+  }
+  return failed;
+}
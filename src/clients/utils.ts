@@ -2,7 +2,15 @@
  * Utility functions for converting between Stirrup and LLM provider formats
  */
 
-import type { ChatMessage, Content, Tool } from '../core/models.js';
+import {
+  contentToText,
+  moveToolMediaToUserMessages,
+  type ChatMessage,
+  type Content,
+  type ContentBlock,
+  type Tool,
+  type ToolCall,
+} from '../core/models.js';
 
 // ============================================================================
 // Zod Schema Helpers (minimal, avoids depending on Zod runtime types)
@@ -199,17 +207,64 @@ export function contentToAnthropic(content: Content): unknown {
   return anthropicContent;
 }
 
+/**
+ * Convert Stirrup content to Gemini parts
+ * Images, video and audio are sent natively as inline data.
+ * @param content Stirrup content (string or array of content blocks)
+ * @returns Gemini-compatible parts
+ */
+export function contentToGemini(content: Content): unknown[] {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : [];
+  }
+
+  const parts: unknown[] = [];
+
+  for (const block of content) {
+    if (typeof block === 'string') {
+      parts.push({ text: block });
+    } else {
+      // Extract mime type and base64 data from data URL
+      const match = block.data.match(/^data:([^;]+);base64,(.+)$/);
+      if (match) {
+        const [, mimeType, data] = match;
+        parts.push({ inlineData: { mimeType, data } });
+      } else {
+        parts.push({ text: `[${block.type.toUpperCase()} CONTENT]` });
+      }
+    }
+  }
+
+  return parts;
+}
+
 // ============================================================================
 // Message Conversion
 // ============================================================================
 
+/**
+ * Parse tool call arguments for providers that take them as an object
+ * Arguments that are not valid JSON (a malformed call from the model) are sent as `{}`, so a bad call in
+ * history does not fail every later request.
+ * @param raw Arguments string from the tool call
+ * @returns Parsed arguments, or `{}` when they are empty or not valid JSON
+ */
+export function parseToolCallArguments(raw: string): unknown {
+  try {
+    return raw.trim() === '' ? {} : (JSON.parse(raw) as unknown);
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Convert Stirrup messages to OpenAI messages format
+ * Chat Completions tool messages are text-only, so media in tool results is moved to a follow-up user message.
  * @param messages Array of Stirrup chat messages
  * @returns OpenAI-compatible messages
  */
 export function toOpenAIMessages(messages: ChatMessage[]): unknown[] {
-  return messages.map((message) => {
+  return moveToolMediaToUserMessages(messages).map((message) => {
     switch (message.role) {
       case 'system':
         return {
@@ -246,7 +301,7 @@ export function toOpenAIMessages(messages: ChatMessage[]): unknown[] {
       case 'tool':
         return {
           role: 'tool',
-          content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+          content: contentToText(message.content),
           tool_call_id: message.toolCallId,
         };
 
@@ -289,6 +344,15 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
           content: [],
         };
 
+        // Thinking must precede text and tool use; unsigned reasoning (e.g. from another provider) is dropped
+        for (const block of message.reasoning ?? []) {
+          if (block.type === 'redacted_reasoning') {
+            (result.content as unknown[]).push({ type: 'redacted_thinking', data: block.data });
+          } else if (block.signature) {
+            (result.content as unknown[]).push({ type: 'thinking', thinking: block.text, signature: block.signature });
+          }
+        }
+
         // Add text content
         if (message.content) {
           const textContent = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
@@ -307,7 +371,7 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
               type: 'tool_use',
               id: tc.toolCallId ?? `call_${Math.random().toString(36).slice(2, 11)}`,
               name: tc.name,
-              input: JSON.parse(tc.arguments) as unknown,
+              input: parseToolCallArguments(tc.arguments),
             });
           }
         }
@@ -323,7 +387,8 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
             {
               type: 'tool_result',
               tool_use_id: message.toolCallId,
-              content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+              // Image blocks are sent natively inside the tool result
+              content: typeof message.content === 'string' ? message.content : contentToAnthropic(message.content),
             },
           ],
         });
@@ -337,6 +402,165 @@ export function toAnthropicMessages(messages: ChatMessage[]): {
   return { system: systemPrompt, messages: anthropicMessages };
 }
 
+/**
+ * Convert Stirrup messages to Gemini contents format
+ * Consecutive tool results are sent as one user turn of function responses, followed by any media they returned,
+ * since Gemini function responses carry JSON only. Turns of the same role are merged.
+ * @param messages Array of Stirrup chat messages
+ * @returns Gemini-compatible contents and system instruction
+ */
+export function toGeminiMessages(messages: ChatMessage[]): {
+  systemInstruction?: { parts: unknown[] };
+  contents: Array<{ role: 'user' | 'model'; parts: unknown[] }>;
+} {
+  let systemInstruction: { parts: unknown[] } | undefined;
+  const contents: Array<{ role: 'user' | 'model'; parts: unknown[] }> = [];
+  let toolMedia: unknown[] = [];
+
+  const push = (role: 'user' | 'model', parts: unknown[]) => {
+    const last = contents[contents.length - 1];
+    if (last?.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts: [...parts] });
+    }
+  };
+
+  const flushToolMedia = () => {
+    if (toolMedia.length > 0) {
+      push('user', toolMedia);
+      toolMedia = [];
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role !== 'tool') {
+      flushToolMedia();
+    }
+
+    switch (message.role) {
+      case 'system':
+        // Gemini uses a separate system instruction
+        systemInstruction = { parts: contentToGemini(message.content) };
+        break;
+
+      case 'user':
+        push('user', contentToGemini(message.content));
+        break;
+
+      case 'assistant': {
+        // Thought summaries are not sent back; signatures on function calls carry the model's reasoning state
+        const parts: unknown[] = [];
+        const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+        if (text) {
+          parts.push({ text });
+        }
+        for (const tc of message.toolCalls ?? []) {
+          parts.push({
+            functionCall: {
+              ...(tc.toolCallId ? { id: tc.toolCallId } : {}),
+              name: tc.name,
+              args: parseToolCallArguments(tc.arguments),
+            },
+            ...(tc.signature ? { thoughtSignature: tc.signature } : {}),
+          });
+        }
+        push('model', parts);
+        break;
+      }
+
+      case 'tool': {
+        const blocks = typeof message.content === 'string' ? [message.content] : message.content;
+        const text = blocks.filter((block) => typeof block === 'string').join('\n');
+        const media = blocks.filter((block) => typeof block !== 'string');
+        push('user', [
+          {
+            functionResponse: {
+              ...(message.toolCallId ? { id: message.toolCallId } : {}),
+              name: message.name,
+              response: message.argsWasValid ? { output: text } : { error: text },
+            },
+          },
+        ]);
+        toolMedia.push(...contentToGemini(media));
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown message role: ${JSON.stringify(message satisfies never)}`);
+    }
+  }
+  flushToolMedia();
+
+  return { systemInstruction, contents };
+}
+
+/**
+ * Convert Stirrup messages to Ollama chat messages
+ * Ollama takes images as base64 strings beside the text; video and audio are replaced by placeholders, and
+ * media in tool results is moved to a follow-up user message.
+ * @param messages Array of Stirrup chat messages
+ * @returns Ollama-compatible messages
+ */
+export function toOllamaMessages(messages: ChatMessage[]): unknown[] {
+  return moveToolMediaToUserMessages(messages).map((message) => {
+    switch (message.role) {
+      case 'system':
+      case 'user':
+        return { role: message.role, ...contentToOllama(message.content) };
+
+      case 'assistant': {
+        const result: Record<string, unknown> = {
+          role: 'assistant',
+          content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+        };
+
+        if (message.toolCalls && message.toolCalls.length > 0) {
+          result.tool_calls = message.toolCalls.map((tc) => ({
+            function: {
+              name: tc.name,
+              arguments: parseToolCallArguments(tc.arguments),
+            },
+          }));
+        }
+
+        return result;
+      }
+
+      case 'tool':
+        return {
+          role: 'tool',
+          content: contentToText(message.content),
+          tool_name: message.name,
+        };
+
+      default:
+        throw new Error(`Unknown message role: ${JSON.stringify(message satisfies never)}`);
+    }
+  });
+}
+
+function contentToOllama(content: Content): { content: string; images?: string[] } {
+  if (typeof content === 'string') {
+    return { content };
+  }
+
+  const text: string[] = [];
+  const images: string[] = [];
+  for (const block of content) {
+    if (typeof block === 'string') {
+      text.push(block);
+    } else if (block.type === 'image') {
+      // Ollama wants the base64 data without the data URL prefix
+      images.push(block.data.replace(/^data:[^;]+;base64,/, ''));
+    } else {
+      text.push(`[${block.type.toUpperCase()} CONTENT]`);
+    }
+  }
+
+  return images.length > 0 ? { content: text.join('\n'), images } : { content: text.join('\n') };
+}
+
 // ============================================================================
 // Tool Conversion
 // ============================================================================
@@ -400,6 +624,56 @@ export function toAnthropicTools(tools: Map<string, Tool>): unknown[] {
   return anthropicTools;
 }
 
+/**
+ * Convert Stirrup tools to Gemini function declarations
+ * Gemini accepts an OpenAPI subset of JSON Schema, so string `const` values are sent as one-value enums.
+ * @param tools Map of tool name to Tool object
+ * @returns Gemini-compatible tools array (a single tool holding every declaration)
+ */
+export function toGeminiTools(tools: Map<string, Tool>): unknown[] {
+  const functionDeclarations: unknown[] = [];
+
+  for (const [name, tool] of tools) {
+    const { properties, required } = tool.parameters
+      ? zodObjectToProperties(unwrapZodSchema(tool.parameters))
+      : { properties: {}, required: [] };
+
+    functionDeclarations.push({
+      name: name,
+      description: tool.description,
+      // Gemini rejects object schemas without properties
+      parameters:
+        Object.keys(properties).length > 0
+          ? toGeminiSchema({
+              type: 'object',
+              properties,
+              required: required.length > 0 ? required : undefined,
+            })
+          : undefined,
+    });
+  }
+
+  return functionDeclarations.length > 0 ? [{ functionDeclarations }] : [];
+}
+
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'const') {
+      if (typeof value === 'string') result.enum = [value];
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property as Record<string, unknown>)])
+      );
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
 /**
  * Convert a Zod schema to JSON Schema
  * @param schema Zod schema
@@ -469,3 +743,239 @@ export function zodToJsonSchema(schema: unknown): Record<string, unknown> {
 
   return result;
 }
+
+// ============================================================================
+// Tool Calling in Text
+// ============================================================================
+
+/**
+ * Describe tools and the JSON tool-calling protocol, for models without native function calling
+ * The model calls tools by replying with `{"tool_calls": [{"name": ..., "arguments": {...}}]}`, which
+ * parseTextToolCalls() turns back into ToolCalls.
+ * @param tools Map of tool name to Tool object
+ * @returns Instructions to add to the system prompt
+ */
+export function textToolInstructions(tools: Map<string, Tool>): string {
+  const descriptions = [...tools].map(([name, tool]) => {
+    const { properties, required } = tool.parameters
+      ? zodObjectToProperties(unwrapZodSchema(tool.parameters))
+      : { properties: {}, required: [] };
+    const schema = JSON.stringify({ type: 'object', properties, required });
+    return `- ${name}: ${tool.description}\n  Arguments (JSON Schema): ${schema}`;
+  });
+
+  return [
+    'You can call the following tools:',
+    '',
+    ...descriptions,
+    '',
+    'To call tools, reply with only a JSON object of this form:',
+    '{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments>}}]}',
+    'You may call several tools at once. Their results are returned in the next user message.',
+    'When no tool is needed, reply in plain text.',
+  ].join('\n');
+}
+
+/**
+ * Rewrite messages for a model that calls tools through text
+ * Tool instructions are added to the system prompt, tool calls become their JSON in the assistant's text,
+ * and tool results become user messages (merged with any adjacent user message, for chat templates that
+ * require alternating roles).
+ * @param messages Array of Stirrup chat messages
+ * @param tools Tools offered to the model
+ * @returns Messages without tool calls or tool messages
+ */
+export function toTextToolMessages(messages: ChatMessage[], tools: Map<string, Tool>): ChatMessage[] {
+  const result: ChatMessage[] = [];
+
+  const pushUser = (content: Content) => {
+    const last = result[result.length - 1];
+    if (last?.role !== 'user') {
+      result.push({ role: 'user', content });
+      return;
+    }
+    const blocks: ContentBlock[] = [
+      ...(typeof last.content === 'string' ? [last.content] : last.content),
+      ...(typeof content === 'string' ? [content] : content),
+    ];
+    last.content = blocks.every((block) => typeof block === 'string') ? blocks.join('\n\n') : blocks;
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        result.push(message);
+        break;
+
+      case 'assistant': {
+        if (!message.toolCalls || message.toolCalls.length === 0) {
+          result.push(message);
+          break;
+        }
+        const calls = message.toolCalls.map((tc) => ({
+          name: tc.name,
+          arguments: parseToolCallArguments(tc.arguments),
+        }));
+        const text = contentToText(message.content);
+        result.push({
+          role: 'assistant',
+          content: [text, JSON.stringify({ tool_calls: calls })].filter(Boolean).join('\n'),
+        });
+        break;
+      }
+
+      case 'user':
+        pushUser(message.content);
+        break;
+
+      case 'tool': {
+        const header = `Result of ${message.name} (call ${message.toolCallId}):`;
+        pushUser(typeof message.content === 'string' ? `${header}\n${message.content}` : [header, ...message.content]);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown message role: ${JSON.stringify(message satisfies never)}`);
+    }
+  }
+
+  if (tools.size === 0) {
+    return result;
+  }
+
+  const instructions = textToolInstructions(tools);
+  const system = result[0];
+  if (system?.role === 'system') {
+    result[0] = { ...system, content: `${contentToText(system.content)}\n\n${instructions}` };
+  } else {
+    result.unshift({ role: 'system', content: instructions });
+  }
+  return result;
+}
+
+/**
+ * Find tool calls written as JSON in a model's reply
+ * Accepts `{"tool_calls": [...]}` or a single `{"name": ..., "arguments": {...}}` object, bare or in a
+ * ```json fence, anywhere in the text; the rest of the text is returned as the content.
+ * @param text Model reply
+ * @returns Remaining text and the parsed tool calls, if any
+ */
+export function parseTextToolCalls(text: string): { content: string; toolCalls?: ToolCall[] } {
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    const end = findJsonObjectEnd(text, start);
+    if (end === -1) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text.slice(start, end));
+    } catch {
+      continue;
+    }
+    const calls = toolCallsFromJson(value);
+    if (!calls) continue;
+
+    const before = text.slice(0, start).replace(/```(?:json)?\s*$/, '');
+    const after = text.slice(end).replace(/^\s*```/, '');
+    return {
+      content: `${before}${after}`.trim(),
+      toolCalls: calls.map((call) => ({
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+        toolCallId: `call_${Math.random().toString(36).slice(2, 11)}`,
+      })),
+    };
+  }
+
+  return { content: text };
+}
+
+function toolCallsFromJson(value: unknown): Array<{ name: string; arguments?: unknown }> | undefined {
+  const isCall = (item: unknown): item is { name: string; arguments?: unknown } =>
+    typeof item === 'object' && item !== null && typeof (item as { name?: unknown }).name === 'string';
+
+  if (typeof value !== 'object' || value === null) return undefined;
+  const toolCalls = (value as { tool_calls?: unknown }).tool_calls;
+  if (Array.isArray(toolCalls)) {
+    return toolCalls.length > 0 && toolCalls.every(isCall) ? toolCalls : undefined;
+  }
+  return isCall(value) && 'arguments' in value ? [value] : undefined;
+}
+
+/** Index just past the JSON object starting at `start`, or -1 when its braces do not balance */
+function findJsonObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+// ============================================================================
+// Streaming Responses
+// ============================================================================
+
+/**
+ * Yield the data of each server-sent event in a response body
+ */
+export async function* readServerSentEvents(res: Response): AsyncGenerator<string> {
+  if (!res.body) {
+    throw new Error('Stream response has no body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const bytes of res.body) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      const data = parseEventData(event);
+      if (data) yield data;
+    }
+  }
+
+  const data = parseEventData(buffer + decoder.decode());
+  if (data) yield data;
+}
+
+function parseEventData(event: string): string | undefined {
+  const lines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart());
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * Yield each line of a newline-delimited JSON response body (as streamed by Ollama)
+ */
+export async function* readJsonLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) {
+    throw new Error('Stream response has no body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const bytes of res.body) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+
+  const rest = buffer + decoder.decode();
+  if (rest.trim()) yield rest;
+}
@@ -3,12 +3,47 @@
  * Supports OpenAI, Anthropic, Google, and other providers via unified interface
  */
 
-import type { LanguageModel, ModelMessage, ToolSet } from 'ai';
-import { generateText } from 'ai';
-import retry from 'async-retry';
-import { MAX_RETRY_ATTEMPTS, RETRY_MAX_TIMEOUT, RETRY_MIN_TIMEOUT } from '../constants.js';
-import type { AssistantMessage, ChatMessage, LLMClient, TokenUsage, Tool, ToolCall } from '../core/models.js';
+import type { LanguageModel, ModelMessage, ToolResultPart, ToolSet } from 'ai';
+import { generateText, streamText } from 'ai';
+import { MAX_RETRY_ATTEMPTS } from '../constants.js';
+import type {
+  AssistantMessage,
+  ChatMessage,
+  Content,
+  GenerateOptions,
+  LLMClient,
+  LLMStreamEvent,
+  TokenUsage,
+  Tool,
+  ToolCall,
+} from '../core/models.js';
 import { ContextOverflowError } from '../core/models.js';
+import { retryRequest } from '../utils/retry.js';
+import { parseToolCallArguments } from './utils.js';
+
+/**
+ * Convert tool result content to an AI SDK tool output
+ * Images are sent as image data and audio/video as file data; the provider decides what it accepts.
+ */
+function toToolResultOutput(content: Content): ToolResultPart['output'] {
+  if (typeof content === 'string') {
+    return { type: 'text', value: content };
+  }
+
+  return {
+    type: 'content',
+    value: content.map((block) => {
+      if (typeof block === 'string') {
+        return { type: 'text' as const, text: block };
+      }
+      const [, mediaType = 'application/octet-stream', data = ''] =
+        /^data:([^;]+);base64,(.*)$/s.exec(block.data) ?? [];
+      return block.type === 'image'
+        ? { type: 'image-data' as const, data, mediaType }
+        : { type: 'file-data' as const, data, mediaType };
+    }),
+  };
+}
 
 export interface VercelAIClientConfig {
   /** Vercel AI SDK model instance */
@@ -66,13 +101,18 @@ export class VercelAIClient implements LLMClient {
     return this.config.maxTokens;
   }
 
-  async generate(messages: ChatMessage[], tools: Map<string, Tool>): Promise<AssistantMessage> {
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): Promise<AssistantMessage> {
+    const { signal } = options;
     const coreMessages = this.toCoreMessages(messages);
 
     const coreTools = tools.size > 0 ? this.toCoreTools(tools) : undefined;
 
     try {
-      const response = await retry(
+      const response = await retryRequest(
         async () => {
           return await generateText({
             model: this.model,
@@ -80,20 +120,117 @@ export class VercelAIClient implements LLMClient {
             tools: coreTools,
             temperature: this.config.temperature,
             maxOutputTokens: this.config.maxTokensToGenerate,
+            abortSignal: signal,
           });
         },
-        {
-          retries: this.config.maxRetries,
-          minTimeout: RETRY_MIN_TIMEOUT,
-          maxTimeout: RETRY_MAX_TIMEOUT,
-          onRetry: (error: Error, attempt: number) => {
-            console.warn(`Retry attempt ${attempt} after error:`, error.message);
-          },
-        }
+        { retries: this.config.maxRetries, signal }
       );
 
       return this.parseResponse(response);
     } catch (error) {
+      signal?.throwIfAborted();
+      // Check for context overflow errors
+      if (error instanceof Error && error.message.includes('context')) {
+        throw new ContextOverflowError('Context window exceeded');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a response from the model
+   * Retries are delegated to the AI SDK, which only retries before the stream starts
+   */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { signal } = options;
+    const coreMessages = this.toCoreMessages(messages);
+
+    const coreTools = tools.size > 0 ? this.toCoreTools(tools) : undefined;
+
+    try {
+      const result = streamText({
+        model: this.model,
+        messages: coreMessages,
+        tools: coreTools,
+        temperature: this.config.temperature,
+        maxOutputTokens: this.config.maxTokensToGenerate,
+        maxRetries: this.config.maxRetries,
+        abortSignal: signal,
+      });
+
+      let content = '';
+      const toolCalls: ToolCall[] = [];
+      const toolCallIndexById = new Map<string, number>();
+      let tokenUsage: TokenUsage | undefined;
+
+      for await (const part of result.fullStream) {
+        switch (part.type) {
+          case 'text-delta':
+            content += part.text;
+            yield { type: 'text:delta', delta: part.text };
+            break;
+
+          case 'reasoning-delta':
+            yield { type: 'reasoning:delta', delta: part.text };
+            break;
+
+          case 'tool-input-start':
+            toolCallIndexById.set(part.id, toolCallIndexById.size);
+            yield {
+              type: 'tool_call:delta',
+              index: toolCallIndexById.get(part.id) ?? 0,
+              toolCallId: part.id,
+              name: part.toolName,
+              argumentsDelta: '',
+            };
+            break;
+
+          case 'tool-input-delta':
+            yield {
+              type: 'tool_call:delta',
+              index: toolCallIndexById.get(part.id) ?? 0,
+              argumentsDelta: part.delta,
+            };
+            break;
+
+          case 'tool-call':
+            toolCalls.push({
+              name: part.toolName,
+              arguments: JSON.stringify(part.input),
+              toolCallId: part.toolCallId,
+            });
+            break;
+
+          case 'finish':
+            tokenUsage = {
+              input: part.totalUsage.inputTokens ?? 0,
+              output: part.totalUsage.outputTokens ?? 0,
+              reasoning: part.totalUsage.outputTokenDetails?.reasoningTokens ?? 0,
+              cacheRead: part.totalUsage.inputTokenDetails?.cacheReadTokens ?? 0,
+              cacheWrite: part.totalUsage.inputTokenDetails?.cacheWriteTokens ?? 0,
+            };
+            break;
+
+          case 'error':
+            throw part.error instanceof Error ? part.error : new Error(String(part.error));
+        }
+      }
+
+      yield {
+        type: 'done',
+        message: {
+          role: 'assistant',
+          content,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          tokenUsage,
+        },
+      };
+    } catch (error) {
+      signal?.throwIfAborted();
       // Check for context overflow errors
       if (error instanceof Error && error.message.includes('context')) {
         throw new ContextOverflowError('Context window exceeded');
@@ -138,7 +275,7 @@ export class VercelAIClient implements LLMClient {
                   type: 'tool-call' as const,
                   toolCallId: tc.toolCallId ?? `call_${Math.random().toString(36).slice(2, 11)}`,
                   toolName: tc.name,
-                  input: JSON.parse(tc.arguments) as unknown,
+                  input: parseToolCallArguments(tc.arguments),
                 })),
               ],
             });
@@ -160,10 +297,7 @@ export class VercelAIClient implements LLMClient {
                 type: 'tool-result',
                 toolCallId: message.toolCallId,
                 toolName: message.name,
-                output: {
-                  type: 'text',
-                  value: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
-                },
+                output: toToolResultOutput(message.content),
               },
             ],
           });
@@ -207,6 +341,8 @@ export class VercelAIClient implements LLMClient {
         input: response.usage.inputTokens ?? 0,
         output: response.usage.outputTokens ?? 0,
         reasoning: response.usage.outputTokenDetails?.reasoningTokens ?? 0,
+        cacheRead: response.usage.inputTokenDetails?.cacheReadTokens ?? 0,
+        cacheWrite: response.usage.inputTokenDetails?.cacheWriteTokens ?? 0,
       };
     }
 
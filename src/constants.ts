@@ -5,9 +5,15 @@
 /** Default maximum number of turns for agent execution */
 export const AGENT_MAX_TURNS = 30;
 
+/** Times a single turn's generation may be retried by an afterGenerate hook before the run stops */
+export const MAX_GENERATION_RETRIES = 5;
+
 /** Context summarization cutoff threshold (percentage of context window) */
 export const CONTEXT_SUMMARIZATION_CUTOFF = 0.7;
 
+/** Times a turn is retried after compacting the context when the provider rejects it as too long */
+export const MAX_CONTEXT_OVERFLOW_RECOVERIES = 2;
+
 /** Tool name for finishing agent execution */
 export const FINISH_TOOL_NAME = 'finish';
 
@@ -23,6 +29,9 @@ export const AUDIO_BITRATE = '192k';
 /** Maximum content length for web fetch results */
 export const MAX_WEB_CONTENT_LENGTH = 40_000;
 
+/** Approximate number of characters per token, for estimating token counts from text */
+export const CHARS_PER_TOKEN = 4;
+
 /** Sub-agent indentation spaces */
 export const SUBAGENT_INDENT_SPACES = 8;
 
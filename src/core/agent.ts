@@ -4,8 +4,14 @@
 
 import { EventEmitter } from 'events';
 import { z } from 'zod';
-import { AGENT_MAX_TURNS, CONTEXT_SUMMARIZATION_CUTOFF, FINISH_TOOL_NAME } from '../constants.js';
-import { BASE_SYSTEM_PROMPT, MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE, MESSAGE_SUMMARIZER_PROMPT } from '../prompts/index.js';
+import {
+  AGENT_MAX_TURNS,
+  CONTEXT_SUMMARIZATION_CUTOFF,
+  FINISH_TOOL_NAME,
+  MAX_CONTEXT_OVERFLOW_RECOVERIES,
+  MAX_GENERATION_RETRIES,
+} from '../constants.js';
+import { BASE_SYSTEM_PROMPT, BUDGET_WRAP_UP_TEMPLATE } from '../prompts/index.js';
 import { type CodeExecToolProvider } from '../tools/code-exec/base.js';
 import { formatSkillsSection, loadSkillsMetadata } from '../skills/index.js';
 import { createStructuredLogger, type StructuredLoggerOptions } from '../utils/logging/structured-logger.js';
@@ -18,21 +24,46 @@ import type {
   TokenUsage,
   Tool,
   ToolCall,
+  ToolExecutionContext,
   ToolMessage,
+  ToolProgress,
   ToolProvider,
   ToolResult,
   UserMessage,
 } from './models.js';
 import {
   AgentValidationError,
+  ContextOverflowError,
+  ModelUsageMetadata,
   TokenUsageMetadata,
   aggregateMetadata,
-  isSummaryMessage,
-  createSummaryMessage,
+  contentToText,
+  moveToolMediaToUserMessages,
+  ToolTimeoutError,
 } from './models.js';
 import { createSessionState, getParentDepth, sessionContext, type SessionState } from './session.js';
-import { SubAgentMetadata, SubAgentParamsSchema, type SubAgentParams } from './sub-agent.js';
+import { SubAgentMetadata, SubAgentParamsSchema, totalTokenUsage, type SubAgentParams } from './sub-agent.js';
+import { estimateCost, findModelPricing, getPriceTable, type ModelPricing } from './pricing.js';
 import { CacheManager } from './cache.js';
+import {
+  BudgetTracker,
+  describeExhaustion,
+  validateBudget,
+  type BudgetExhaustion,
+  type BudgetUsage,
+  type RunBudget,
+} from './budget.js';
+import { ApprovalGate, ApprovalMetadata, type ApprovalConfig } from './approval.js';
+import { HookPipeline, type AgentHooks, type HookContext, type HookName } from './hooks.js';
+import { AsyncQueue, intervalUnionLength, mapWithConcurrency } from '../utils/concurrency.js';
+import { WorkerPool, type WorkerPoolOptions } from '../utils/worker-pool.js';
+import { ArgumentRepairMetadata, formatArgumentError, repairToolArguments } from './tool-arguments.js';
+import { createToolLogger, type ToolLogLevel } from './tool-context.js';
+import { runWithTimeout, ToolTimeoutMetadata } from './tool-timeout.js';
+import { limitToolResult } from './tool-output.js';
+import { createTokenEstimator, type TokenEstimator } from './token-estimator.js';
+import { SummaryStrategy, type ContextStrategy, type SummarizationReason } from './context-strategy.js';
+import { Conversation, type ConversationHistory } from './conversation.js';
 
 /**
  * Typed events emitted by the Agent
@@ -49,7 +80,7 @@ export interface AgentEvents<FP = unknown> {
   'run:error': (data: { error: Error; duration: number }) => void;
 
   'turn:start': (data: { turn: number; maxTurns: number }) => void;
-  'turn:complete': (data: { turn: number; tokenUsage?: TokenUsage }) => void;
+  'turn:complete': (data: { turn: number; tokenUsage?: TokenUsage; model: string }) => void;
 
   'message:assistant': (data: { content: string; toolCalls?: ToolCall[] }) => void;
   'message:tool': (data: { name: string; content: string; success: boolean }) => void;
@@ -57,16 +88,22 @@ export interface AgentEvents<FP = unknown> {
   'tool:start': (data: { name: string; arguments: unknown }) => void;
   'tool:complete': (data: { name: string; result: string; success: boolean }) => void;
   'tool:error': (data: { name: string; error: Error }) => void;
+  'tool:progress': (data: { name: string; toolCallId?: string; progress: ToolProgress }) => void;
 
-  'summarization:start': (data: { percentUsed: number; messageCount: number }) => void;
+  'summarization:start': (data: { percentUsed: number; messageCount: number; reason: SummarizationReason }) => void;
   'summarization:complete': (data: { summaryLength: number; originalCount: number }) => void;
+
+  'budget:exhausted': (data: { exhaustion: BudgetExhaustion; graceTurns: number }) => void;
 }
 
 /**
  * Options for agent run method
  */
 export interface AgentRunOptions {
-  /** AbortSignal for cancellation support */
+  /**
+   * AbortSignal for cancellation support
+   * Forwarded to LLM requests, tool executors, code execution commands and MCP calls, so in-flight work stops promptly.
+   */
   signal?: AbortSignal;
 }
 
@@ -77,9 +114,39 @@ export type AgentStreamEvent<FP = unknown> =
   | { type: 'start'; task: string | ChatMessage[]; depth: number; timestamp: number }
   | { type: 'turn:start'; turn: number; maxTurns: number; timestamp: number }
   | { type: 'message'; message: ChatMessage; turn: number; timestamp: number }
+  | { type: 'text:delta'; delta: string; turn: number; timestamp: number }
+  | { type: 'reasoning:delta'; delta: string; turn: number; timestamp: number }
+  | {
+      type: 'tool_call:delta';
+      index: number;
+      toolCallId?: string;
+      name?: string;
+      argumentsDelta: string;
+      turn: number;
+      timestamp: number;
+    }
+  | { type: 'tool:start'; toolName: string; toolCallId?: string; arguments: unknown; turn: number; timestamp: number }
+  | { type: 'tool:complete'; toolName: string; toolCallId?: string; result: string; turn: number; timestamp: number }
+  | { type: 'tool:error'; toolName: string; toolCallId?: string; error: Error; turn: number; timestamp: number }
+  | {
+      type: 'tool:progress';
+      toolName: string;
+      toolCallId?: string;
+      progress: ToolProgress;
+      turn: number;
+      timestamp: number;
+    }
   | { type: 'tool:result'; toolName: string; result: string; success: boolean; timestamp: number }
-  | { type: 'turn:complete'; turn: number; tokenUsage?: TokenUsage; timestamp: number }
-  | { type: 'summarization'; summary: string; timestamp: number }
+  | { type: 'turn:complete'; turn: number; tokenUsage?: TokenUsage; model: string; timestamp: number }
+  | {
+      type: 'summarization:start';
+      percentUsed: number;
+      messageCount: number;
+      reason: SummarizationReason;
+      timestamp: number;
+    }
+  | { type: 'summarization'; summary: string; summaryLength: number; originalCount: number; timestamp: number }
+  | { type: 'budget:exhausted'; exhaustion: BudgetExhaustion; graceTurns: number; timestamp: number }
   | { type: 'complete'; result: AgentRunResult<FP>; timestamp: number }
   | { type: 'error'; error: Error; timestamp: number };
 
@@ -131,16 +198,84 @@ export interface AgentConfig<FP extends z.ZodType, FM = unknown> {
   /** Context summarization threshold (0-1) */
   contextSummarizationCutoff?: number;
 
+  /**
+   * How the context is shrunk when it reaches the cutoff or overflows (default: SummaryStrategy, an LLM
+   * summary of everything after the task). Sub-agents created via toTool() use the same strategy.
+   */
+  contextStrategy?: ContextStrategy;
+
   /** When true, inject a continuation prompt if assistant responds without tool calls */
   blockSuccessiveAssistantMessages?: boolean;
 
   /** When true, sub-agents reuse the parent's code execution environment instead of creating their own */
   shareParentExecEnv?: boolean;
 
-  /** Whether to run sync executors in thread pool */
-  runSyncInThread?: boolean;
+  /**
+   * Maximum number of tool calls from a single turn to execute concurrently (default: 1, sequential).
+   * Tools marked `concurrency: 'exclusive'` (e.g. code_exec, finish) always run on their own.
+   */
+  maxParallelToolCalls?: number;
+
+  /**
+   * Middleware hooks around generation and tool execution.
+   * An array runs as a pipeline, in order; sub-agents created via toTool() inherit the same hooks.
+   */
+  hooks?: AgentHooks<z.infer<FP>> | AgentHooks<z.infer<FP>>[];
+
+  /**
+   * Require approval before matching tool calls run (checked after beforeTool hooks).
+   * Decisions are recorded in runMetadata under `approval`.
+   */
+  approval?: ApprovalConfig;
+
+  /**
+   * Token, cost, wall-clock and per-tool call limits for each run.
+   * On exhaustion the model is asked to wrap up, then the run stops after the grace turns.
+   * Not inherited by sub-agents.
+   */
+  budget?: RunBudget;
+
+  /**
+   * Run tools that declare a `worker` executor in a worker-thread pool (default: true)
+   * Pass pool options to size the pool or set a per-call time limit. When false, those tools run their
+   * in-process `executor` instead.
+   */
+  runSyncInThread?: boolean | WorkerPoolOptions;
+
+  /**
+   * Repair common mistakes in tool call arguments before validation (default: false)
+   * Fixes trailing commas, single-quoted JSON and nested objects passed as JSON strings.
+   * Repaired arguments replace the originals in history; repairs are counted in runMetadata under `argument_repair`.
+   */
+  repairToolArguments?: boolean;
+
+  /**
+   * Default time limit for a single tool call (ms); tools can override it with their own `timeoutMs`
+   * A call that exceeds it has its signal aborted and the model receives a timeout error instead of a result.
+   * Timeouts are counted in runMetadata under `tool_timeouts`. No limit by default.
+   */
+  toolTimeoutMs?: number;
+
+  /**
+   * Approximate token limit for a single tool result (default: no limit)
+   * Longer text is cut down to its start and end. The full text is saved under `tool_outputs/` in the
+   * session's exec env, when it has one, and the model is told which file to read.
+   */
+  maxToolResultTokens?: number;
 
-  /** Whether to convert tool responses to text-only */
+  /**
+   * Estimates the size of each request before it is sent, so the context is summarized before it overflows
+   * (default: an offline tokenizer for the model's provider family when `js-tiktoken` is installed, otherwise
+   * about 4 characters per token)
+   */
+  tokenEstimator?: TokenEstimator;
+
+  /**
+   * Whether tool messages are kept text-only (default: true)
+   * Images, audio and video returned by tools are moved to a user message that follows the tool results,
+   * which every provider accepts. Set to false to send media natively in tool results where the client
+   * supports it (Anthropic, Responses API, Vercel AI SDK); other clients still fall back to a user message.
+   */
   textOnlyToolResponses?: boolean;
 }
 
@@ -152,14 +287,66 @@ export interface SpeedStats {
   totalGenerationMs: number;
   /** Total output tokens generated */
   totalOutputTokens: number;
-  /** Total time spent on tool execution (ms) */
+  /** Total time spent on tool execution, summed over all calls (ms) */
   totalToolMs: number;
-  /** Tool execution time breakdown by tool name (ms) */
-  toolBreakdown: Record<string, number>;
+  /** Wall-clock time spent on tool execution; lower than totalToolMs when calls ran in parallel (ms) */
+  totalToolWallMs: number;
+  /** Tool execution time breakdown by tool name */
+  toolBreakdown: Record<string, ToolTiming>;
   /** Number of LLM generation steps */
   generationCount: number;
-  /** Model identifier */
+  /** Model that generated the responses; the last one used when the client used several (see generationsByModel) */
   modelSlug: string;
+  /** Number of generation steps per model */
+  generationsByModel?: Record<string, number>;
+  /** Estimated cost in USD, including sub-agents; undefined when no model used has a known price */
+  costUsd?: number;
+}
+
+/**
+ * Execution time for a single tool within SpeedStats
+ */
+export interface ToolTiming {
+  /** Time summed over all calls (ms) */
+  totalMs: number;
+  /** Wall-clock time during which at least one call was running (ms) */
+  wallMs: number;
+}
+
+/**
+ * Why a run ended before the model finished the task
+ */
+export type StopReason =
+  | { source: 'hook'; hook: HookName; reason?: string }
+  | ({ source: 'budget' } & BudgetExhaustion);
+
+/**
+ * Per-run options threaded into each step
+ */
+interface StepOptions {
+  /** Stream token deltas when the client supports generateStream() */
+  streamTokens?: boolean;
+  /** Budget to charge generations and tool calls against */
+  budget?: BudgetTracker;
+  /** Prices by model, used to record the cost of each generation */
+  pricing?: (modelSlug: string) => ModelPricing | undefined;
+  /** Run cancellation signal, forwarded to the client and to tool executors */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of a single agent step (one generation plus its tool calls)
+ */
+interface StepResult {
+  assistantMessage: AssistantMessage;
+  /** Tool calls as executed, after any beforeTool rewrites (index-aligned with toolMessages) */
+  toolCalls: ToolCall[];
+  toolMessages: ToolMessage[];
+  finishSuccess?: boolean;
+  generationDurationMs: number;
+  toolDurationsMs: Record<string, ToolTiming>;
+  toolWallMs: number;
+  stopReason?: StopReason;
 }
 
 /**
@@ -177,6 +364,9 @@ export interface AgentRunResult<FP> {
 
   /** Speed/performance statistics */
   speedStats?: SpeedStats;
+
+  /** Set when the run was stopped early (e.g. by a hook) */
+  stopReason?: StopReason;
 }
 
 /**
@@ -215,8 +405,21 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
   private tools: Array<BaseTool | ToolProvider>;
   private finishTool?: Tool<FP, FM>;
   private contextSummarizationCutoff: number;
+  private contextStrategy: ContextStrategy;
   private blockSuccessiveAssistantMessages: boolean;
   private shareParentExecEnv: boolean;
+  private maxParallelToolCalls: number;
+  private hooks: HookPipeline<z.infer<FP>>;
+  private approval?: ApprovalConfig;
+  private approvalGate?: ApprovalGate;
+  private budget?: RunBudget;
+  private textOnlyToolResponses: boolean;
+  private runSyncInThread: boolean | WorkerPoolOptions;
+  private repairToolArguments: boolean;
+  private toolTimeoutMs?: number;
+  private maxToolResultTokens?: number;
+  private tokenEstimator?: TokenEstimator;
+  private workerPool?: WorkerPool;
   // Session state
   private sessionState?: SessionState;
   private activeTools: Map<string, BaseTool> = new Map();
@@ -230,6 +433,8 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
   private lastFinishParams?: z.infer<FP>;
   // Logger cleanup function
   private loggerCleanup?: () => void;
+  // Level for the logger passed to tool executors, following the session's logger options
+  private toolLogLevel: ToolLogLevel = 'info';
   // Cache resume flag
   private pendingResume = false;
 
@@ -244,9 +449,18 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       tools = [],
       finishTool,
       contextSummarizationCutoff = CONTEXT_SUMMARIZATION_CUTOFF,
+      contextStrategy = new SummaryStrategy(),
       blockSuccessiveAssistantMessages = false,
       shareParentExecEnv = false,
+      maxParallelToolCalls = 1,
+      hooks,
+      approval,
+      budget,
       runSyncInThread = true,
+      repairToolArguments = false,
+      toolTimeoutMs,
+      maxToolResultTokens,
+      tokenEstimator,
       textOnlyToolResponses = true,
     } = config;
 
@@ -255,6 +469,11 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       throw new AgentValidationError('Agent name must be alphanumeric (with _ or -) and 1-128 characters long');
     }
 
+    const budgetError = budget ? validateBudget(budget, client.modelSlug) : undefined;
+    if (budgetError) {
+      throw new AgentValidationError(budgetError);
+    }
+
     this.client = client;
     this.name = name;
     this.maxTurns = maxTurns;
@@ -262,11 +481,20 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
     this.tools = tools;
     this.finishTool = finishTool;
     this.contextSummarizationCutoff = contextSummarizationCutoff;
+    this.contextStrategy = contextStrategy;
     this.blockSuccessiveAssistantMessages = blockSuccessiveAssistantMessages;
     this.shareParentExecEnv = shareParentExecEnv;
-    // Store for future use
-    void runSyncInThread;
-    void textOnlyToolResponses;
+    this.maxParallelToolCalls = maxParallelToolCalls;
+    this.hooks = new HookPipeline(hooks);
+    this.approval = approval;
+    this.approvalGate = approval ? new ApprovalGate(approval) : undefined;
+    this.budget = budget;
+    this.textOnlyToolResponses = textOnlyToolResponses;
+    this.runSyncInThread = runSyncInThread;
+    this.repairToolArguments = repairToolArguments;
+    this.toolTimeoutMs = toolTimeoutMs;
+    this.maxToolResultTokens = maxToolResultTokens;
+    this.tokenEstimator = tokenEstimator;
   }
 
   /**
@@ -294,6 +522,8 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
     if (!config.noLogger && !this.loggerCleanup) {
       this.loggerCleanup = createStructuredLogger(this, config.loggerOptions);
     }
+    const logLevel = config.loggerOptions?.level ?? 'info';
+    this.toolLogLevel = config.noLogger ? 'silent' : logLevel === 'trace' ? 'debug' : logLevel;
 
     return this;
   }
@@ -311,13 +541,98 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
     // Parse parameters for backward compatibility
     const depth = typeof depthOrOptions === 'number' ? depthOrOptions : 0;
     const options = typeof depthOrOptions === 'object' ? depthOrOptions : {};
-    const signal = options.signal;
 
-    // Track timing
+    return this.runToCompletion(initMessages, depth, options.signal);
+  }
+
+  /**
+   * Drain the turn loop without streaming tokens, returning the run result
+   * Sub-agents call this directly so they can run at depth > 0 with the parent's signal.
+   */
+  private async runToCompletion(
+    initMessages: ChatMessage[] | string,
+    depth: number,
+    signal: AbortSignal | undefined
+  ): Promise<AgentRunResult<z.infer<FP>>> {
+    const events = this.execute(initMessages, depth, signal, false);
+    let next = await events.next();
+    while (!next.done) {
+      next = await events.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Run the agent with streaming events
+   * Yields events as they occur for real-time monitoring, including token-level
+   * deltas when the client implements generateStream()
+   * @param initMessages - Initial messages or string task
+   * @param options - Run options including AbortSignal
+   * @returns AsyncGenerator yielding agent events
+   */
+  async *runStream(
+    initMessages: ChatMessage[] | string,
+    options: AgentRunOptions = {}
+  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>> {
+    yield* this.execute(initMessages, 0, options.signal, true);
+  }
+
+  /**
+   * Start a multi-turn conversation that keeps its message history between messages
+   * Every message is handled in this agent's session and exec env; each `send()` runs until the agent finishes.
+   * @param history - Messages to continue from, e.g. a previous conversation's `toJSON()`
+   * @returns Conversation to send messages to
+   *
+   * @example
+   * ```typescript
+   * const chat = agent.conversation();
+   * await chat.send('What files are in the workspace?');
+   * await chat.send('Summarize the largest one');
+   * ```
+   */
+  conversation(history: unknown[] = []): Conversation<z.infer<FP>> {
+    return new Conversation(
+      (messages, state, options) => this.execute(messages, 0, options.signal, options.streamTokens, state),
+      history
+    );
+  }
+
+  /**
+   * Drive the turn loop, re-emitting each stream event as its EventEmitter counterpart
+   * Shared by run() and runStream() so both observe identical lifecycle behaviour
+   */
+  private async *execute(
+    initMessages: ChatMessage[] | string,
+    depth: number,
+    signal: AbortSignal | undefined,
+    streamTokens: boolean,
+    history?: ConversationHistory
+  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>, AgentRunResult<z.infer<FP>>> {
     const startTime = Date.now();
+    const events = this.turnLoop(initMessages, depth, signal, streamTokens, history);
 
-    // Emit start event
-    this.emit('run:start', { task: initMessages, depth });
+    let next = await events.next();
+    while (!next.done) {
+      this.emitStreamEvent(next.value, startTime);
+      yield next.value;
+      next = await events.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Core turn loop: generation, tool execution, summarization and caching
+   * Yields stream events and returns the final run result; throws after yielding an `error` event
+   * @param history - Conversation to continue; its messages are replaced with the final messages once the run ends
+   */
+  private async *turnLoop(
+    initMessages: ChatMessage[] | string,
+    depth: number,
+    signal: AbortSignal | undefined,
+    streamTokens: boolean,
+    history?: ConversationHistory
+  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>, AgentRunResult<z.infer<FP>>> {
+    yield { type: 'start', task: initMessages, depth, timestamp: Date.now() };
 
     try {
       // Enforce session initialization when ToolProviders exist
@@ -341,8 +656,10 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       const messages: ChatMessage[] =
         typeof initMessages === 'string' ? [{ role: 'user', content: initMessages }] : initMessages;
 
-      const systemPrompt = this.buildSystemPrompt();
-      const allMessages: ChatMessage[] = [{ role: 'system', content: systemPrompt }, ...messages];
+      // A conversation continues from its history, which already starts with the system prompt
+      const allMessages: ChatMessage[] = history?.messages.length
+        ? [...history.messages, ...messages]
+        : [{ role: 'system', content: this.buildSystemPrompt() }, ...messages];
 
       const messageHistory: ChatMessage[][] = [];
       let currentMessages = allMessages;
@@ -357,8 +674,9 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
         runMetadata[toolName] = [];
       }
 
-      // Attempt to resume from cache
-      const cacheManager = new CacheManager(messages);
+      // Attempt to resume from cache (conversation messages are keyed with the history they continue)
+      const cacheManager = new CacheManager(history ? allMessages : messages);
+      let cachedBudget: BudgetUsage | undefined;
       if (this.pendingResume) {
         const cachedState = await cacheManager.loadState();
         if (cachedState) {
@@ -366,6 +684,7 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
           currentGroup = [...currentMessages];
           messageHistory.push(...cachedState.messageHistory);
           startTurn = cachedState.turn;
+          cachedBudget = cachedState.budget;
           // Restore files to exec env
           if (this.sessionState?.execEnv && cachedState.files) {
             for (const [path, base64Content] of Object.entries(cachedState.files)) {
@@ -376,65 +695,157 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
         }
       }
 
+      const priceTable = { ...getPriceTable(), ...this.budget?.prices };
+      const pricing = (modelSlug: string) => findModelPricing(modelSlug, priceTable);
+      const budget = this.budget ? new BudgetTracker(this.budget, cachedBudget) : undefined;
+      // Generation and tools stop at the wall-clock deadline instead of overrunning it
+      const stepSignal = budget?.deadline
+        ? AbortSignal.any(signal ? [signal, budget.deadline] : [budget.deadline])
+        : signal;
+      // Turns left after the budget wrap-up message; undefined until a budget is exhausted
+      let wrapUpTurnsLeft: number | undefined;
+
       // Speed stats accumulator
       const speedStats: SpeedStats = {
         totalGenerationMs: 0,
         totalOutputTokens: 0,
         totalToolMs: 0,
+        totalToolWallMs: 0,
         toolBreakdown: {},
         generationCount: 0,
         modelSlug: this.client.modelSlug,
+        generationsByModel: {},
       };
 
       let finishParams: z.infer<FP> | undefined;
+      let stopReason: StopReason | undefined;
       let lastTurn = startTurn;
       for (let turn = startTurn; turn < this.maxTurns; turn++) {
         lastTurn = turn;
         signal?.throwIfAborted();
 
-        this.emit('turn:start', { turn, maxTurns: this.maxTurns });
+        yield { type: 'turn:start', turn, maxTurns: this.maxTurns, timestamp: Date.now() };
+
+        // Summarize before sending a request that is estimated to reach the cutoff
+        const estimatedUsed = this.estimateContextUsed(currentMessages);
+        if (estimatedUsed >= this.contextSummarizationCutoff && this.canSummarize(currentMessages)) {
+          messageHistory.push(currentGroup);
+          currentMessages = yield* this.summarizeContext(currentMessages, {
+            percentUsed: estimatedUsed,
+            reason: 'estimate',
+            originalCount: messageHistory.flat().length,
+            signal,
+          });
+          currentGroup = [...currentMessages];
+        }
+
+        let stepResult: StepResult | undefined;
+        for (let recoveries = 0; ; recoveries++) {
+          const request = await this.hooks.beforeGenerate(currentMessages, { agentName: this.name, turn });
+          if (!Array.isArray(request)) {
+            stopReason = { source: 'hook', hook: 'beforeGenerate', reason: request.reason };
+            break;
+          }
+
+          try {
+            stepResult = yield* this.step(request, runMetadata, turn, {
+              streamTokens,
+              budget,
+              pricing,
+              signal: stepSignal,
+            });
+            break;
+          } catch (error) {
+            // The wall-clock budget ran out mid-turn: stop with the budget reason, as no time is left to wrap up
+            const exhaustion = budget?.deadline?.aborted && !signal?.aborted ? budget.exhausted() : undefined;
+            if (exhaustion) {
+              if (wrapUpTurnsLeft === undefined) {
+                yield { type: 'budget:exhausted', exhaustion, graceTurns: 0, timestamp: Date.now() };
+              }
+              stopReason = { source: 'budget', ...exhaustion };
+              break;
+            }
+            // The provider rejected the request as too long: summarize and retry the turn instead of failing
+            if (
+              !(error instanceof ContextOverflowError) ||
+              recoveries >= MAX_CONTEXT_OVERFLOW_RECOVERIES ||
+              !this.canSummarize(currentMessages)
+            ) {
+              throw error;
+            }
+            messageHistory.push(currentGroup);
+            const compacted = yield* this.summarizeContext(currentMessages, {
+              percentUsed: this.estimateContextUsed(currentMessages),
+              reason: 'overflow',
+              originalCount: messageHistory.flat().length,
+              signal,
+            });
+            // A strategy that could not shrink the context would only fail the same way again
+            if (compacted.length === currentMessages.length && compacted.every((m, i) => m === currentMessages[i])) {
+              throw error;
+            }
+            currentMessages = compacted;
+            currentGroup = [...currentMessages];
+          }
+        }
+        if (!stepResult) break;
 
-        const { assistantMessage, toolMessages, finishSuccess, generationDurationMs, toolDurationsMs } =
-          await this.step(currentMessages, runMetadata);
+        const { assistantMessage, toolCalls, toolMessages, finishSuccess } = stepResult;
+        const { generationDurationMs, toolDurationsMs, toolWallMs } = stepResult;
 
         // Accumulate speed stats
         speedStats.totalGenerationMs += generationDurationMs;
         speedStats.totalOutputTokens += assistantMessage.tokenUsage?.output ?? 0;
         speedStats.generationCount++;
-        for (const [name, duration] of Object.entries(toolDurationsMs)) {
-          speedStats.totalToolMs += duration;
-          speedStats.toolBreakdown[name] = (speedStats.toolBreakdown[name] ?? 0) + duration;
+        const model = assistantMessage.model ?? this.client.modelSlug;
+        speedStats.modelSlug = model;
+        const generationsByModel = (speedStats.generationsByModel ??= {});
+        generationsByModel[model] = (generationsByModel[model] ?? 0) + 1;
+        speedStats.totalToolWallMs += toolWallMs;
+        for (const [name, timing] of Object.entries(toolDurationsMs)) {
+          speedStats.totalToolMs += timing.totalMs;
+          const existing = speedStats.toolBreakdown[name] ?? { totalMs: 0, wallMs: 0 };
+          speedStats.toolBreakdown[name] = {
+            totalMs: existing.totalMs + timing.totalMs,
+            wallMs: existing.wallMs + timing.wallMs,
+          };
         }
 
-        for (const toolMsg of toolMessages) {
-          this.emit('message:tool', {
-            name: toolMsg.name || 'unknown',
-            content: typeof toolMsg.content === 'string' ? toolMsg.content : JSON.stringify(toolMsg.content),
-            success: !toolMsg.content?.toString().includes('Error'),
-          });
+        // Tool results, plus a user message carrying any media when tool messages are text-only
+        const resultMessages = this.textOnlyToolResponses ? moveToolMediaToUserMessages(toolMessages) : toolMessages;
+        for (const resultMsg of resultMessages) {
+          if (resultMsg.role === 'tool') {
+            const result = contentToText(resultMsg.content);
+            yield {
+              type: 'tool:result',
+              toolName: resultMsg.name || 'unknown',
+              result,
+              success: !result.includes('Error'),
+              timestamp: Date.now(),
+            };
+          }
+          yield { type: 'message', message: resultMsg, turn, timestamp: Date.now() };
         }
 
         currentGroup.push(assistantMessage);
-        currentGroup.push(...toolMessages);
+        currentGroup.push(...resultMessages);
 
-        currentMessages = [...currentMessages, assistantMessage, ...toolMessages];
+        currentMessages = [...currentMessages, assistantMessage, ...resultMessages];
 
         const tokenUsageArray = runMetadata.token_usage as TokenUsage[] | undefined;
         const lastTokenUsage = tokenUsageArray?.[tokenUsageArray.length - 1];
-        this.emit('turn:complete', { turn, tokenUsage: lastTokenUsage });
-
-        if (assistantMessage.toolCalls) {
-          for (const toolCall of assistantMessage.toolCalls) {
-            if (toolCall.name === FINISH_TOOL_NAME && this.finishTool) {
-              try {
-                const params = this.finishTool.parameters
-                  ? this.finishTool.parameters.parse(this.parseToolCallArguments(toolCall.arguments))
-                  : undefined;
-                finishParams = params;
-                break;
-              } catch {
-                // Invalid finish params, continue
-              }
+        yield { type: 'turn:complete', turn, tokenUsage: lastTokenUsage, model, timestamp: Date.now() };
+
+        for (const toolCall of toolCalls) {
+          if (toolCall.name === FINISH_TOOL_NAME && this.finishTool) {
+            try {
+              const params = this.finishTool.parameters
+                ? this.finishTool.parameters.parse(this.parseToolCallArguments(toolCall.arguments))
+                : undefined;
+              finishParams = params;
+              break;
+            } catch {
+              // Invalid finish params, continue
             }
           }
         }
@@ -450,6 +861,11 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
           }
         }
 
+        if (stepResult.stopReason) {
+          stopReason = stepResult.stopReason;
+          break;
+        }
+
         // Auto-finish when model gives a text-only response with no tool calls.
         // This prevents an unnecessary extra generate() call that some providers reject.
         // Skip when blockSuccessiveAssistantMessages is enabled, as it injects a continuation prompt instead.
@@ -477,26 +893,41 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
           currentGroup.push(continueMessage);
         }
 
+        // Enforce the run budget: ask the model to wrap up, then stop once the grace turns are used
+        const exhaustion = budget?.exhausted();
+        if (budget && exhaustion) {
+          const firstExhaustion = wrapUpTurnsLeft === undefined;
+          wrapUpTurnsLeft = wrapUpTurnsLeft === undefined ? budget.graceTurns : wrapUpTurnsLeft - 1;
+          if (firstExhaustion) {
+            yield { type: 'budget:exhausted', exhaustion, graceTurns: budget.graceTurns, timestamp: Date.now() };
+          }
+          if (wrapUpTurnsLeft <= 0) {
+            stopReason = { source: 'budget', ...exhaustion };
+            break;
+          }
+          if (firstExhaustion) {
+            const wrapUpMessage: UserMessage = {
+              role: 'user',
+              content: BUDGET_WRAP_UP_TEMPLATE(describeExhaustion(exhaustion)),
+            };
+            currentMessages = [...currentMessages, wrapUpMessage];
+            currentGroup.push(wrapUpMessage);
+          }
+        }
+
         if (assistantMessage.tokenUsage) {
           const totalTokens = assistantMessage.tokenUsage.input + assistantMessage.tokenUsage.output;
           const percentUsed = totalTokens / this.client.maxTokens;
 
           if (percentUsed >= this.contextSummarizationCutoff) {
-            this.emit('summarization:start', {
-              percentUsed,
-              messageCount: currentMessages.length,
-            });
-
             messageHistory.push(currentGroup);
-
-            const summarized = await this.summarizeMessages(currentMessages);
-            currentMessages = summarized;
-            currentGroup = [...summarized];
-
-            this.emit('summarization:complete', {
-              summaryLength: summarized.length,
+            currentMessages = yield* this.summarizeContext(currentMessages, {
+              percentUsed,
+              reason: 'usage',
               originalCount: messageHistory.flat().length,
+              signal,
             });
+            currentGroup = [...currentMessages];
           }
         }
       }
@@ -505,6 +936,10 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
         messageHistory.push(currentGroup);
       }
 
+      if (history) {
+        history.messages = currentMessages;
+      }
+
       // Cache state if task did not complete (for potential resume)
       if (finishParams === undefined) {
         try {
@@ -515,6 +950,7 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
             turn: lastTurn,
             timestamp: Date.now(),
             files: {},
+            budget: budget?.snapshot(),
           });
         } catch {
           /* ignore cache save errors */
@@ -525,285 +961,409 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       }
 
       const aggregated = aggregateMetadata(runMetadata);
+      speedStats.costUsd = totalTokenUsage(aggregated).cost;
 
-      const result: AgentRunResult<z.infer<FP>> = {
-        finishParams,
-        messageHistory,
-        runMetadata: aggregated,
-        speedStats,
-      };
+      const result = await this.hooks.onFinish(
+        { finishParams, messageHistory, runMetadata: aggregated, speedStats, stopReason },
+        { agentName: this.name, turn: lastTurn }
+      );
+      finishParams = result.finishParams;
 
       this.lastFinishParams = finishParams;
 
-      const duration = Date.now() - startTime;
-      this.emit('run:complete', { result, duration, outputDir: this.sessionState?.outputDir, speedStats });
+      yield { type: 'complete', result, timestamp: Date.now() };
 
       return result;
     } catch (error) {
-      const duration = Date.now() - startTime;
-      this.emit('run:error', {
+      yield {
+        type: 'error',
         error: error instanceof Error ? error : new Error(String(error)),
-        duration,
-      });
+        timestamp: Date.now(),
+      };
       throw error;
     }
   }
 
   /**
-   * Run the agent with streaming events
-   * Yields events as they occur for real-time monitoring
-   * @param initMessages - Initial messages or string task
-   * @param options - Run options including AbortSignal
-   * @returns AsyncGenerator yielding agent events
+   * Emit the EventEmitter event corresponding to a stream event
+   * Token deltas have no EventEmitter counterpart and are only visible via runStream()
    */
-  async *runStream(
-    initMessages: ChatMessage[] | string,
-    options: AgentRunOptions = {}
-  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>> {
-    const signal = options.signal;
-    const depth = 0;
-
-    yield {
-      type: 'start',
-      task: initMessages,
-      depth,
-      timestamp: Date.now(),
-    };
-
-    try {
-      if (!this.isInitialized) {
-        await this.initialize(depth);
+  private emitStreamEvent(event: AgentStreamEvent<z.infer<FP>>, startTime: number): void {
+    switch (event.type) {
+      case 'start':
+        this.emit('run:start', { task: event.task, depth: event.depth });
+        break;
+      case 'turn:start':
+        this.emit('turn:start', { turn: event.turn, maxTurns: event.maxTurns });
+        break;
+      case 'message': {
+        // Tool messages are announced through their `tool:result` event
+        const message = event.message;
+        if (message.role === 'assistant' && (message.content || message.toolCalls)) {
+          this.emit('message:assistant', {
+            content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+            toolCalls: message.toolCalls,
+          });
+        }
+        break;
       }
+      case 'tool:start':
+        this.emit('tool:start', { name: event.toolName, arguments: event.arguments });
+        break;
+      case 'tool:complete':
+        this.emit('tool:complete', { name: event.toolName, result: event.result, success: true });
+        break;
+      case 'tool:error':
+        this.emit('tool:error', { name: event.toolName, error: event.error });
+        break;
+      case 'tool:progress':
+        this.emit('tool:progress', { name: event.toolName, toolCallId: event.toolCallId, progress: event.progress });
+        break;
+      case 'tool:result':
+        this.emit('message:tool', { name: event.toolName, content: event.result, success: event.success });
+        break;
+      case 'turn:complete':
+        this.emit('turn:complete', { turn: event.turn, tokenUsage: event.tokenUsage, model: event.model });
+        break;
+      case 'summarization:start':
+        this.emit('summarization:start', {
+          percentUsed: event.percentUsed,
+          messageCount: event.messageCount,
+          reason: event.reason,
+        });
+        break;
+      case 'summarization':
+        this.emit('summarization:complete', { summaryLength: event.summaryLength, originalCount: event.originalCount });
+        break;
+      case 'budget:exhausted':
+        this.emit('budget:exhausted', { exhaustion: event.exhaustion, graceTurns: event.graceTurns });
+        break;
+      case 'complete':
+        this.emit('run:complete', {
+          result: event.result,
+          duration: Date.now() - startTime,
+          outputDir: this.sessionState?.outputDir,
+          speedStats: event.result.speedStats,
+        });
+        break;
+      case 'error':
+        this.emit('run:error', { error: event.error, duration: Date.now() - startTime });
+        break;
+      case 'text:delta':
+      case 'reasoning:delta':
+      case 'tool_call:delta':
+        break;
+      default:
+        event satisfies never;
+    }
+  }
 
-      signal?.throwIfAborted();
-
-      const messages: ChatMessage[] =
-        typeof initMessages === 'string' ? [{ role: 'user', content: initMessages }] : initMessages;
-
-      const systemPrompt = this.buildSystemPrompt();
-      const allMessages: ChatMessage[] = [{ role: 'system', content: systemPrompt }, ...messages];
-
-      const messageHistory: ChatMessage[][] = [];
-      let currentMessages = allMessages;
-      let currentGroup: ChatMessage[] = [...currentMessages];
-
-      const runMetadata: Record<string, unknown[]> = {
-        token_usage: [],
-      };
+  /**
+   * Execute a single agent step
+   * Yields the assistant message and tool lifecycle events, plus token deltas when
+   * streamTokens is set and the client supports generateStream()
+   */
+  private async *step(
+    messages: ChatMessage[],
+    runMetadata: Record<string, unknown[]>,
+    turn: number,
+    options: StepOptions = {}
+  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>, StepResult> {
+    const { streamTokens = false, budget, pricing, signal } = options;
+    const hookContext: HookContext = { agentName: this.name, turn };
 
-      for (const toolName of this.activeTools.keys()) {
-        runMetadata[toolName] = [];
+    const genStart = Date.now();
+    let assistantMessage: AssistantMessage | undefined;
+    let stopReason: StopReason | undefined;
+    let retries = 0;
+    while (!assistantMessage) {
+      signal?.throwIfAborted();
+      let generated: AssistantMessage | undefined;
+      if (streamTokens && this.client.generateStream) {
+        for await (const event of this.client.generateStream(messages, this.activeTools, { signal })) {
+          if (event.type === 'done') {
+            generated = event.message;
+          } else {
+            yield { ...event, turn, timestamp: Date.now() };
+          }
+        }
+        if (!generated) {
+          throw new Error('LLM stream ended without a final message');
+        }
+      } else {
+        generated = await this.client.generate(messages, this.activeTools, { signal });
       }
 
-      let finishParams: z.infer<FP> | undefined;
-      for (let turn = 0; turn < this.maxTurns; turn++) {
-        signal?.throwIfAborted();
-
-        yield {
-          type: 'turn:start',
-          turn,
-          maxTurns: this.maxTurns,
-          timestamp: Date.now(),
-        };
-
-        const { assistantMessage, toolMessages, finishSuccess } = await this.step(currentMessages, runMetadata);
-
-        yield {
-          type: 'message',
-          message: assistantMessage,
-          turn,
-          timestamp: Date.now(),
-        };
-
-        for (const toolMsg of toolMessages) {
-          yield {
-            type: 'tool:result',
-            toolName: toolMsg.name || 'unknown',
-            result: typeof toolMsg.content === 'string' ? toolMsg.content : JSON.stringify(toolMsg.content),
-            success: !toolMsg.content?.toString().includes('Error'),
-            timestamp: Date.now(),
-          };
-
-          yield {
-            type: 'message',
-            message: toolMsg,
-            turn,
-            timestamp: Date.now(),
-          };
+      // Discarded generations still consumed tokens
+      const model = generated.model ?? this.client.modelSlug;
+      let cost: number | undefined;
+      if (generated.tokenUsage) {
+        const modelPricing = pricing?.(model);
+        cost = modelPricing ? estimateCost(generated.tokenUsage, modelPricing) : undefined;
+        runMetadata['token_usage']?.push(TokenUsageMetadata.fromTokenUsage(generated.tokenUsage, cost));
+        budget?.recordUsage(generated.tokenUsage, cost);
+      }
+      (runMetadata['models'] ??= []).push(ModelUsageMetadata.fromGeneration(model, turn, generated.tokenUsage, cost));
+
+      const reviewed = await this.hooks.afterGenerate(generated, hookContext);
+      if ('type' in reviewed) {
+        if (reviewed.type === 'retry') {
+          // Each retry is paid for, so retries stop at the cap or once the budget runs out
+          const exhaustion = budget?.exhausted();
+          if (exhaustion) {
+            stopReason = { source: 'budget', ...exhaustion };
+          } else if (retries++ < MAX_GENERATION_RETRIES) {
+            continue;
+          } else {
+            stopReason = {
+              source: 'hook',
+              hook: 'afterGenerate',
+              reason: `Generation retried ${MAX_GENERATION_RETRIES} times`,
+            };
+          }
+        } else {
+          stopReason = { source: 'hook', hook: 'afterGenerate', reason: reviewed.reason };
         }
+        assistantMessage = generated;
+      } else {
+        assistantMessage = reviewed;
+      }
+    }
+    const generationDurationMs = Date.now() - genStart;
 
-        currentGroup.push(assistantMessage);
-        currentGroup.push(...toolMessages);
-
-        currentMessages = [...currentMessages, assistantMessage, ...toolMessages];
+    // Repair before anything reads the calls, so hooks, approval, the tool and history all see the same arguments
+    if (!stopReason) {
+      assistantMessage = this.repairToolCalls(assistantMessage, runMetadata);
+    }
 
-        const tokenUsageArray = runMetadata.token_usage as TokenUsage[] | undefined;
-        const lastTokenUsage = tokenUsageArray?.[tokenUsageArray.length - 1];
-        yield {
-          type: 'turn:complete',
-          turn,
-          tokenUsage: lastTokenUsage,
-          timestamp: Date.now(),
-        };
+    // Yield assistant message BEFORE tool execution so logs appear in correct order
+    yield { type: 'message', message: assistantMessage, turn, timestamp: Date.now() };
+
+    // A stop requested after generation skips every call, each still answered so the history stays valid
+    const toolCalls = assistantMessage.toolCalls ?? [];
+    const executedCalls: ToolCall[] = [...toolCalls];
+    const outcomes: Array<{ message: ToolMessage; success?: boolean }> = [];
+    const intervals: Record<string, Array<[number, number]>> = {};
+
+    const executeToolCall = async (
+      index: number,
+      onEvent: (event: AgentStreamEvent<z.infer<FP>>) => void
+    ): Promise<{ message: ToolMessage; success?: boolean }> => {
+      const original = toolCalls[index]!;
+      if (stopReason) {
+        return this.skippedToolOutcome(original, stopReason);
+      }
 
-        if (assistantMessage.toolCalls) {
-          for (const toolCall of assistantMessage.toolCalls) {
-            if (toolCall.name === FINISH_TOOL_NAME && this.finishTool) {
-              try {
-                const params = this.finishTool.parameters
-                  ? this.finishTool.parameters.parse(this.parseToolCallArguments(toolCall.arguments))
-                  : undefined;
-                finishParams = params;
-                break;
-              } catch {
-                // Invalid finish params, continue
-              }
+      const decision = await this.hooks.beforeTool(original, hookContext);
+      if ('type' in decision) {
+        switch (decision.type) {
+          case 'stop':
+            stopReason ??= { source: 'hook', hook: 'beforeTool', reason: decision.reason };
+            return this.skippedToolOutcome(original, stopReason);
+          case 'deny':
+            return {
+              message: {
+                role: 'tool',
+                content: decision.message,
+                toolCallId: original.toolCallId ?? '',
+                name: original.name,
+                argsWasValid: true,
+              },
+              success: false,
+            };
+          case 'replace':
+            if (decision.result.metadata) {
+              (runMetadata[original.name] ??= []).push(decision.result.metadata);
             }
-          }
+            return {
+              message: {
+                role: 'tool',
+                content: decision.result.content,
+                toolCallId: original.toolCallId ?? '',
+                name: original.name,
+                argsWasValid: true,
+              },
+              success: decision.result.success,
+            };
         }
+      }
 
-        // Only finish if the finish tool returned success (or didn't explicitly return false)
-        if (finishParams !== undefined) {
-          if (finishSuccess === false) {
-            finishParams = undefined;
-          } else {
-            messageHistory.push(currentGroup);
-            break;
-          }
+      let toolCall = decision;
+      if (this.approvalGate) {
+        const review = await this.approvalGate.review(toolCall, hookContext);
+        if (review.record) {
+          (runMetadata['approval'] ??= []).push(new ApprovalMetadata([review.record]));
         }
-
-        // Auto-finish when model gives a text-only response with no tool calls.
-        // This prevents an unnecessary extra generate() call that some providers reject.
-        // Skip when blockSuccessiveAssistantMessages is enabled, as it injects a continuation prompt instead.
-        if (
-          this.finishTool &&
-          !this.blockSuccessiveAssistantMessages &&
-          (!assistantMessage.toolCalls || assistantMessage.toolCalls.length === 0) &&
-          assistantMessage.content
-        ) {
-          finishParams = undefined;
-          messageHistory.push(currentGroup);
-          break;
-        }
-
-        // Prevent successive assistant messages by injecting a continuation prompt
-        if (
-          this.blockSuccessiveAssistantMessages &&
-          (!assistantMessage.toolCalls || assistantMessage.toolCalls.length === 0)
-        ) {
-          const continueMessage: UserMessage = {
-            role: 'user',
-            content: 'Please continue the task. If the task is complete, call the finish tool.',
+        if (review.denied !== undefined) {
+          return {
+            message: {
+              role: 'tool',
+              content: review.denied,
+              toolCallId: original.toolCallId ?? '',
+              name: toolCall.name,
+              argsWasValid: true,
+            },
+            success: false,
           };
-          currentMessages = [...currentMessages, continueMessage];
-          currentGroup.push(continueMessage);
         }
+        toolCall = review.toolCall;
+      }
 
-        if (assistantMessage.tokenUsage) {
-          const totalTokens = assistantMessage.tokenUsage.input + assistantMessage.tokenUsage.output;
-          const percentUsed = totalTokens / this.client.maxTokens;
-
-          if (percentUsed >= this.contextSummarizationCutoff) {
-            messageHistory.push(currentGroup);
+      if (budget && !budget.tryRecordToolCall(toolCall.name)) {
+        return {
+          message: {
+            role: 'tool',
+            content: `<budget_exceeded tool="${toolCall.name}">No calls to ${toolCall.name} remain in this run's budget.</budget_exceeded>`,
+            toolCallId: original.toolCallId ?? '',
+            name: toolCall.name,
+            argsWasValid: true,
+          },
+          success: false,
+        };
+      }
 
-            const summarized = await this.summarizeMessages(currentMessages);
-            currentMessages = summarized;
-            currentGroup = [...summarized];
+      executedCalls[index] = toolCall;
+      const toolStart = Date.now();
+      const outcome = await this.runTool(toolCall, runMetadata, turn, onEvent, signal);
+      (intervals[toolCall.name] ??= []).push([toolStart, Date.now()]);
 
-            yield {
-              type: 'summarization',
-              summary: JSON.stringify(summarized),
-              timestamp: Date.now(),
-            };
-          }
-        }
+      const reviewed = await this.hooks.afterTool(toolCall, outcome.message, hookContext);
+      if ('type' in reviewed) {
+        stopReason ??= { source: 'hook', hook: 'afterTool', reason: reviewed.reason };
+        return outcome;
       }
+      return { ...outcome, message: reviewed };
+    };
 
-      if (finishParams === undefined && currentGroup.length > 0) {
-        messageHistory.push(currentGroup);
+    // Tools may run concurrently, so their lifecycle events are funnelled through a queue
+    const toolEvents = new AsyncQueue<AgentStreamEvent<z.infer<FP>>>();
+    const execution = (async () => {
+      for (const batch of this.planToolBatches(toolCalls)) {
+        await mapWithConcurrency(batch, this.maxParallelToolCalls, async (index) => {
+          outcomes[index] = await executeToolCall(index, (event) => toolEvents.push(event));
+        });
       }
+    })().then(
+      () => toolEvents.close(),
+      (error: unknown) => toolEvents.close(error)
+    );
+    yield* toolEvents;
+    await execution;
 
-      const aggregated = aggregateMetadata(runMetadata);
-
-      const result: AgentRunResult<z.infer<FP>> = {
-        finishParams,
-        messageHistory,
-        runMetadata: aggregated,
-      };
+    // Tool messages keep the original call order, regardless of completion order
+    const toolMessages = outcomes.map((outcome) => outcome.message);
+    let finishSuccess: boolean | undefined;
+    executedCalls.forEach((toolCall, index) => {
+      // Track finish tool success status
+      const toolSuccess = outcomes[index]?.success;
+      if (toolCall.name === FINISH_TOOL_NAME && toolSuccess !== undefined) {
+        finishSuccess = toolSuccess;
+      }
+    });
 
-      yield {
-        type: 'complete',
-        result,
-        timestamp: Date.now(),
+    const toolDurationsMs: Record<string, ToolTiming> = {};
+    for (const [name, spans] of Object.entries(intervals)) {
+      toolDurationsMs[name] = {
+        totalMs: spans.reduce((sum, [start, end]) => sum + (end - start), 0),
+        wallMs: intervalUnionLength(spans),
       };
-    } catch (error) {
-      yield {
-        type: 'error',
-        error: error instanceof Error ? error : new Error(String(error)),
-        timestamp: Date.now(),
-      };
-      throw error;
     }
+    const toolWallMs = intervalUnionLength(Object.values(intervals).flat());
+
+    return {
+      assistantMessage,
+      toolCalls: executedCalls,
+      toolMessages,
+      finishSuccess,
+      generationDurationMs,
+      toolDurationsMs,
+      toolWallMs,
+      stopReason,
+    };
   }
 
   /**
-   * Execute a single agent step
+   * Tool result for a call that was not executed because the run is stopping
    */
-  private async step(
-    messages: ChatMessage[],
-    runMetadata: Record<string, unknown[]>
-  ): Promise<{
-    assistantMessage: AssistantMessage;
-    toolMessages: ToolMessage[];
-    finishSuccess?: boolean;
-    generationDurationMs: number;
-    toolDurationsMs: Record<string, number>;
-  }> {
-    const genStart = Date.now();
-    const assistantMessage = await this.client.generate(messages, this.activeTools);
-    const generationDurationMs = Date.now() - genStart;
+  private skippedToolOutcome(toolCall: ToolCall, stopReason: StopReason): { message: ToolMessage; success: false } {
+    const reason = stopReason.source === 'hook' ? stopReason.reason : describeExhaustion(stopReason);
+    return {
+      message: {
+        role: 'tool',
+        content: `Tool call skipped: the run was stopped${reason ? ` (${reason})` : ''}`,
+        toolCallId: toolCall.toolCallId ?? '',
+        name: toolCall.name,
+        argsWasValid: true,
+      },
+      success: false,
+    };
+  }
 
-    if (assistantMessage.tokenUsage) {
-      runMetadata['token_usage']?.push(TokenUsageMetadata.fromTokenUsage(assistantMessage.tokenUsage));
+  /**
+   * Repair the arguments of each tool call when repairToolArguments is set
+   * Calls that cannot be repaired are left as they are and rejected when the tool runs.
+   * @returns The message with repaired tool calls (the same message when nothing changed)
+   */
+  private repairToolCalls(message: AssistantMessage, runMetadata: Record<string, unknown[]>): AssistantMessage {
+    if (!this.repairToolArguments || !message.toolCalls) {
+      return message;
     }
 
-    // Emit assistant message BEFORE tool execution so logs appear in correct order
-    if (assistantMessage.content || assistantMessage.toolCalls) {
-      this.emit('message:assistant', {
-        content:
-          typeof assistantMessage.content === 'string'
-            ? assistantMessage.content
-            : JSON.stringify(assistantMessage.content),
-        toolCalls: assistantMessage.toolCalls,
-      });
-    }
+    let changed = false;
+    const toolCalls = message.toolCalls.map((toolCall) => {
+      const parameters = this.activeTools.get(toolCall.name)?.parameters;
+      if (!parameters) return toolCall;
+      try {
+        const { value, repairs } = repairToolArguments(toolCall.arguments, parameters);
+        if (repairs.length === 0) return toolCall;
+        (runMetadata['argument_repair'] ??= []).push(ArgumentRepairMetadata.fromRepairs(repairs));
+        changed = true;
+        return { ...toolCall, arguments: JSON.stringify(value) };
+      } catch {
+        return toolCall;
+      }
+    });
 
-    const toolMessages: ToolMessage[] = [];
-    const toolDurationsMs: Record<string, number> = {};
-    let finishSuccess: boolean | undefined;
-    if (assistantMessage.toolCalls) {
-      for (const toolCall of assistantMessage.toolCalls) {
-        const toolStart = Date.now();
-        const { message: toolMessage, success: toolSuccess } = await this.runTool(toolCall, runMetadata);
-        toolDurationsMs[toolCall.name] = (toolDurationsMs[toolCall.name] ?? 0) + (Date.now() - toolStart);
-        toolMessages.push(toolMessage);
-        // Track finish tool success status
-        if (toolCall.name === FINISH_TOOL_NAME && toolSuccess !== undefined) {
-          finishSuccess = toolSuccess;
-        }
+    return changed ? { ...message, toolCalls } : message;
+  }
+
+  /**
+   * Split a turn's tool calls into batches that may run concurrently.
+   * Consecutive parallel-safe calls share a batch; exclusive calls (and finish) get a batch of their own.
+   * @returns Batches of indices into toolCalls, in execution order
+   */
+  private planToolBatches(toolCalls: ToolCall[]): number[][] {
+    const batches: number[][] = [];
+    let current: number[] = [];
+
+    toolCalls.forEach((toolCall, index) => {
+      const exclusive =
+        toolCall.name === FINISH_TOOL_NAME || this.activeTools.get(toolCall.name)?.concurrency === 'exclusive';
+      if (!exclusive) {
+        current.push(index);
+        return;
       }
-    }
+      if (current.length > 0) batches.push(current);
+      batches.push([index]);
+      current = [];
+    });
 
-    return { assistantMessage, toolMessages, finishSuccess, generationDurationMs, toolDurationsMs };
+    if (current.length > 0) batches.push(current);
+    return batches;
   }
 
   /**
    * Execute a single tool call
+   * Lifecycle events (tool:start, tool:progress, tool:complete, tool:error) are reported through onEvent
    */
   private async runTool(
     toolCall: ToolCall,
-    runMetadata: Record<string, unknown[]>
+    runMetadata: Record<string, unknown[]>,
+    turn: number,
+    onEvent: (event: AgentStreamEvent<z.infer<FP>>) => void,
+    signal?: AbortSignal
   ): Promise<{ message: ToolMessage; success?: boolean }> {
+    const { name: toolName, toolCallId } = toolCall;
     const tool = this.activeTools.get(toolCall.name);
 
     if (!tool) {
@@ -830,10 +1390,15 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
         params = undefined;
       }
     } catch (error) {
-      const errorMsg = 'Tool arguments are not valid';
-      this.emit('tool:error', {
-        name: toolCall.name,
+      // Send the parse or validation issues back so the model can correct its call
+      const errorMsg = formatArgumentError(error);
+      onEvent({
+        type: 'tool:error',
+        toolName,
+        toolCallId,
         error: error instanceof Error ? error : new Error(errorMsg),
+        turn,
+        timestamp: Date.now(),
       });
       return {
         message: {
@@ -846,23 +1411,52 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       };
     }
 
-    this.emit('tool:start', { name: toolCall.name, arguments: params });
+    onEvent({ type: 'tool:start', toolName, toolCallId, arguments: params, turn, timestamp: Date.now() });
+
+    const ctx: ToolExecutionContext = {
+      signal,
+      toolCallId: toolCallId ?? '',
+      turn,
+      agentName: this.name,
+      depth: this.sessionState?.depth ?? 0,
+      execEnv: this.sessionState?.execEnv,
+      outputDir: this.sessionState?.outputDir,
+      logger: createToolLogger(toolName, this.toolLogLevel),
+      reportProgress: (progress) => {
+        onEvent({ type: 'tool:progress', toolName, toolCallId, progress, turn, timestamp: Date.now() });
+      },
+    };
 
     let result: ToolResult;
     try {
-      result = await tool.executor(params);
-
-      const contentStr = typeof result.content === 'string' ? result.content : JSON.stringify(result.content);
-      this.emit('tool:complete', {
-        name: toolCall.name,
-        result: contentStr,
-        success: true,
+      result = await runWithTimeout(toolName, tool.timeoutMs ?? this.toolTimeoutMs, signal, async (callSignal) =>
+        tool.worker && this.runSyncInThread
+          ? this.getWorkerPool().run(toolName, tool.worker, params, { signal: callSignal })
+          : tool.executor(params, { ...ctx, signal: callSignal })
+      );
+
+      onEvent({
+        type: 'tool:complete',
+        toolName,
+        toolCallId,
+        result: contentToText(result.content),
+        turn,
+        timestamp: Date.now(),
       });
     } catch (error) {
+      // A cancelled run stops here rather than reporting the abort to the model
+      signal?.throwIfAborted();
+      if (error instanceof ToolTimeoutError) {
+        (runMetadata['tool_timeouts'] ??= []).push(ToolTimeoutMetadata.fromTool(toolName));
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
-      this.emit('tool:error', {
-        name: toolCall.name,
+      onEvent({
+        type: 'tool:error',
+        toolName,
+        toolCallId,
         error: error instanceof Error ? error : new Error(errorMessage),
+        turn,
+        timestamp: Date.now(),
       });
       return {
         message: {
@@ -879,10 +1473,22 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       runMetadata[toolCall.name]?.push(result.metadata);
     }
 
+    const content =
+      this.maxToolResultTokens === undefined
+        ? result.content
+        : (
+            await limitToolResult(result.content, {
+              maxTokens: this.maxToolResultTokens,
+              toolName,
+              toolCallId: toolCallId ?? '',
+              execEnv: this.sessionState?.execEnv,
+            })
+          ).content;
+
     return {
       message: {
         role: 'tool',
-        content: result.content,
+        content,
         toolCallId: toolCall.toolCallId ?? '',
         name: toolCall.name,
         argsWasValid: true,
@@ -892,39 +1498,61 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
   }
 
   /**
-   * Summarize messages when approaching context limit.
-   * Filters out old summary/ack pairs to prevent accumulation.
+   * Worker pool for tools with a `worker` executor, started on first use and disposed with the session
    */
-  private async summarizeMessages(messages: ChatMessage[]): Promise<ChatMessage[]> {
-    const taskContextEnd = messages.findIndex((m) => m.role === 'assistant');
-    const taskContext = taskContextEnd > 0 ? messages.slice(0, taskContextEnd) : messages.slice(0, 1);
-    const toSummarize = taskContextEnd > 0 ? messages.slice(taskContextEnd) : messages.slice(1);
-
-    const summaryMessages: ChatMessage[] = [
-      { role: 'system', content: MESSAGE_SUMMARIZER_PROMPT },
-      ...toSummarize,
-      { role: 'user', content: 'Please provide a concise summary.' },
-    ];
-
-    const summaryResponse = await this.client.generate(summaryMessages, new Map());
-    const summary = summaryResponse.content;
-
-    const summaryText = typeof summary === 'string' ? summary : JSON.stringify(summary);
-    const bridgeMessage = MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE(summaryText);
-
-    // Filter out old summary messages from task context to prevent accumulation
-    const filteredTaskContext = taskContext.filter((m) => !isSummaryMessage(m));
+  private getWorkerPool(): WorkerPool {
+    if (!this.workerPool) {
+      const pool = new WorkerPool(typeof this.runSyncInThread === 'object' ? this.runSyncInThread : {});
+      this.workerPool = pool;
+      this.sessionState?.exitStack.pushCallback(async () => {
+        this.workerPool = undefined;
+        await pool[Symbol.asyncDispose]();
+      });
+    }
+    return this.workerPool;
+  }
 
-    // Create marked summary message so it can be identified in future summarizations
-    const summaryUserMessage = createSummaryMessage(bridgeMessage);
+  /**
+   * Compact the context with the agent's context strategy, yielding summarization events
+   */
+  private async *summarizeContext(
+    messages: ChatMessage[],
+    options: { percentUsed: number; reason: SummarizationReason; originalCount: number; signal?: AbortSignal }
+  ): AsyncGenerator<AgentStreamEvent<z.infer<FP>>, ChatMessage[]> {
+    const { percentUsed, reason, originalCount, signal } = options;
+    yield { type: 'summarization:start', percentUsed, messageCount: messages.length, reason, timestamp: Date.now() };
+
+    const summarized = await this.contextStrategy.compact(messages, {
+      client: this.client,
+      reason,
+      estimateTokens: (candidate) => this.tokenEstimator?.countRequest(candidate, this.activeTools) ?? 0,
+      tokenLimit: this.contextSummarizationCutoff * this.client.maxTokens,
+      signal,
+    });
 
-    // Add an ack assistant message to maintain proper message alternation
-    const ackMessage: AssistantMessage = {
-      role: 'assistant',
-      content: 'Understood, I will continue the task with the summarized context.',
+    yield {
+      type: 'summarization',
+      summary: JSON.stringify(summarized),
+      summaryLength: summarized.length,
+      originalCount,
+      timestamp: Date.now(),
     };
+    return summarized;
+  }
 
-    return [...filteredTaskContext, summaryUserMessage, ackMessage];
+  /** Estimated share of the context window (0-1) a request with these messages would use */
+  private estimateContextUsed(messages: ChatMessage[]): number {
+    const tokens = this.tokenEstimator?.countRequest(messages, this.activeTools) ?? 0;
+    return tokens / this.client.maxTokens;
+  }
+
+  /**
+   * Whether summarizing would shrink the context: there must be messages after the first assistant message
+   * other than a summary's acknowledgement
+   */
+  private canSummarize(messages: ChatMessage[]): boolean {
+    const firstAssistant = messages.findIndex((m) => m.role === 'assistant');
+    return firstAssistant > 0 && messages.length - firstAssistant >= 2;
   }
 
   /**
@@ -1042,6 +1670,7 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
       }
     });
 
+    this.tokenEstimator ??= await createTokenEstimator(this.client.modelSlug);
     this.isInitialized = true;
   }
 
@@ -1205,11 +1834,17 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
    * Allows agents to delegate tasks to other agents
    */
   toTool(description?: string, customSystemPrompt?: string): Tool<typeof SubAgentParamsSchema, SubAgentMetadata> {
+    // Tool providers only resolve their tools when the sub-agent starts, so they count as exclusive
+    const parallel = this.tools.every((tool) => !this.isToolProvider(tool) && tool.concurrency !== 'exclusive');
+    let instanceBusy = false;
+
     return {
       name: this.name,
       description: description ?? `Delegate a task to the ${this.name} sub-agent`,
       parameters: SubAgentParamsSchema,
-      executor: async (params: SubAgentParams): Promise<ToolResult<SubAgentMetadata>> => {
+      concurrency: parallel ? 'parallel' : 'exclusive',
+      executor: async (params: SubAgentParams, ctx: ToolExecutionContext): Promise<ToolResult<SubAgentMetadata>> => {
+        let ownsInstance = false;
         try {
           const parentDepth = getParentDepth();
           const subAgentDepth = parentDepth + 1;
@@ -1217,17 +1852,36 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
           const parentState = sessionContext.get();
           const parentExecEnv: CodeExecToolProvider | undefined = parentState?.execEnv;
 
-          const subAgent = customSystemPrompt
-            ? new Agent<FP, FM>({
-                client: this.client,
-                name: this.name,
-                maxTurns: this.maxTurns,
-                systemPrompt: customSystemPrompt,
-                tools: this.tools,
-                finishTool: this.finishTool,
-                contextSummarizationCutoff: this.contextSummarizationCutoff,
-              })
-            : this;
+          // This instance runs the task unless it has a custom prompt or is already running another call
+          const subAgent =
+            customSystemPrompt || instanceBusy
+              ? new Agent<FP, FM>({
+                  client: this.client,
+                  name: this.name,
+                  maxTurns: this.maxTurns,
+                  systemPrompt: customSystemPrompt ?? this.systemPrompt,
+                  tools: this.tools,
+                  finishTool: this.finishTool,
+                  contextSummarizationCutoff: this.contextSummarizationCutoff,
+                  contextStrategy: this.contextStrategy,
+                  blockSuccessiveAssistantMessages: this.blockSuccessiveAssistantMessages,
+                  shareParentExecEnv: this.shareParentExecEnv,
+                  maxParallelToolCalls: this.maxParallelToolCalls,
+                  runSyncInThread: this.runSyncInThread,
+                  repairToolArguments: this.repairToolArguments,
+                  toolTimeoutMs: this.toolTimeoutMs,
+                  maxToolResultTokens: this.maxToolResultTokens,
+                  tokenEstimator: this.tokenEstimator,
+                  textOnlyToolResponses: this.textOnlyToolResponses,
+                  hooks: this.hooks.toArray(),
+                  approval: this.approval,
+                  budget: this.budget,
+                })
+              : this;
+          if (subAgent === this) {
+            instanceBusy = ownsInstance = true;
+          }
+          subAgent.toolLogLevel = this.toolLogLevel;
 
           await subAgent.initialize(subAgentDepth);
 
@@ -1261,7 +1915,17 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
             }
           }
 
-          const result = await subAgent.run(params.task, subAgentDepth);
+          // Report each sub-agent turn as progress on this tool call
+          const onSubAgentTurn: AgentEvents['turn:start'] = ({ turn, maxTurns }) => {
+            ctx.reportProgress({ subAgentTurn: { agentName: subAgent.name, turn, maxTurns } });
+          };
+          subAgent.on('turn:start', onSubAgentTurn);
+          let result: AgentRunResult<z.infer<FP>>;
+          try {
+            result = await subAgent.runToCompletion(params.task, subAgentDepth, ctx.signal);
+          } finally {
+            subAgent.off('turn:start', onSubAgentTurn);
+          }
 
           if (result.finishParams && typeof result.finishParams === 'object' && 'paths' in result.finishParams) {
             const finishWithPaths = result.finishParams as { paths: string[] };
@@ -1286,11 +1950,14 @@ export class Agent<FP extends z.ZodType = z.ZodTypeAny, FM = unknown> extends Ev
             metadata,
           };
         } catch (error) {
+          ctx.signal?.throwIfAborted();
           const errorMsg = error instanceof Error ? error.message : String(error);
           return {
             content: `<sub_agent_error>${errorMsg}</sub_agent_error>`,
             metadata: new SubAgentMetadata([], {}),
           };
+        } finally {
+          if (ownsInstance) instanceBusy = false;
         }
       },
     };
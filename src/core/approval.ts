@@ -0,0 +1,359 @@
+/**
+ * Human-in-the-loop approval for tool calls
+ *
+ * Rules select which tool calls need approval; an Approver (CLI prompt, callback,
+ * or queue for web UIs) decides whether each one is approved, denied or edited.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { Addable, ToolCall } from './models.js';
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/** Matches a single argument value */
+export type ArgumentMatcher = string | RegExp | ((value: unknown) => boolean);
+
+/**
+ * Selects tool calls that require approval
+ * A call matches when its tool name matches `tool` and every argument matcher (if any) matches.
+ * Calls whose arguments are not a JSON object match any rule with argument matchers.
+ */
+export interface ApprovalRule {
+  /** Tool name, or a pattern tested against the tool name */
+  tool: string | RegExp;
+  /** Argument matchers keyed by parameter name; strings must match exactly, patterns are tested against the value */
+  arguments?: Record<string, ArgumentMatcher>;
+  /** Additional predicate over the parsed arguments */
+  when?: (args: unknown, toolCall: ToolCall) => boolean;
+}
+
+/**
+ * Rule matching every tool exposed by an MCP server (tools are named `<server>__<tool>`)
+ * @param serverName Server name as it appears in the MCP config
+ */
+export function mcpServer(serverName: string): ApprovalRule {
+  const escaped = serverName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return { tool: new RegExp(`^${escaped}__`) };
+}
+
+function matchesValue(matcher: ArgumentMatcher, value: unknown): boolean {
+  if (typeof matcher === 'function') return matcher(value);
+  if (matcher instanceof RegExp) {
+    return value !== undefined && matcher.test(typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return value === matcher;
+}
+
+/**
+ * Find the first rule matching a tool call
+ * @returns The matching rule, or undefined when the call may run without approval
+ */
+export function findApprovalRule(rules: ApprovalRule[], toolCall: ToolCall, args: unknown): ApprovalRule | undefined {
+  return rules.find((rule) => {
+    const nameMatches = typeof rule.tool === 'string' ? rule.tool === toolCall.name : rule.tool.test(toolCall.name);
+    if (!nameMatches) return false;
+
+    if (rule.arguments) {
+      // Arguments that cannot be checked (not valid JSON) fail closed and require approval
+      if (typeof args !== 'object' || args === null) return true;
+      const record = args as Record<string, unknown>;
+      for (const [key, matcher] of Object.entries(rule.arguments)) {
+        if (!matchesValue(matcher, record[key])) return false;
+      }
+    }
+
+    return rule.when ? rule.when(args, toolCall) : true;
+  });
+}
+
+// ============================================================================
+// Decisions and Approvers
+// ============================================================================
+
+/**
+ * Tool call awaiting approval
+ */
+export interface ApprovalRequest {
+  toolCall: ToolCall;
+  /** Parsed arguments (the raw string if they are not valid JSON) */
+  arguments: unknown;
+  /** Rule that required approval */
+  rule: ApprovalRule;
+  agentName: string;
+  turn: number;
+}
+
+/** Outcome of an approval request */
+export type ApprovalDecision =
+  | { decision: 'approve'; reason?: string }
+  | { decision: 'deny'; reason?: string }
+  | { decision: 'edit'; arguments: unknown; reason?: string };
+
+/**
+ * Decides approval requests
+ */
+export interface Approver {
+  requestApproval(request: ApprovalRequest): Promise<ApprovalDecision>;
+}
+
+/** Approver implemented by a function */
+export type ApprovalCallback = (request: ApprovalRequest) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Approver that delegates to a programmatic callback
+ */
+export class CallbackApprover implements Approver {
+  constructor(private callback: ApprovalCallback) {}
+
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    return await this.callback(request);
+  }
+}
+
+/**
+ * Approver that prompts on stdin/stdout, in the style of USER_INPUT_TOOL
+ * Requests are asked one at a time, even when tool calls run in parallel.
+ */
+export class CliApprover implements Approver {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const next = this.queue.then(() => this.prompt(request));
+    this.queue = next.catch(() => undefined);
+    return await next;
+  }
+
+  private async prompt(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const { createInterface } = await import('node:readline/promises');
+    const { stdin, stdout } = await import('node:process');
+
+    const rl = createInterface({ input: stdin, output: stdout });
+    try {
+      stdout.write(
+        `\nApproval required for ${request.toolCall.name}:\n${JSON.stringify(request.arguments, null, 2)}\n`
+      );
+
+      while (true) {
+        const answer = (await rl.question('Approve? (y)es / (n)o / (e)dit: ')).trim().toLowerCase();
+        if (['y', 'yes'].includes(answer)) return { decision: 'approve' };
+        if (['n', 'no'].includes(answer)) {
+          const reason = (await rl.question('Reason (optional): ')).trim();
+          return { decision: 'deny', reason: reason || undefined };
+        }
+        if (['e', 'edit'].includes(answer)) {
+          const raw = await rl.question('New arguments (JSON): ');
+          try {
+            return { decision: 'edit', arguments: JSON.parse(raw) as unknown };
+          } catch {
+            stdout.write('Arguments must be valid JSON.\n');
+          }
+          continue;
+        }
+        stdout.write("Please answer 'y', 'n' or 'e'.\n");
+      }
+    } finally {
+      rl.close();
+    }
+  }
+}
+
+/**
+ * Approval request waiting in a QueueApprover
+ */
+export interface PendingApproval {
+  id: string;
+  request: ApprovalRequest;
+  createdAt: number;
+}
+
+/**
+ * Approver that parks requests until they are resolved from elsewhere (e.g. a web UI)
+ * Emits `request` with each PendingApproval; call approve/deny/edit with its id to answer it.
+ */
+export class QueueApprover extends EventEmitter implements Approver {
+  private waiting = new Map<string, { pending: PendingApproval; resolve: (decision: ApprovalDecision) => void }>();
+
+  /**
+   * @param timeoutMs Deny requests left unanswered for this long (default: wait indefinitely)
+   */
+  constructor(private timeoutMs?: number) {
+    super();
+  }
+
+  requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const pending: PendingApproval = { id: randomUUID(), request, createdAt: Date.now() };
+
+    return new Promise<ApprovalDecision>((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      this.waiting.set(pending.id, {
+        pending,
+        resolve: (decision) => {
+          if (timer) clearTimeout(timer);
+          this.waiting.delete(pending.id);
+          resolve(decision);
+        },
+      });
+      if (this.timeoutMs !== undefined) {
+        timer = setTimeout(
+          () => this.resolve(pending.id, { decision: 'deny', reason: 'Approval timed out' }),
+          this.timeoutMs
+        );
+      }
+      this.emit('request', pending);
+    });
+  }
+
+  /** Requests awaiting a decision, oldest first */
+  get pending(): PendingApproval[] {
+    return [...this.waiting.values()].map((entry) => entry.pending);
+  }
+
+  /**
+   * Answer a pending request
+   * @returns false if no request with this id is pending
+   */
+  resolve(id: string, decision: ApprovalDecision): boolean {
+    const entry = this.waiting.get(id);
+    if (!entry) return false;
+    entry.resolve(decision);
+    return true;
+  }
+
+  approve(id: string, reason?: string): boolean {
+    return this.resolve(id, { decision: 'approve', reason });
+  }
+
+  deny(id: string, reason?: string): boolean {
+    return this.resolve(id, { decision: 'deny', reason });
+  }
+
+  edit(id: string, args: unknown, reason?: string): boolean {
+    return this.resolve(id, { decision: 'edit', arguments: args, reason });
+  }
+}
+
+// ============================================================================
+// Metadata
+// ============================================================================
+
+/**
+ * A single recorded approval decision
+ */
+export interface ApprovalRecord {
+  tool: string;
+  toolCallId?: string;
+  decision: ApprovalDecision['decision'];
+  reason?: string;
+  /** Arguments after an edit, as a JSON string */
+  editedArguments?: string;
+}
+
+/**
+ * Approval decisions recorded in runMetadata under `approval`
+ */
+export class ApprovalMetadata implements Addable<ApprovalMetadata> {
+  constructor(public decisions: ApprovalRecord[] = []) {}
+
+  add(other: ApprovalMetadata): ApprovalMetadata {
+    return new ApprovalMetadata([...this.decisions, ...other.decisions]);
+  }
+
+  private count(decision: ApprovalRecord['decision']): number {
+    return this.decisions.filter((record) => record.decision === decision).length;
+  }
+
+  toJSON() {
+    return {
+      num_approved: this.count('approve'),
+      num_denied: this.count('deny'),
+      num_edited: this.count('edit'),
+      decisions: this.decisions,
+    };
+  }
+}
+
+// ============================================================================
+// Gate
+// ============================================================================
+
+/**
+ * Approval configuration for an agent
+ */
+export interface ApprovalConfig {
+  /** Tool calls matching any rule require approval */
+  rules: ApprovalRule[];
+  /** Decides approval requests */
+  approver: Approver | ApprovalCallback;
+}
+
+/** Outcome of ApprovalGate.review() */
+export interface ApprovalReview {
+  /** The call to execute (arguments replaced on edit) */
+  toolCall: ToolCall;
+  /** Set when approval was requested */
+  record?: ApprovalRecord;
+  /** Content of the tool message to return instead of executing, when denied */
+  denied?: string;
+}
+
+/**
+ * Applies approval rules and an approver to tool calls
+ */
+export class ApprovalGate {
+  private approver: Approver;
+
+  constructor(private config: ApprovalConfig) {
+    this.approver = typeof config.approver === 'function' ? new CallbackApprover(config.approver) : config.approver;
+  }
+
+  /**
+   * Check a tool call against the rules and request approval if one matches
+   */
+  async review(toolCall: ToolCall, context: { agentName: string; turn: number }): Promise<ApprovalReview> {
+    const args = parseArguments(toolCall.arguments);
+    const rule = findApprovalRule(this.config.rules, toolCall, args);
+    if (!rule) {
+      return { toolCall };
+    }
+
+    const decision = await this.approver.requestApproval({ toolCall, arguments: args, rule, ...context });
+    const record: ApprovalRecord = {
+      tool: toolCall.name,
+      toolCallId: toolCall.toolCallId,
+      decision: decision.decision,
+      reason: decision.reason,
+    };
+
+    switch (decision.decision) {
+      case 'approve':
+        return { toolCall, record };
+      case 'deny':
+        return { toolCall, record, denied: formatDenial(toolCall.name, decision.reason) };
+      case 'edit': {
+        const editedArguments =
+          typeof decision.arguments === 'string' ? decision.arguments : JSON.stringify(decision.arguments);
+        return { toolCall: { ...toolCall, arguments: editedArguments }, record: { ...record, editedArguments } };
+      }
+    }
+  }
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return raw.trim() === '' ? {} : (JSON.parse(raw) as unknown);
+  } catch {
+    return raw;
+  }
+}
+
+function formatDenial(toolName: string, reason?: string): string {
+  return [
+    `<tool_denied tool="${toolName}">`,
+    `  <reason>${reason ?? 'The user did not approve this tool call.'}</reason>`,
+    '</tool_denied>',
+    'The tool was not executed. Take a different approach, or ask the user how to proceed.',
+  ].join('\n');
+}
@@ -0,0 +1,178 @@
+/**
+ * Run budgets - token, cost, wall-clock and per-tool call limits for an agent run
+ */
+
+import type { TokenUsage } from './models.js';
+import { findModelPricing, getPriceTable, type PriceTable } from './pricing.js';
+
+/**
+ * Limits for a single agent run
+ * When a limit is reached the agent is asked to wrap up, and stopped after `graceTurns` more turns.
+ */
+export interface RunBudget {
+  /** Maximum input (prompt) tokens summed over all generations */
+  maxInputTokens?: number;
+  /** Maximum output tokens summed over all generations */
+  maxOutputTokens?: number;
+  /** Maximum estimated cost in USD */
+  maxCostUsd?: number;
+  /** Maximum wall-clock duration of the run (ms); work still running at the limit is interrupted */
+  maxWallClockMs?: number;
+  /** Maximum number of calls per tool name; calls beyond the limit are refused */
+  maxToolCalls?: Record<string, number>;
+  /** Prices for cost estimates, keyed by model slug; merged over the registered price table */
+  prices?: PriceTable;
+  /** Turns allowed after the wrap-up message before the run is stopped (default: 1) */
+  graceTurns?: number;
+}
+
+/** Which limit of a RunBudget was reached */
+export type BudgetKind = 'inputTokens' | 'outputTokens' | 'cost' | 'wallClock' | 'toolCalls';
+
+/**
+ * Details of an exhausted budget
+ */
+export interface BudgetExhaustion {
+  budget: BudgetKind;
+  limit: number;
+  used: number;
+  /** Tool name, for `toolCalls` budgets */
+  tool?: string;
+}
+
+/**
+ * Budget consumption, serializable for run caching
+ */
+export interface BudgetUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  elapsedMs: number;
+  toolCalls: Record<string, number>;
+}
+
+/**
+ * Tracks consumption against a RunBudget over the course of a run
+ */
+export class BudgetTracker {
+  private inputTokens: number;
+  private outputTokens: number;
+  private costUsd: number;
+  private toolCalls: Record<string, number>;
+  private startedAt: number;
+
+  /** Aborts when the wall-clock budget runs out; undefined without maxWallClockMs */
+  readonly deadline: AbortSignal | undefined;
+
+  /**
+   * @param budget Limits to enforce
+   * @param resumeFrom Usage from a cached run, when resuming
+   */
+  constructor(
+    private budget: RunBudget,
+    resumeFrom?: BudgetUsage
+  ) {
+    this.inputTokens = resumeFrom?.inputTokens ?? 0;
+    this.outputTokens = resumeFrom?.outputTokens ?? 0;
+    this.costUsd = resumeFrom?.costUsd ?? 0;
+    this.toolCalls = { ...resumeFrom?.toolCalls };
+    this.startedAt = Date.now() - (resumeFrom?.elapsedMs ?? 0);
+    if (budget.maxWallClockMs !== undefined) {
+      this.deadline = AbortSignal.timeout(Math.max(0, this.startedAt + budget.maxWallClockMs - Date.now()));
+    }
+  }
+
+  /** Turns allowed after the wrap-up message */
+  get graceTurns(): number {
+    return this.budget.graceTurns ?? 1;
+  }
+
+  /**
+   * Record token usage from one generation
+   * @param costUsd Estimated cost of the generation, as reported in token_usage (none for unpriced models)
+   */
+  recordUsage(usage: TokenUsage, costUsd: number = 0): void {
+    this.inputTokens += usage.input;
+    this.outputTokens += usage.output;
+    this.costUsd += costUsd;
+  }
+
+  /**
+   * Reserve a call to a tool
+   * @returns false (and records nothing) if the tool's call limit is already reached
+   */
+  tryRecordToolCall(toolName: string): boolean {
+    const limit = this.budget.maxToolCalls?.[toolName];
+    const used = this.toolCalls[toolName] ?? 0;
+    if (limit !== undefined && used >= limit) return false;
+    this.toolCalls[toolName] = used + 1;
+    return true;
+  }
+
+  /**
+   * First limit that has been reached, if any
+   */
+  exhausted(): BudgetExhaustion | undefined {
+    const { maxInputTokens, maxOutputTokens, maxCostUsd, maxWallClockMs, maxToolCalls } = this.budget;
+    if (maxInputTokens !== undefined && this.inputTokens >= maxInputTokens) {
+      return { budget: 'inputTokens', limit: maxInputTokens, used: this.inputTokens };
+    }
+    if (maxOutputTokens !== undefined && this.outputTokens >= maxOutputTokens) {
+      return { budget: 'outputTokens', limit: maxOutputTokens, used: this.outputTokens };
+    }
+    if (maxCostUsd !== undefined && this.costUsd >= maxCostUsd) {
+      return { budget: 'cost', limit: maxCostUsd, used: this.costUsd };
+    }
+    const elapsedMs = Date.now() - this.startedAt;
+    if (maxWallClockMs !== undefined && (elapsedMs >= maxWallClockMs || this.deadline?.aborted)) {
+      return { budget: 'wallClock', limit: maxWallClockMs, used: elapsedMs };
+    }
+    for (const [tool, limit] of Object.entries(maxToolCalls ?? {})) {
+      const used = this.toolCalls[tool] ?? 0;
+      if (used >= limit) {
+        return { budget: 'toolCalls', limit, used, tool };
+      }
+    }
+    return undefined;
+  }
+
+  /** Current consumption */
+  snapshot(): BudgetUsage {
+    return {
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      costUsd: this.costUsd,
+      elapsedMs: Date.now() - this.startedAt,
+      toolCalls: { ...this.toolCalls },
+    };
+  }
+}
+
+/**
+ * Check that a budget can be enforced for a model
+ * @returns An error message, or undefined if the budget is valid
+ */
+export function validateBudget(budget: RunBudget, modelSlug: string): string | undefined {
+  if (budget.maxCostUsd !== undefined && !findModelPricing(modelSlug, { ...getPriceTable(), ...budget.prices })) {
+    return `No pricing found for model '${modelSlug}'; add it to budget.prices to use maxCostUsd`;
+  }
+  return undefined;
+}
+
+/**
+ * Describe an exhausted budget for the wrap-up message and logs
+ */
+export function describeExhaustion(exhaustion: BudgetExhaustion): string {
+  switch (exhaustion.budget) {
+    case 'inputTokens':
+      return `input token budget (${exhaustion.used} of ${exhaustion.limit} tokens used)`;
+    case 'outputTokens':
+      return `output token budget (${exhaustion.used} of ${exhaustion.limit} tokens used)`;
+    case 'cost':
+      return `cost budget ($${exhaustion.used.toFixed(4)} of $${exhaustion.limit.toFixed(2)} spent)`;
+    case 'wallClock':
+      return `time budget (${Math.round(exhaustion.used / 1000)}s of ${Math.round(exhaustion.limit / 1000)}s elapsed)`;
+    case 'toolCalls':
+      return `call budget for ${exhaustion.tool} (${exhaustion.used} of ${exhaustion.limit} calls used)`;
+  }
+}
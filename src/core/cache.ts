@@ -10,7 +10,8 @@ import { createHash } from 'crypto';
 import { mkdir, readFile, writeFile, stat, rm } from 'fs/promises';
 import { join } from 'path';
 import { homedir } from 'os';
-import type { ChatMessage } from './models.js';
+import { restoreSummaryMarker, serializeMessage, type ChatMessage } from './models.js';
+import type { BudgetUsage } from './budget.js';
 
 const CACHE_DIR = join(homedir(), '.cache', 'stirrup');
 
@@ -35,6 +36,9 @@ export interface CachedRunState {
 
   /** Files from execution environment (relative path -> base64 content) */
   files: Record<string, string>;
+
+  /** Budget consumed before interruption, carried over on resume */
+  budget?: BudgetUsage;
 }
 
 /**
@@ -80,7 +84,12 @@ export class CacheManager {
   async loadState(): Promise<CachedRunState | null> {
     try {
       const data = await readFile(join(this.cacheDir, 'state.json'), 'utf-8');
-      return JSON.parse(data) as CachedRunState;
+      const state = JSON.parse(data) as CachedRunState;
+      return {
+        ...state,
+        messages: state.messages.map((m) => restoreSummaryMarker(m)),
+        messageHistory: state.messageHistory.map((group) => group.map((m) => restoreSummaryMarker(m))),
+      };
     } catch {
       return null;
     }
@@ -91,7 +100,12 @@ export class CacheManager {
    */
   async saveState(state: CachedRunState): Promise<void> {
     await mkdir(this.cacheDir, { recursive: true });
-    await writeFile(join(this.cacheDir, 'state.json'), JSON.stringify(state, null, 2));
+    const serialized = {
+      ...state,
+      messages: state.messages.map(serializeMessage),
+      messageHistory: state.messageHistory.map((group) => group.map(serializeMessage)),
+    };
+    await writeFile(join(this.cacheDir, 'state.json'), JSON.stringify(serialized, null, 2));
   }
 
   /**
@@ -0,0 +1,239 @@
+/**
+ * Context strategies - how the agent shrinks the conversation as it nears the context limit
+ */
+
+import type { AssistantMessage, ChatMessage, ContentBlock, LLMClient } from './models.js';
+import { ContextOverflowError, createSummaryMessage, isSummaryMessage } from './models.js';
+import { MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE, MESSAGE_SUMMARIZER_PROMPT } from '../prompts/index.js';
+
+/**
+ * Why the context was summarized
+ * - `usage`: the last response's reported token usage reached the cutoff
+ * - `estimate`: the next request was estimated to reach the cutoff before sending it
+ * - `overflow`: the provider rejected the request as too long (ContextOverflowError)
+ */
+export type SummarizationReason = 'usage' | 'estimate' | 'overflow';
+
+/**
+ * What the agent passes to a context strategy
+ */
+export interface ContextStrategyContext {
+  /** The agent's client; LLM strategies use it unless they were given their own */
+  client: LLMClient;
+  /** Why the context is being compacted */
+  reason: SummarizationReason;
+  /** Estimated input tokens of a request with these messages and the agent's tools */
+  estimateTokens(messages: ChatMessage[]): number;
+  /** Token count the agent compacts at (contextSummarizationCutoff of the model's context window) */
+  tokenLimit: number;
+  /** The run's abort signal, for LLM requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Strategy for shrinking the conversation, set with `AgentConfig.contextStrategy`
+ * Called when the context reaches the summarization cutoff, or after the provider rejects a request as too long.
+ */
+export interface ContextStrategy {
+  /**
+   * Return a shorter conversation to continue from
+   * Keep the task context (the messages before the first assistant message), and keep each tool result
+   * together with the assistant message that called it.
+   */
+  compact(messages: ChatMessage[], ctx: ContextStrategyContext): Promise<ChatMessage[]>;
+}
+
+/**
+ * Options for strategies that summarize with an LLM
+ */
+export interface SummarizerOptions {
+  /** Client for summary requests, e.g. a cheaper model (default: the agent's client) */
+  client?: LLMClient;
+  /** System prompt for summary requests (default: MESSAGE_SUMMARIZER_PROMPT) */
+  prompt?: string;
+}
+
+/** Final user message of every summary request */
+const SUMMARY_REQUEST = 'Please provide a concise summary.';
+
+/** Acknowledgement following a summary, so the conversation still alternates */
+const SUMMARY_ACK: AssistantMessage = {
+  role: 'assistant',
+  content: 'Understood, I will continue the task with the summarized context.',
+};
+
+/**
+ * Split a conversation into its task context and turns
+ * The task context is everything before the first assistant message (system prompt, task and any summary).
+ * Each turn starts at an assistant message and holds the tool results and user messages that follow it.
+ */
+export function splitTurns(messages: ChatMessage[]): { taskContext: ChatMessage[]; turns: ChatMessage[][] } {
+  const firstAssistant = messages.findIndex((m) => m.role === 'assistant');
+  if (firstAssistant === -1) {
+    return { taskContext: messages, turns: [] };
+  }
+
+  const turns: ChatMessage[][] = [];
+  let turn: ChatMessage[] = [];
+  for (const message of messages.slice(firstAssistant)) {
+    if (message.role === 'assistant') {
+      turn = [message];
+      turns.push(turn);
+    } else {
+      turn.push(message);
+    }
+  }
+  return { taskContext: messages.slice(0, firstAssistant), turns };
+}
+
+/**
+ * Replace the whole history after the task context with an LLM summary (the default strategy)
+ * Earlier summaries are dropped from the task context rather than carried into the new one.
+ */
+export class SummaryStrategy implements ContextStrategy {
+  constructor(private options: SummarizerOptions = {}) {}
+
+  async compact(messages: ChatMessage[], ctx: ContextStrategyContext): Promise<ChatMessage[]> {
+    const { taskContext, turns } = splitTurns(messages);
+    if (turns.length === 0) return messages;
+
+    const summary = await summarize(turns, [], this.options, ctx);
+    return [
+      ...taskContext.filter((m) => !isSummaryMessage(m)),
+      createSummaryMessage(MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE(summary)),
+      SUMMARY_ACK,
+    ];
+  }
+}
+
+/**
+ * Keep only the task context and the most recent turns
+ * Drops further turns (keeping at least the latest) while the result is still over the token limit.
+ */
+export class SlidingWindowStrategy implements ContextStrategy {
+  private keepTurns: number;
+
+  /**
+   * @param options.keepTurns Turns to keep (default: 10)
+   */
+  constructor(options: { keepTurns?: number } = {}) {
+    this.keepTurns = options.keepTurns ?? 10;
+  }
+
+  compact(messages: ChatMessage[], ctx: ContextStrategyContext): Promise<ChatMessage[]> {
+    const { taskContext, turns } = splitTurns(messages);
+    let kept = turns.slice(-Math.max(1, this.keepTurns));
+    while (kept.length > 1 && ctx.estimateTokens([...taskContext, ...kept.flat()]) >= ctx.tokenLimit) {
+      kept = kept.slice(1);
+    }
+    return Promise.resolve([...taskContext, ...kept.flat()]);
+  }
+}
+
+/**
+ * Replace tool results and media in older turns with short placeholders, keeping the tool calls
+ * The model still sees what it did, just not the full outputs. Recent turns are cleared too, newest last,
+ * while the result is still over the token limit.
+ */
+export class DropToolOutputsStrategy implements ContextStrategy {
+  private keepTurns: number;
+
+  /**
+   * @param options.keepTurns Most recent turns whose outputs are kept (default: 3)
+   */
+  constructor(options: { keepTurns?: number } = {}) {
+    this.keepTurns = options.keepTurns ?? 3;
+  }
+
+  compact(messages: ChatMessage[], ctx: ContextStrategyContext): Promise<ChatMessage[]> {
+    const { taskContext, turns } = splitTurns(messages);
+    let keep = Math.min(this.keepTurns, turns.length);
+    let compacted: ChatMessage[];
+    do {
+      const cleared = turns.slice(0, turns.length - keep).map((turn) => turn.map(dropOutputs));
+      compacted = [...taskContext, ...cleared.flat(), ...turns.slice(turns.length - keep).flat()];
+      keep--;
+    } while (keep >= 0 && ctx.estimateTokens(compacted) >= ctx.tokenLimit);
+    return Promise.resolve(compacted);
+  }
+}
+
+/**
+ * Keep the most recent turns and fold everything older, including the previous summary, into a rolling summary
+ * Each summary builds on the last, so earlier work is condensed further over time instead of being lost.
+ */
+export class RollingSummaryStrategy implements ContextStrategy {
+  private keepTurns: number;
+  private summarizer: SummarizerOptions;
+
+  /**
+   * @param options.keepTurns Most recent turns kept verbatim (default: 4)
+   */
+  constructor(options: SummarizerOptions & { keepTurns?: number } = {}) {
+    const { keepTurns = 4, ...summarizer } = options;
+    this.keepTurns = keepTurns;
+    this.summarizer = summarizer;
+  }
+
+  async compact(messages: ChatMessage[], ctx: ContextStrategyContext): Promise<ChatMessage[]> {
+    const { taskContext, turns } = splitTurns(messages);
+    const older = turns.slice(0, Math.max(0, turns.length - this.keepTurns));
+    if (older.length === 0) return messages;
+
+    const previousSummaries = taskContext.filter(isSummaryMessage);
+    const summary = await summarize(older, previousSummaries, this.summarizer, ctx);
+    return [
+      ...taskContext.filter((m) => !isSummaryMessage(m)),
+      createSummaryMessage(MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE(summary)),
+      ...turns.slice(older.length).flat(),
+    ];
+  }
+}
+
+/**
+ * Ask the summarizer for a summary of the given turns, after any earlier summaries
+ * If the request is too long for the model, the oldest turns are dropped until it is estimated to fit
+ * under the token limit, and the request is sent once more.
+ */
+async function summarize(
+  turns: ChatMessage[][],
+  previousSummaries: ChatMessage[],
+  options: SummarizerOptions,
+  ctx: ContextStrategyContext
+): Promise<string> {
+  const client = options.client ?? ctx.client;
+  const request = (kept: ChatMessage[][]): ChatMessage[] => [
+    { role: 'system', content: options.prompt ?? MESSAGE_SUMMARIZER_PROMPT },
+    ...previousSummaries,
+    ...kept.flat(),
+    { role: 'user', content: SUMMARY_REQUEST },
+  ];
+
+  let response: AssistantMessage;
+  try {
+    response = await client.generate(request(turns), new Map(), { signal: ctx.signal });
+  } catch (error) {
+    if (!(error instanceof ContextOverflowError)) throw error;
+    let kept = turns;
+    while (kept.length > 1 && ctx.estimateTokens(request(kept)) >= ctx.tokenLimit) {
+      kept = kept.slice(1);
+    }
+    response = await client.generate(request(kept), new Map(), { signal: ctx.signal });
+  }
+
+  return typeof response.content === 'string' ? response.content : JSON.stringify(response.content);
+}
+
+/** Placeholder for a tool result or media block removed by DropToolOutputsStrategy */
+function dropOutputs(message: ChatMessage): ChatMessage {
+  if (message.role === 'tool') {
+    return { ...message, content: `[Output of ${message.name} removed to save context]` };
+  }
+  if (message.role === 'user' && Array.isArray(message.content)) {
+    const content = message.content.map(
+      (block): ContentBlock => (typeof block === 'string' ? block : `[${block.type} removed to save context]`)
+    );
+    return { ...message, content };
+  }
+  return message;
+}
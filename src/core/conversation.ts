@@ -0,0 +1,125 @@
+/**
+ * Conversations - multi-turn chat with an agent that keeps its message history between messages
+ */
+
+import { z } from 'zod';
+import {
+  ChatMessageSchema,
+  restoreSummaryMarker,
+  serializeMessage,
+  type ChatMessage,
+  type Content,
+  type SerializedMessage,
+} from './models.js';
+import type { AgentRunOptions, AgentRunResult, AgentStreamEvent } from './agent.js';
+
+/**
+ * Messages a conversation continues from, updated by the agent when a message has been handled
+ * An empty history starts a new conversation with the agent's system prompt.
+ */
+export interface ConversationHistory {
+  messages: ChatMessage[];
+}
+
+/** Runs the agent's turn loop for new messages, continuing from (and updating) the history */
+export type ConversationRunner<FP> = (
+  messages: ChatMessage[],
+  history: ConversationHistory,
+  options: AgentRunOptions & { streamTokens: boolean }
+) => AsyncGenerator<AgentStreamEvent<FP>, AgentRunResult<FP>>;
+
+/**
+ * A multi-turn conversation with an agent, created with `agent.conversation()`
+ * Each send() runs the agent until it finishes (or stops) and keeps the resulting messages, so the next message
+ * continues the same conversation in the same session and exec env. Long conversations are compacted with the
+ * agent's context strategy like any run.
+ *
+ * @example
+ * ```typescript
+ * await using session = agent.session();
+ * const chat = session.conversation();
+ * await chat.send('Load sales.csv and describe it');
+ * await chat.send('Now plot revenue by month');
+ * await writeFile('chat.json', JSON.stringify(chat));
+ * // Later: agent.conversation(JSON.parse(await readFile('chat.json', 'utf-8')))
+ * ```
+ */
+export class Conversation<FP = unknown> {
+  private history: ConversationHistory;
+  private sending = false;
+
+  /**
+   * @param run Runs the agent for each message
+   * @param messages History to continue from, e.g. a deserialized `toJSON()`; validated with ChatMessageSchema
+   */
+  constructor(
+    private run: ConversationRunner<FP>,
+    messages: unknown[] = []
+  ) {
+    const parsed = z.array(ChatMessageSchema).parse(messages);
+    this.history = { messages: parsed.map((message, i) => restoreSummaryMarker(message, messages[i])) };
+  }
+
+  /** Messages so far, including the system prompt (a copy) */
+  get messages(): ChatMessage[] {
+    return [...this.history.messages];
+  }
+
+  /**
+   * Send a user message and run the agent until it finishes
+   * If the run fails, the history is left as it was before the message.
+   * @param message User message content, or messages to append
+   * @param options Run options including AbortSignal
+   */
+  async send(message: Content | ChatMessage[], options: AgentRunOptions = {}): Promise<AgentRunResult<FP>> {
+    const events = this.handle(message, options, false);
+    let next = await events.next();
+    while (!next.done) {
+      next = await events.next();
+    }
+    return next.value;
+  }
+
+  /**
+   * Send a user message and stream the agent's events
+   * @param message User message content, or messages to append
+   * @param options Run options including AbortSignal
+   */
+  async *sendStream(
+    message: Content | ChatMessage[],
+    options: AgentRunOptions = {}
+  ): AsyncGenerator<AgentStreamEvent<FP>, AgentRunResult<FP>> {
+    return yield* this.handle(message, options, true);
+  }
+
+  /** Run the agent for one message, allowing only one message at a time */
+  private async *handle(
+    message: Content | ChatMessage[],
+    options: AgentRunOptions,
+    streamTokens: boolean
+  ): AsyncGenerator<AgentStreamEvent<FP>, AgentRunResult<FP>> {
+    if (this.sending) {
+      throw new Error('Conversation is already handling a message; wait for send() to finish before sending another');
+    }
+    this.sending = true;
+    try {
+      return yield* this.run(toMessages(message), this.history, { ...options, streamTokens });
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  /** The history, for JSON.stringify(); pass it back to `agent.conversation()` to continue later */
+  toJSON(): SerializedMessage[] {
+    return this.history.messages.map(serializeMessage);
+  }
+}
+
+/** A user message's content is either a string or content blocks; anything else is a list of messages */
+function toMessages(message: Content | ChatMessage[]): ChatMessage[] {
+  return isMessageList(message) ? message : [{ role: 'user', content: message }];
+}
+
+function isMessageList(message: Content | ChatMessage[]): message is ChatMessage[] {
+  return Array.isArray(message) && message.length > 0 && message.every((m) => typeof m === 'object' && 'role' in m);
+}
@@ -0,0 +1,182 @@
+/**
+ * Agent hooks - middleware around generation and tool execution
+ *
+ * Hooks run in the order they are configured; each sees the output of the previous one.
+ * Returning nothing keeps the current value, and returning a stop decision ends the run.
+ */
+
+import type { AgentRunResult } from './agent.js';
+import type { AssistantMessage, ChatMessage, ToolCall, ToolMessage, ToolResult } from './models.js';
+
+/**
+ * Context passed to every hook
+ */
+export interface HookContext {
+  /** Name of the agent running the hook */
+  agentName: string;
+  /** Current turn (0-indexed) */
+  turn: number;
+}
+
+/** Ends the run once the current step completes */
+export interface HookStop {
+  type: 'stop';
+  reason?: string;
+}
+
+/** Discards the generated assistant message and calls the model again */
+export interface HookRetry {
+  type: 'retry';
+}
+
+/** Skips a tool call, returning `message` to the model as the tool result */
+export interface HookDeny {
+  type: 'deny';
+  message: string;
+}
+
+/** Skips a tool call, using `result` as if the tool had returned it */
+export interface HookReplace {
+  type: 'replace';
+  result: ToolResult;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Middleware hooks around the agent loop
+ */
+export interface AgentHooks<FP = unknown> {
+  /**
+   * Called before each generation. Returned messages are sent to the model in place of the
+   * conversation for this request only; the stored history is left unchanged (useful for redaction).
+   */
+  beforeGenerate?(messages: ChatMessage[], context: HookContext): MaybePromise<ChatMessage[] | HookStop | void>;
+
+  /** Called with each generated assistant message, before any of its tool calls run */
+  afterGenerate?(
+    message: AssistantMessage,
+    context: HookContext
+  ): MaybePromise<AssistantMessage | HookRetry | HookStop | void>;
+
+  /**
+   * Called before each tool call. Return a ToolCall to change the tool or its arguments
+   * (the toolCallId is always preserved), or a decision to deny, replace or stop.
+   */
+  beforeTool?(
+    toolCall: ToolCall,
+    context: HookContext
+  ): MaybePromise<ToolCall | HookDeny | HookReplace | HookStop | void>;
+
+  /** Called with each tool result before it is returned to the model */
+  afterTool?(
+    toolCall: ToolCall,
+    message: ToolMessage,
+    context: HookContext
+  ): MaybePromise<ToolMessage | HookStop | void>;
+
+  /** Called with the final result before `run:complete`; may return a modified result */
+  onFinish?(result: AgentRunResult<FP>, context: HookContext): MaybePromise<AgentRunResult<FP> | void>;
+}
+
+/** Name of an AgentHooks method */
+export type HookName = keyof AgentHooks;
+
+/** Create a stop decision */
+export function stopRun(reason?: string): HookStop {
+  return { type: 'stop', reason };
+}
+
+/** Create a deny decision for beforeTool */
+export function denyTool(message: string): HookDeny {
+  return { type: 'deny', message };
+}
+
+/** Create a replace decision for beforeTool */
+export function replaceToolResult(result: ToolResult): HookReplace {
+  return { type: 'replace', result };
+}
+
+/** Create a retry decision for afterGenerate */
+export function retryGeneration(): HookRetry {
+  return { type: 'retry' };
+}
+
+function isDecision<T extends { type: string }>(value: unknown, type: T['type']): value is T {
+  return typeof value === 'object' && value !== null && (value as { type?: unknown }).type === type;
+}
+
+/** Check whether a hook result is a stop decision */
+export function isHookStop(value: unknown): value is HookStop {
+  return isDecision<HookStop>(value, 'stop');
+}
+
+/**
+ * Runs a list of AgentHooks as a pipeline
+ * Each stage receives the previous stage's output; the first decision short-circuits the rest.
+ */
+export class HookPipeline<FP = unknown> {
+  private hooks: AgentHooks<FP>[];
+
+  constructor(hooks: AgentHooks<FP> | AgentHooks<FP>[] = []) {
+    this.hooks = Array.isArray(hooks) ? hooks : [hooks];
+  }
+
+  /** The configured hooks, for passing on to sub-agents */
+  toArray(): AgentHooks<FP>[] {
+    return [...this.hooks];
+  }
+
+  async beforeGenerate(messages: ChatMessage[], context: HookContext): Promise<ChatMessage[] | HookStop> {
+    let current = messages;
+    for (const hooks of this.hooks) {
+      const result = await hooks.beforeGenerate?.(current, context);
+      if (isHookStop(result)) return result;
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  async afterGenerate(
+    message: AssistantMessage,
+    context: HookContext
+  ): Promise<AssistantMessage | HookRetry | HookStop> {
+    let current = message;
+    for (const hooks of this.hooks) {
+      const result = await hooks.afterGenerate?.(current, context);
+      if (isHookStop(result) || isDecision<HookRetry>(result, 'retry')) return result;
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  async beforeTool(toolCall: ToolCall, context: HookContext): Promise<ToolCall | HookDeny | HookReplace | HookStop> {
+    let current = toolCall;
+    for (const hooks of this.hooks) {
+      const result = await hooks.beforeTool?.(current, context);
+      if (isHookStop(result) || isDecision<HookDeny>(result, 'deny') || isDecision<HookReplace>(result, 'replace')) {
+        return result;
+      }
+      if (result) current = { ...result, toolCallId: toolCall.toolCallId };
+    }
+    return current;
+  }
+
+  async afterTool(toolCall: ToolCall, message: ToolMessage, context: HookContext): Promise<ToolMessage | HookStop> {
+    let current = message;
+    for (const hooks of this.hooks) {
+      const result = await hooks.afterTool?.(toolCall, current, context);
+      if (isHookStop(result)) return result;
+      if (result) current = result;
+    }
+    return current;
+  }
+
+  async onFinish(result: AgentRunResult<FP>, context: HookContext): Promise<AgentRunResult<FP>> {
+    let current = result;
+    for (const hooks of this.hooks) {
+      current = (await hooks.onFinish?.(current, context)) ?? current;
+    }
+    return current;
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import type { CodeExecToolProvider } from '../tools/code-exec/base.js';
 
 // ============================================================================
 // Content Blocks
@@ -68,23 +69,53 @@ export const ToolCallSchema = z.object({
   name: z.string().describe('Name of the tool to call'),
   arguments: z.string().describe('JSON string of tool arguments'),
   toolCallId: z.string().optional().describe('Unique identifier for this tool call'),
+  signature: z.string().optional().describe('Provider signature to send back with the call (Gemini thought signature)'),
 });
 export type ToolCall = z.infer<typeof ToolCallSchema>;
 
-/** Token usage statistics */
+/**
+ * Token usage statistics
+ * `input` counts every prompt token; `cacheRead` and `cacheWrite` are the portions of it
+ * served from or written to the provider's prompt cache.
+ */
 export const TokenUsageSchema = z.object({
   input: z.number().int().nonnegative().default(0),
   output: z.number().int().nonnegative().default(0),
   reasoning: z.number().int().nonnegative().default(0).optional(),
+  cacheRead: z.number().int().nonnegative().optional(),
+  cacheWrite: z.number().int().nonnegative().optional(),
 });
 export type TokenUsage = z.infer<typeof TokenUsageSchema>;
 
+/**
+ * Model reasoning (extended thinking or a reasoning summary)
+ * Signed blocks are sent back to the provider unchanged so tool-use turns stay valid.
+ */
+export const ReasoningBlockSchema = z.object({
+  type: z.literal('reasoning'),
+  text: z.string().describe('Reasoning text, or a summary of it'),
+  signature: z.string().optional().describe('Provider signature verifying the reasoning (Anthropic)'),
+});
+export type ReasoningBlock = z.infer<typeof ReasoningBlockSchema>;
+
+/** Reasoning the provider returned encrypted; only the opaque data is kept, for round-tripping */
+export const RedactedReasoningBlockSchema = z.object({
+  type: z.literal('redacted_reasoning'),
+  data: z.string().describe('Encrypted reasoning data'),
+});
+export type RedactedReasoningBlock = z.infer<typeof RedactedReasoningBlockSchema>;
+
 /** Assistant message with model response and optional tool calls */
 export const AssistantMessageSchema = z.object({
   role: z.literal('assistant'),
   content: ContentSchema,
+  reasoning: z.array(z.union([ReasoningBlockSchema, RedactedReasoningBlockSchema])).optional(),
   toolCalls: z.array(ToolCallSchema).optional(),
   tokenUsage: TokenUsageSchema.optional(),
+  model: z
+    .string()
+    .optional()
+    .describe("Model that generated the message, set by clients that use several (defaults to the client's modelSlug)"),
 });
 export type AssistantMessage = z.infer<typeof AssistantMessageSchema>;
 
@@ -111,7 +142,7 @@ export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 // Summary Message Marker
 // ============================================================================
 
-/** Marker symbol for summary messages (not serialized to JSON) */
+/** Marker symbol for summary messages (serialized as `summary: true`, see serializeMessage()) */
 export const SUMMARY_MESSAGE_MARKER = Symbol.for('stirrup:summary');
 
 /** A UserMessage that is a context summarization (carries marker symbol) */
@@ -133,6 +164,95 @@ export function createSummaryMessage(content: string): SummaryMessage {
   };
 }
 
+/** A message as stored in JSON, where a summary carries `summary: true` in place of the marker symbol */
+export type SerializedMessage = ChatMessage | (UserMessage & { summary: true });
+
+/** Prepare a message for JSON, keeping the summary marker as a `summary` field */
+export function serializeMessage(msg: ChatMessage): SerializedMessage {
+  return isSummaryMessage(msg) ? { role: 'user', content: msg.content, summary: true } : msg;
+}
+
+/**
+ * Restore the summary marker on a message loaded from JSON
+ * @param msg The message, validated or as parsed
+ * @param serialized The message as stored, when validation stripped its `summary` field
+ */
+export function restoreSummaryMarker(msg: ChatMessage, serialized: unknown = msg): ChatMessage {
+  const marked = typeof serialized === 'object' && serialized !== null && 'summary' in serialized && serialized.summary;
+  if (msg.role !== 'user' || marked !== true) return msg;
+  const summary: SummaryMessage = { role: 'user', content: msg.content, [SUMMARY_MESSAGE_MARKER]: true };
+  return summary;
+}
+
+// ============================================================================
+// Tool Result Media
+// ============================================================================
+
+/** Image, audio or video content block */
+export type MediaContentBlock = ImageContentBlock | AudioContentBlock | VideoContentBlock;
+
+/**
+ * Render content as text, with a placeholder such as `[image]` for each media block
+ * Used for logs and events, where base64 data would only be noise.
+ */
+export function contentToText(content: Content): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.map((block) => (typeof block === 'string' ? block : `[${block.type}]`)).join('\n');
+}
+
+/**
+ * Move media out of tool messages into follow-up user messages
+ * For providers that only accept text in tool results. Each affected tool message keeps its text plus a note
+ * pointing at the attachment, and a single user message carrying the media follows each run of consecutive
+ * tool messages (so tool results still directly follow the assistant message that requested them).
+ * @param messages Messages to convert
+ * @param shouldMove Which media blocks to move (default: all)
+ * @returns New message list; messages without media to move are returned unchanged
+ */
+export function moveToolMediaToUserMessages(
+  messages: ChatMessage[],
+  shouldMove: (block: MediaContentBlock) => boolean = () => true
+): ChatMessage[] {
+  const result: ChatMessage[] = [];
+  let attachments: ContentBlock[] = [];
+
+  const flush = () => {
+    if (attachments.length > 0) {
+      result.push({ role: 'user', content: attachments });
+      attachments = [];
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role !== 'tool') {
+      flush();
+      result.push(message);
+      continue;
+    }
+
+    const blocks = typeof message.content === 'string' ? [] : message.content;
+    const moved = blocks.filter((block): block is MediaContentBlock => typeof block !== 'string' && shouldMove(block));
+    if (moved.length === 0) {
+      result.push(message);
+      continue;
+    }
+
+    const kept = blocks.filter((block) => typeof block === 'string' || !shouldMove(block));
+    const note = `[${moved.map((block) => block.type).join(', ')} attached in the next message]`;
+    // Collapse to a string when only text is left, since clients send string tool content as-is
+    result.push({
+      ...message,
+      content: kept.every((block) => typeof block === 'string') ? [...kept, note].join('\n') : [...kept, note],
+    });
+    attachments.push(`Media returned by ${message.name} (call ${message.toolCallId}):`, ...moved);
+  }
+  flush();
+
+  return result;
+}
+
 // ============================================================================
 // Tool System
 // ============================================================================
@@ -153,7 +273,91 @@ export interface BaseTool {
   name: string;
   description: string;
   parameters: z.ZodType | null;
-  executor: (params: any) => Promise<ToolResult<any>> | ToolResult<any>;
+  executor: (params: any, ctx: ToolExecutionContext) => Promise<ToolResult<any>> | ToolResult<any>;
+  /**
+   * Whether calls to this tool may run alongside other calls from the same turn (default: 'parallel').
+   * Exclusive tools always run on their own, after earlier calls complete and before later ones start.
+   */
+  concurrency?: ToolConcurrency;
+  /**
+   * Where a worker thread can load this tool's executor from
+   * When set (and the agent's runSyncInThread is enabled), calls run in a worker thread instead of `executor`,
+   * so CPU-heavy synchronous work does not block the event loop.
+   */
+  worker?: WorkerExecutor;
+  /**
+   * Time limit for a single call (ms), overriding the agent's `toolTimeoutMs`
+   * When exceeded the call's signal is aborted and the model is told the tool timed out.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-call context passed to tool executors as the second argument
+ * Executors that only take params can ignore it. Use createToolContext() to build one in tests.
+ */
+export interface ToolExecutionContext {
+  /**
+   * Aborted when the run is cancelled or the call times out; long-running executors should stop their work
+   * and reject
+   */
+  signal?: AbortSignal;
+  /** ID of the tool call being executed */
+  toolCallId: string;
+  /** Turn number (0-based) */
+  turn: number;
+  /** Name of the agent running the tool */
+  agentName: string;
+  /** Nesting depth of that agent (0 = root agent, >0 = sub-agent) */
+  depth: number;
+  /** The session's code execution environment, if it has one */
+  execEnv?: CodeExecToolProvider;
+  /** The session's output directory, if it has one */
+  outputDir?: string;
+  /** Logger for diagnostics, prefixed with the tool name and silenced when the agent has no logger */
+  logger: ToolLogger;
+  /** Report progress on a long-running call, emitted as a `tool:progress` event */
+  reportProgress(progress: ToolProgress): void;
+}
+
+/**
+ * Logger available to tool executors through ToolExecutionContext
+ */
+export interface ToolLogger {
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Progress update reported by a running tool
+ * Set whichever fields apply: a status message, percent complete, a line of partial output or a sub-agent turn.
+ */
+export interface ToolProgress {
+  /** Human-readable status, e.g. "Downloaded 3 of 10 files" */
+  message?: string;
+  /** Completion between 0 and 100, when known */
+  percent?: number;
+  /** A line of output from a running command, e.g. from code_exec */
+  output?: { stream: 'stdout' | 'stderr'; text: string };
+  /** A turn started by a sub-agent that this tool delegated to */
+  subAgentTurn?: { agentName: string; turn: number; maxTurns: number };
+}
+
+/** Scheduling mode for a tool when the model emits several tool calls in one turn */
+export type ToolConcurrency = 'parallel' | 'exclusive';
+
+/**
+ * Module-path reference to a tool executor, for running it in a worker thread
+ * The export receives the validated params and returns a ToolResult. Params and result are copied between
+ * threads with the structured clone algorithm, so metadata arrives as plain data (class methods are lost).
+ */
+export interface WorkerExecutor {
+  /** Absolute path or file: URL of an ES module (plain JavaScript, loadable by Node without a build step) */
+  module: string | URL;
+  /** Name of the exported executor function (default: 'default') */
+  exportName?: string;
 }
 
 /**
@@ -163,7 +367,7 @@ export interface BaseTool {
  */
 export interface Tool<P extends z.ZodType = z.ZodTypeAny, M = unknown> extends BaseTool {
   parameters: P | null;
-  executor: (params: z.infer<P>) => Promise<ToolResult<M>> | ToolResult<M>;
+  executor: (params: z.infer<P>, ctx: ToolExecutionContext) => Promise<ToolResult<M>> | ToolResult<M>;
 }
 
 /**
@@ -189,12 +393,18 @@ export interface Addable<T> {
   add(other: T): T;
 }
 
-/** Helper class for token usage with aggregation support */
+/**
+ * Helper class for token usage with aggregation support
+ * `cost` is the estimated cost in USD, undefined when the model has no known price.
+ */
 export class TokenUsageMetadata implements Addable<TokenUsageMetadata> {
   constructor(
     public input: number = 0,
     public output: number = 0,
-    public reasoning: number = 0
+    public reasoning: number = 0,
+    public cacheRead: number = 0,
+    public cacheWrite: number = 0,
+    public cost?: number
   ) {}
 
   get total(): number {
@@ -202,10 +412,14 @@ export class TokenUsageMetadata implements Addable<TokenUsageMetadata> {
   }
 
   add(other: TokenUsageMetadata): TokenUsageMetadata {
+    const cost = this.cost === undefined && other.cost === undefined ? undefined : (this.cost ?? 0) + (other.cost ?? 0);
     return new TokenUsageMetadata(
       this.input + other.input,
       this.output + other.output,
-      this.reasoning + other.reasoning
+      this.reasoning + other.reasoning,
+      this.cacheRead + other.cacheRead,
+      this.cacheWrite + other.cacheWrite,
+      cost
     );
   }
 
@@ -215,11 +429,75 @@ export class TokenUsageMetadata implements Addable<TokenUsageMetadata> {
       output: this.output,
       reasoning: this.reasoning,
       total: this.total,
+      ...((this.cacheRead > 0 || this.cacheWrite > 0) && { cacheRead: this.cacheRead, cacheWrite: this.cacheWrite }),
+      ...(this.cost !== undefined && { cost: this.cost }),
     };
   }
 
-  static fromTokenUsage(usage: TokenUsage): TokenUsageMetadata {
-    return new TokenUsageMetadata(usage.input, usage.output, usage.reasoning ?? 0);
+  /**
+   * @param usage Token usage reported by the client
+   * @param cost Estimated cost of this usage in USD, if known
+   */
+  static fromTokenUsage(usage: TokenUsage, cost?: number): TokenUsageMetadata {
+    return new TokenUsageMetadata(
+      usage.input,
+      usage.output,
+      usage.reasoning ?? 0,
+      usage.cacheRead ?? 0,
+      usage.cacheWrite ?? 0,
+      cost
+    );
+  }
+}
+
+/** Generations and token usage of one model within a run */
+export interface ModelUsage {
+  generations: number;
+  input: number;
+  output: number;
+  /** Estimated cost in USD, undefined when the model has no known price */
+  cost?: number;
+}
+
+/**
+ * Which model generated each turn, and the usage per model
+ * Recorded for every run; it matters when a client can use several models (FallbackClient, RouterClient).
+ */
+export class ModelUsageMetadata implements Addable<ModelUsageMetadata> {
+  constructor(
+    public byModel: Record<string, ModelUsage> = {},
+    public turns: Array<{ turn: number; model: string }> = []
+  ) {}
+
+  /** Metadata for one generation */
+  static fromGeneration(model: string, turn: number, usage?: TokenUsage, cost?: number): ModelUsageMetadata {
+    return new ModelUsageMetadata(
+      { [model]: { generations: 1, input: usage?.input ?? 0, output: usage?.output ?? 0, cost } },
+      [{ turn, model }]
+    );
+  }
+
+  add(other: ModelUsageMetadata): ModelUsageMetadata {
+    const byModel = { ...this.byModel };
+    for (const [model, usage] of Object.entries(other.byModel)) {
+      const existing = byModel[model];
+      byModel[model] = existing
+        ? {
+            generations: existing.generations + usage.generations,
+            input: existing.input + usage.input,
+            output: existing.output + usage.output,
+            cost:
+              existing.cost === undefined && usage.cost === undefined
+                ? undefined
+                : (existing.cost ?? 0) + (usage.cost ?? 0),
+          }
+        : usage;
+    }
+    return new ModelUsageMetadata(byModel, [...this.turns, ...other.turns]);
+  }
+
+  toJSON() {
+    return { by_model: this.byModel, turns: this.turns };
   }
 }
 
@@ -274,6 +552,34 @@ export function aggregateMetadata(metadata: Record<string, unknown[]>, prefix: s
 // LLM Client Protocol
 // ============================================================================
 
+/**
+ * Incremental event yielded by LLMClient.generateStream()
+ * The final event is always `done`, carrying the fully assembled assistant message
+ */
+export type LLMStreamEvent =
+  | { type: 'text:delta'; delta: string }
+  | { type: 'reasoning:delta'; delta: string }
+  | {
+      type: 'tool_call:delta';
+      /** Position of the tool call within the response */
+      index: number;
+      /** Set on the first delta of a tool call, when the provider reports it */
+      toolCallId?: string;
+      /** Set on the first delta of a tool call */
+      name?: string;
+      /** Raw JSON fragment of the tool call arguments */
+      argumentsDelta: string;
+    }
+  | { type: 'done'; message: AssistantMessage };
+
+/**
+ * Per-request options for LLMClient.generate() and generateStream()
+ */
+export interface GenerateOptions {
+  /** Aborts the in-flight request (and any pending retries) when the run is cancelled */
+  signal?: AbortSignal;
+}
+
 /**
  * Protocol interface for LLM clients
  * All LLM client implementations must satisfy this interface
@@ -283,9 +589,23 @@ export interface LLMClient {
    * Generate a response from the model
    * @param messages Conversation history
    * @param tools Available tools the model can use
+   * @param options Per-request options such as an abort signal
    * @returns Assistant message with response and optional tool calls
    */
-  generate(messages: ChatMessage[], tools: Map<string, Tool>): Promise<AssistantMessage>;
+  generate(messages: ChatMessage[], tools: Map<string, Tool>, options?: GenerateOptions): Promise<AssistantMessage>;
+
+  /**
+   * Generate a response from the model, yielding deltas as they arrive (optional)
+   * @param messages Conversation history
+   * @param tools Available tools the model can use
+   * @param options Per-request options such as an abort signal
+   * @returns Async iterable of stream events, ending with a `done` event
+   */
+  generateStream?(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): AsyncIterable<LLMStreamEvent>;
 
   /** Model identifier/slug */
   readonly modelSlug: string;
@@ -319,6 +639,17 @@ export class ToolExecutionError extends Error {
   }
 }
 
+/** Error thrown when a tool call exceeds its time limit */
+export class ToolTimeoutError extends ToolExecutionError {
+  public timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool '${toolName}' timed out after ${timeoutMs}ms`, toolName);
+    this.name = 'ToolTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 /** Error thrown when agent validation fails */
 export class AgentValidationError extends Error {
   constructor(message: string) {
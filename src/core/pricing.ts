@@ -0,0 +1,115 @@
+/**
+ * Model pricing - per-model token prices used to estimate run cost
+ */
+
+import type { TokenUsage } from './models.js';
+
+/**
+ * Token prices for a model, in USD per million tokens
+ * Cache prices default to the input price when omitted.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Price of input tokens read from the prompt cache */
+  cacheRead?: number;
+  /** Price of input tokens written to the prompt cache */
+  cacheWrite?: number;
+}
+
+/** Price table keyed by model slug */
+export type PriceTable = Record<string, ModelPricing>;
+
+/**
+ * Built-in list prices (USD per million tokens)
+ * Override or extend these with registerModelPricing().
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  // Anthropic
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  // OpenAI
+  'gpt-5.1': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  o3: { input: 2, output: 8, cacheRead: 0.5 },
+  'o3-pro': { input: 20, output: 80 },
+  'o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  o1: { input: 15, output: 60, cacheRead: 7.5 },
+  'o1-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+/** Suffix of a dated or `-latest` snapshot, e.g. `-20250929` or `-2024-08-06` */
+const SNAPSHOT_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2}|latest)$/;
+
+/** Prices registered at runtime, taking precedence over DEFAULT_PRICES */
+const registeredPrices: PriceTable = {};
+
+/**
+ * Add or override prices for models, process-wide
+ * @param prices Prices keyed by model slug
+ */
+export function registerModelPricing(prices: PriceTable): void {
+  Object.assign(registeredPrices, prices);
+}
+
+/**
+ * Built-in prices merged with registered overrides
+ */
+export function getPriceTable(): PriceTable {
+  return { ...DEFAULT_PRICES, ...registeredPrices };
+}
+
+/**
+ * Look up pricing for a model slug
+ * Tries an exact match, then drops any provider prefix (e.g. `anthropic/`), then drops a dated or `-latest`
+ * snapshot suffix so snapshots match their base model. Other variants (e.g. `o3-mini` for `o3`) are not
+ * guessed, since they are usually priced differently.
+ * @returns Pricing, or undefined if the model is not in the table
+ */
+export function findModelPricing(modelSlug: string, table: PriceTable = getPriceTable()): ModelPricing | undefined {
+  const bare = modelSlug.slice(modelSlug.lastIndexOf('/') + 1);
+  for (const slug of [modelSlug, bare, bare.replace(SNAPSHOT_SUFFIX, '')]) {
+    if (table[slug]) return table[slug];
+  }
+  return undefined;
+}
+
+/**
+ * Estimate the cost of a generation in USD
+ * Cached input tokens are billed at the cache prices; reasoning tokens are billed as output
+ * and are already included in `usage.output`.
+ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const cacheRead = usage.cacheRead ?? 0;
+  const cacheWrite = usage.cacheWrite ?? 0;
+  const uncachedInput = Math.max(0, usage.input - cacheRead - cacheWrite);
+  return (
+    (uncachedInput * pricing.input +
+      cacheRead * (pricing.cacheRead ?? pricing.input) +
+      cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+      usage.output * pricing.output) /
+    1_000_000
+  );
+}
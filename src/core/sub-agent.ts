@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import type { ChatMessage } from './models.js';
+import { TokenUsageMetadata, type Addable, type ChatMessage } from './models.js';
 
 /**
  * Parameters for sub-agent execution
@@ -32,10 +32,16 @@ export class SubAgentMetadata {
     );
   }
 
+  /** Token usage and cost of the sub-agent, including its own sub-agents */
+  get tokenUsage(): TokenUsageMetadata {
+    return totalTokenUsage(this.runMetadata);
+  }
+
   toJSON() {
     return {
       message_history: this.messageHistory,
       run_metadata: this.runMetadata,
+      total_token_usage: this.tokenUsage,
     };
   }
 
@@ -44,9 +50,12 @@ export class SubAgentMetadata {
 
     for (const [key, value] of Object.entries(b)) {
       if (key in merged) {
-        // If both have the key, merge arrays or overwrite
-        if (Array.isArray(merged[key]) && Array.isArray(value)) {
-          merged[key] = [...(merged[key] as unknown[]), ...value];
+        // If both have the key, add aggregatable values, merge arrays or overwrite
+        const existing = merged[key];
+        if (isAddable(existing) && isAddable(value)) {
+          merged[key] = existing.add(value);
+        } else if (Array.isArray(existing) && Array.isArray(value)) {
+          merged[key] = [...(existing as unknown[]), ...value];
         } else {
           merged[key] = value;
         }
@@ -58,3 +67,23 @@ export class SubAgentMetadata {
     return merged;
   }
 }
+
+function isAddable(value: unknown): value is Addable<unknown> {
+  return typeof value === 'object' && value !== null && 'add' in value && typeof value.add === 'function';
+}
+
+/**
+ * Total token usage of a run, rolled up through the SubAgentMetadata of any sub-agents it called
+ * @param runMetadata Aggregated run metadata (AgentRunResult.runMetadata)
+ */
+export function totalTokenUsage(runMetadata: Record<string, unknown>): TokenUsageMetadata {
+  let total = new TokenUsageMetadata();
+  for (const [key, value] of Object.entries(runMetadata)) {
+    if (key === 'token_usage' && value instanceof TokenUsageMetadata) {
+      total = total.add(value);
+    } else if (value instanceof SubAgentMetadata) {
+      total = total.add(value.tokenUsage);
+    }
+  }
+  return total;
+}
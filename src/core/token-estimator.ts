@@ -0,0 +1,159 @@
+/**
+ * Token estimation - sizing requests before they are sent, to keep them within the context window
+ */
+
+import { z } from 'zod';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { CHARS_PER_TOKEN } from '../constants.js';
+import type { BaseTool, ChatMessage, Content } from './models.js';
+
+/**
+ * Estimates how many input tokens a request will use
+ * Implementations should be fast and synchronous; the agent calls them before every generate().
+ */
+export interface TokenEstimator {
+  /** Estimate the input tokens of a request with these messages and tools */
+  countRequest(messages: ChatMessage[], tools?: Map<string, BaseTool>): number;
+}
+
+/** Offline tokenizer encodings available through js-tiktoken */
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+/** Tokens added per message for its role and delimiters */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Rough per-block estimates for media, whose cost depends on the provider rather than the data size */
+const MEDIA_BLOCK_TOKENS = { image: 1_500, audio: 2_500, video: 10_000 } as const;
+
+/**
+ * Token estimator built on a text tokenizer
+ * Counts message text, tool calls, reasoning and tool schemas, plus fixed estimates for media and per-message
+ * overhead. Counts are cached per message object, so re-estimating a growing history only tokenizes new
+ * messages.
+ */
+export class TextTokenEstimator implements TokenEstimator {
+  private messageCounts = new WeakMap<ChatMessage, number>();
+  private toolCounts = new WeakMap<BaseTool, number>();
+
+  /**
+   * @param countText Tokens in a piece of text
+   */
+  constructor(private countText: (text: string) => number) {}
+
+  countRequest(messages: ChatMessage[], tools?: Map<string, BaseTool>): number {
+    let total = 0;
+    for (const message of messages) {
+      let count = this.messageCounts.get(message);
+      if (count === undefined) {
+        count = this.countMessage(message);
+        this.messageCounts.set(message, count);
+      }
+      total += count;
+    }
+    for (const tool of tools?.values() ?? []) {
+      let count = this.toolCounts.get(tool);
+      if (count === undefined) {
+        count = this.countTool(tool);
+        this.toolCounts.set(tool, count);
+      }
+      total += count;
+    }
+    return total;
+  }
+
+  private countMessage(message: ChatMessage): number {
+    let count = MESSAGE_OVERHEAD_TOKENS + this.countContent(message.content);
+    if (message.role === 'assistant') {
+      for (const call of message.toolCalls ?? []) {
+        count += this.countText(call.name) + this.countText(call.arguments);
+      }
+      for (const block of message.reasoning ?? []) {
+        count += this.countText(block.type === 'reasoning' ? block.text : block.data);
+      }
+    }
+    return count;
+  }
+
+  private countContent(content: Content): number {
+    if (typeof content === 'string') {
+      return this.countText(content);
+    }
+    return content.reduce(
+      (sum, block) => sum + (typeof block === 'string' ? this.countText(block) : MEDIA_BLOCK_TOKENS[block.type]),
+      0
+    );
+  }
+
+  private countTool(tool: BaseTool): number {
+    let schema = '';
+    if (tool.parameters) {
+      try {
+        schema = JSON.stringify(z.toJSONSchema(tool.parameters));
+      } catch {
+        // Some schemas (e.g. with transforms) cannot be converted; count the name and description only
+      }
+    }
+    return this.countText(tool.name) + this.countText(tool.description) + this.countText(schema);
+  }
+}
+
+/**
+ * Estimator that assumes a fixed number of characters per token
+ * Needs no tokenizer; accurate to within roughly 20% for English prose and code.
+ * @param charsPerToken Characters per token (default: CHARS_PER_TOKEN)
+ */
+export function createHeuristicTokenEstimator(charsPerToken: number = CHARS_PER_TOKEN): TokenEstimator {
+  return new TextTokenEstimator((text) => Math.ceil(text.length / charsPerToken));
+}
+
+/**
+ * Offline tokenizer encoding for a model's provider family, if one is known
+ * OpenAI models use their own encodings. Claude's tokenizer is not published, so cl100k_base stands in as a
+ * closer approximation than the heuristic; other families return undefined.
+ * @param modelSlug Model slug, optionally prefixed with a provider (e.g. 'openai/gpt-4o')
+ */
+export function tokenizerEncodingForModel(modelSlug: string): TokenizerEncoding | undefined {
+  const model = modelSlug.toLowerCase().split('/').pop() ?? '';
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o1|o3|o4|chatgpt|codex)/.test(model)) return 'o200k_base';
+  if (/^(gpt-4|gpt-3\.5|claude)/.test(model)) return 'cl100k_base';
+  return undefined;
+}
+
+const encoders = new Map<TokenizerEncoding, Promise<Tiktoken | undefined>>();
+
+/** Load a js-tiktoken encoder once per process, or undefined when js-tiktoken is not installed */
+function loadEncoder(encoding: TokenizerEncoding): Promise<Tiktoken | undefined> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = (async () => {
+      try {
+        const { Tiktoken } = await import('js-tiktoken/lite');
+        const ranks =
+          encoding === 'o200k_base'
+            ? (await import('js-tiktoken/ranks/o200k_base')).default
+            : (await import('js-tiktoken/ranks/cl100k_base')).default;
+        return new Tiktoken(ranks);
+      } catch {
+        return undefined;
+      }
+    })();
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Create the default token estimator for a model
+ * Uses an offline tokenizer for the model's provider family when the optional `js-tiktoken` package is
+ * installed, and the character heuristic otherwise.
+ * @param modelSlug Model slug, e.g. the client's modelSlug
+ */
+export async function createTokenEstimator(modelSlug: string): Promise<TokenEstimator> {
+  const encoding = tokenizerEncodingForModel(modelSlug);
+  const encoder = encoding ? await loadEncoder(encoding) : undefined;
+  if (!encoder) {
+    return createHeuristicTokenEstimator();
+  }
+  // Special-token text in messages is ordinary text to the provider, so encode it as such
+  return new TextTokenEstimator((text) => encoder.encode(text, [], []).length);
+}
@@ -0,0 +1,234 @@
+/**
+ * Tool call arguments - validation feedback and repair of common model mistakes
+ */
+
+import { z } from 'zod';
+import type { Addable } from './models.js';
+
+/**
+ * Kinds of argument repair
+ * - `trailingCommas`: commas before a closing `}` or `]`
+ * - `singleQuotes`: single-quoted strings and keys
+ * - `stringifiedJson`: an object or array passed as a JSON string where the schema expects the object itself
+ */
+export type ArgumentRepairKind = 'trailingCommas' | 'singleQuotes' | 'stringifiedJson';
+
+/** Rounds of stringified-JSON repair, enough for a few levels of nesting */
+const MAX_STRINGIFIED_REPAIRS = 10;
+
+/**
+ * Parse tool call arguments, repairing common model mistakes when JSON.parse or validation fails
+ * Text repairs are only attempted when the raw string is not valid JSON, and stringified-JSON repairs only
+ * where the schema rejects a string; arguments that already validate are returned untouched.
+ * @param raw Arguments string from the model (empty is treated as `{}`)
+ * @param schema Parameter schema used to find stringified nested values
+ * @returns Parsed (not yet validated) arguments and the repairs that were applied
+ * @throws SyntaxError if the arguments are not valid JSON even after repair
+ */
+export function repairToolArguments(raw: string, schema: z.ZodType): { value: unknown; repairs: ArgumentRepairKind[] } {
+  const repairs: ArgumentRepairKind[] = [];
+  let value = parseWithTextRepairs(raw, repairs);
+
+  for (let round = 0; round < MAX_STRINGIFIED_REPAIRS; round++) {
+    const result = schema.safeParse(value);
+    if (result.success) break;
+
+    let changed = false;
+    for (const issue of result.error.issues) {
+      if (issue.code !== 'invalid_type' || (issue.expected !== 'object' && issue.expected !== 'array')) continue;
+      const current = getAtPath(value, issue.path);
+      const parsed = typeof current === 'string' ? tryParseJsonContainer(current) : undefined;
+      if (parsed !== undefined) {
+        value = setAtPath(value, issue.path, parsed);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+    if (!repairs.includes('stringifiedJson')) repairs.push('stringifiedJson');
+  }
+
+  return { value, repairs };
+}
+
+/**
+ * Describe why tool arguments were rejected, for the tool message sent back to the model
+ * Zod errors list each issue with its path; JSON syntax errors include the parser's message.
+ */
+export function formatArgumentError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    const issues = error.issues.map((issue) => `- ${formatPath(issue.path)}: ${issue.message}`);
+    return ['Tool arguments are not valid:', ...issues].join('\n');
+  }
+  if (error instanceof SyntaxError) {
+    return `Tool arguments are not valid JSON: ${error.message}`;
+  }
+  return 'Tool arguments are not valid';
+}
+
+/**
+ * Argument repairs recorded in runMetadata under `argument_repair`, counted by kind
+ */
+export class ArgumentRepairMetadata implements Addable<ArgumentRepairMetadata> {
+  constructor(public counts: Partial<Record<ArgumentRepairKind, number>> = {}) {}
+
+  /** Metadata for one repaired call */
+  static fromRepairs(repairs: ArgumentRepairKind[]): ArgumentRepairMetadata {
+    return new ArgumentRepairMetadata(Object.fromEntries(repairs.map((kind) => [kind, 1])));
+  }
+
+  add(other: ArgumentRepairMetadata): ArgumentRepairMetadata {
+    const counts = { ...this.counts };
+    for (const [kind, count] of Object.entries(other.counts) as Array<[ArgumentRepairKind, number]>) {
+      counts[kind] = (counts[kind] ?? 0) + count;
+    }
+    return new ArgumentRepairMetadata(counts);
+  }
+
+  toJSON() {
+    return {
+      num_trailing_commas: this.counts.trailingCommas ?? 0,
+      num_single_quotes: this.counts.singleQuotes ?? 0,
+      num_stringified_json: this.counts.stringifiedJson ?? 0,
+    };
+  }
+}
+
+// ============================================================================
+// Text repairs
+// ============================================================================
+
+function parseWithTextRepairs(raw: string, repairs: ArgumentRepairKind[]): unknown {
+  const trimmed = raw.trim();
+  if (trimmed === '') return {};
+
+  let firstError: SyntaxError;
+  try {
+    return JSON.parse(trimmed) as unknown;
+  } catch (error) {
+    firstError = error as SyntaxError;
+  }
+
+  let text = trimmed;
+  const applied: ArgumentRepairKind[] = [];
+  const unquoted = convertSingleQuotes(text);
+  if (unquoted !== text) {
+    text = unquoted;
+    applied.push('singleQuotes');
+  }
+  const uncommaed = removeTrailingCommas(text);
+  if (uncommaed !== text) {
+    text = uncommaed;
+    applied.push('trailingCommas');
+  }
+
+  try {
+    const value = JSON.parse(text) as unknown;
+    repairs.push(...applied);
+    return value;
+  } catch {
+    // Report the original error; it points at what the model actually sent
+    throw firstError;
+  }
+}
+
+/** Rewrite single-quoted strings as double-quoted JSON strings, leaving double-quoted strings alone */
+function convertSingleQuotes(text: string): string {
+  let out = '';
+  let quote: '"' | "'" | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (!quote) {
+      if (char === "'") {
+        quote = "'";
+        out += '"';
+      } else {
+        if (char === '"') quote = '"';
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = text[i + 1] ?? '';
+      // \' is not a JSON escape; inside a converted string it is just a quote
+      out += quote === "'" && next === "'" ? "'" : char + next;
+      i++;
+    } else if (char === quote) {
+      out += '"';
+      quote = undefined;
+    } else if (char === '"' && quote === "'") {
+      out += '\\"';
+    } else {
+      out += char;
+    }
+  }
+
+  return out;
+}
+
+/** Drop commas that directly precede a closing brace or bracket, outside strings */
+function removeTrailingCommas(text: string): string {
+  let out = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (inString) {
+      out += char;
+      if (char === '\\') {
+        out += text[i + 1] ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+    out += char;
+  }
+
+  return out;
+}
+
+// ============================================================================
+// Path helpers
+// ============================================================================
+
+function tryParseJsonContainer(text: string): unknown {
+  if (!/^\s*[[{]/.test(text)) return undefined;
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return typeof parsed === 'object' && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getAtPath(value: unknown, path: readonly PropertyKey[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
+
+function setAtPath(value: unknown, path: readonly PropertyKey[], replacement: unknown): unknown {
+  if (path.length === 0) return replacement;
+  const [key, ...rest] = path as [PropertyKey, ...PropertyKey[]];
+  const container = value as Record<PropertyKey, unknown>;
+  const copy = (Array.isArray(container) ? [...container] : { ...container }) as Record<PropertyKey, unknown>;
+  copy[key] = setAtPath(container[key], rest, replacement);
+  return copy;
+}
+
+function formatPath(path: readonly PropertyKey[]): string {
+  if (path.length === 0) return '(arguments)';
+  return path.map((key, i) => (typeof key === 'number' ? `[${key}]` : `${i === 0 ? '' : '.'}${String(key)}`)).join('');
+}
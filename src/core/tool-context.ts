@@ -0,0 +1,45 @@
+/**
+ * Tool execution context - per-call information and services passed to tool executors
+ */
+
+import type { ToolExecutionContext, ToolLogger } from './models.js';
+
+/** Minimum level written by a ToolLogger, or 'silent' to drop everything */
+export type ToolLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVEL_ORDER: Record<ToolLogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/**
+ * Create a console logger for tool executors
+ * @param prefix Prepended to each line, e.g. the tool name
+ * @param level Minimum level to write (default: 'info')
+ */
+export function createToolLogger(prefix: string, level: ToolLogLevel = 'info'): ToolLogger {
+  const write = (messageLevel: Exclude<ToolLogLevel, 'silent'>, message: string) => {
+    if (LOG_LEVEL_ORDER[messageLevel] < LOG_LEVEL_ORDER[level]) return;
+    console[messageLevel](`[${prefix}] ${message}`);
+  };
+
+  return {
+    debug: (message) => write('debug', message),
+    info: (message) => write('info', message),
+    warn: (message) => write('warn', message),
+    error: (message) => write('error', message),
+  };
+}
+
+/**
+ * Build a tool execution context, e.g. to call an executor directly in a unit test
+ * Unset fields default to a root agent on turn 0 with no exec env, a silent logger and ignored progress.
+ */
+export function createToolContext(overrides: Partial<ToolExecutionContext> = {}): ToolExecutionContext {
+  return {
+    toolCallId: 'test_call',
+    turn: 0,
+    agentName: 'test',
+    depth: 0,
+    logger: createToolLogger('test', 'silent'),
+    reportProgress: () => {},
+    ...overrides,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Tool output limits - shortening long tool results before they enter the conversation
+ */
+
+import { CHARS_PER_TOKEN } from '../constants.js';
+import type { Content, ContentBlock } from './models.js';
+import type { CodeExecToolProvider } from '../tools/code-exec/base.js';
+
+/** Note placed between the kept start and end of truncated text */
+export const TRUNCATION_MARKER = '[... output truncated ...]';
+
+/** Directory in the exec env where the full text of truncated tool results is saved */
+export const TOOL_OUTPUT_DIR = 'tool_outputs';
+
+/**
+ * Truncate text to maxLength characters, keeping both start and end
+ * to preserve error messages that typically appear at the end
+ * @param marker Note placed between the kept start and end
+ */
+export function truncateMiddle(content: string, maxLength: number, marker: string = TRUNCATION_MARKER): string {
+  if (content.length <= maxLength) {
+    return content;
+  }
+  const half = Math.floor(maxLength / 2);
+  return content.substring(0, half) + `\n\n${marker}\n\n` + content.substring(content.length - half);
+}
+
+/**
+ * Options for limitToolResult()
+ */
+export interface ToolResultLimitOptions {
+  /** Approximate token limit for the result's text */
+  maxTokens: number;
+  /** Tool that produced the result, used to name the saved file */
+  toolName: string;
+  /** Tool call that produced the result, used to name the saved file */
+  toolCallId: string;
+  /** Where to save the full text; without one the rest of the text is dropped */
+  execEnv?: CodeExecToolProvider;
+}
+
+/**
+ * Limit a tool result's text to roughly maxTokens, keeping its start and end
+ * Text blocks are measured together and replaced by a single truncated block; media blocks are kept as they
+ * are. When the text is cut and an exec env is available, the full text is saved there and the truncation
+ * note tells the model which file to read.
+ * @returns The content to send to the model, and the path of the saved full text if it was cut
+ */
+export async function limitToolResult(
+  content: Content,
+  options: ToolResultLimitOptions
+): Promise<{ content: Content; savedPath?: string }> {
+  const blocks: ContentBlock[] = typeof content === 'string' ? [content] : content;
+  const text = blocks.filter((block): block is string => typeof block === 'string').join('\n');
+  const maxLength = options.maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxLength) {
+    return { content };
+  }
+
+  const savedPath = await saveFullText(text, options);
+  const omitted = text.length - 2 * Math.floor(maxLength / 2);
+  const marker = savedPath
+    ? `[... ${omitted} of ${text.length} characters truncated. The full output is saved to ${savedPath}; search it or read it in parts rather than printing it all ...]`
+    : `[... ${omitted} of ${text.length} characters truncated ...]`;
+  const truncated = truncateMiddle(text, maxLength, marker);
+
+  if (typeof content === 'string') {
+    return { content: truncated, savedPath };
+  }
+  const firstText = content.findIndex((block) => typeof block === 'string');
+  return {
+    content: content.flatMap((block, i): ContentBlock[] => {
+      if (typeof block !== 'string') return [block];
+      return i === firstText ? [truncated] : [];
+    }),
+    savedPath,
+  };
+}
+
+/** Save the full text to the exec env, returning its path, or undefined if there is nowhere to save it */
+async function saveFullText(text: string, options: ToolResultLimitOptions): Promise<string | undefined> {
+  if (!options.execEnv) return undefined;
+  const callId = (options.toolCallId || String(Date.now())).replace(/[^a-zA-Z0-9_-]/g, '_');
+  const path = `${TOOL_OUTPUT_DIR}/${options.toolName}_${callId}.txt`;
+  try {
+    await options.execEnv.writeFileBytes(path, Buffer.from(text, 'utf-8'));
+    return path;
+  } catch {
+    // Still truncate; the model just cannot recover the omitted text
+    return undefined;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Tool call time limits - cancelling calls that run too long and counting the timeouts
+ */
+
+import { ToolTimeoutError, type Addable } from './models.js';
+import { abortReason } from '../utils/concurrency.js';
+
+/**
+ * Run a tool call with an optional time limit
+ * The call gets its own signal, aborted when the run signal is or when the limit passes; on timeout the
+ * signal's reason is a ToolTimeoutError and the returned promise rejects with it, even if the call ignores
+ * the signal.
+ * @param toolName Tool being called, used in the timeout message
+ * @param timeoutMs Time limit (ms), or undefined for none
+ * @param signal Run signal the call signal follows
+ * @param call Starts the call with the per-call signal
+ */
+export async function runWithTimeout<T>(
+  toolName: string,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  call: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+  if (timeoutMs === undefined) return call(signal);
+
+  const controller = new AbortController();
+  const onRunAbort = () => controller.abort(abortReason(signal));
+  if (signal?.aborted) onRunAbort();
+  signal?.addEventListener('abort', onRunAbort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ToolTimeoutError(toolName, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timedOut]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onRunAbort);
+  }
+}
+
+/**
+ * Tool call timeouts recorded in runMetadata under `tool_timeouts`, counted by tool
+ */
+export class ToolTimeoutMetadata implements Addable<ToolTimeoutMetadata> {
+  constructor(public counts: Record<string, number> = {}) {}
+
+  /** Metadata for one timed-out call */
+  static fromTool(toolName: string): ToolTimeoutMetadata {
+    return new ToolTimeoutMetadata({ [toolName]: 1 });
+  }
+
+  add(other: ToolTimeoutMetadata): ToolTimeoutMetadata {
+    const counts = { ...this.counts };
+    for (const [toolName, count] of Object.entries(other.counts)) {
+      counts[toolName] = (counts[toolName] ?? 0) + count;
+    }
+    return new ToolTimeoutMetadata(counts);
+  }
+
+  toJSON() {
+    return {
+      num_timeouts: Object.values(this.counts).reduce((total, count) => total + count, 0),
+      by_tool: this.counts,
+    };
+  }
+}
@@ -12,6 +12,7 @@ export type {
   ImageContentBlock,
   VideoContentBlock,
   AudioContentBlock,
+  MediaContentBlock,
 
   // Messages
   ChatMessage,
@@ -19,6 +20,8 @@ export type {
   UserMessage,
   AssistantMessage,
   ToolMessage,
+  ReasoningBlock,
+  RedactedReasoningBlock,
 
   // Tool system
   Tool,
@@ -26,6 +29,11 @@ export type {
   ToolProvider,
   ToolResult,
   ToolCall,
+  ToolConcurrency,
+  ToolExecutionContext,
+  ToolLogger,
+  ToolProgress,
+  WorkerExecutor,
 
   // Token usage and metadata
   TokenUsage,
@@ -33,6 +41,8 @@ export type {
 
   // LLM client
   LLMClient,
+  LLMStreamEvent,
+  GenerateOptions,
 } from './core/models.js';
 
 // Core classes and utilities
@@ -42,11 +52,17 @@ export {
   aggregateMetadata,
   ContextOverflowError,
   ToolExecutionError,
+  ToolTimeoutError,
   AgentValidationError,
   SUMMARY_MESSAGE_MARKER,
   isSummaryMessage,
   createSummaryMessage,
+  serializeMessage,
+  restoreSummaryMarker,
   type SummaryMessage,
+  type SerializedMessage,
+  contentToText,
+  moveToolMediaToUserMessages,
 } from './core/models.js';
 
 // Zod schemas for validation
@@ -59,6 +75,8 @@ export {
   SystemMessageSchema,
   UserMessageSchema,
   AssistantMessageSchema,
+  ReasoningBlockSchema,
+  RedactedReasoningBlockSchema,
   ToolMessageSchema,
   ChatMessageSchema,
   ToolCallSchema,
@@ -86,15 +104,20 @@ export {
   type AsyncDisposeFn,
 } from './utils/async-stack.js';
 
+export { WorkerPool, type WorkerPoolOptions, type WorkerRunOptions } from './utils/worker-pool.js';
+
 // Constants
 export {
   AGENT_MAX_TURNS,
   CONTEXT_SUMMARIZATION_CUTOFF,
+  MAX_CONTEXT_OVERFLOW_RECOVERIES,
+  MAX_GENERATION_RETRIES,
   FINISH_TOOL_NAME,
   RESOLUTION_1MP,
   RESOLUTION_480P,
   AUDIO_BITRATE,
   MAX_WEB_CONTENT_LENGTH,
+  CHARS_PER_TOKEN,
   SUBAGENT_INDENT_SPACES,
   DEFAULT_COMMAND_TIMEOUT,
   DEFAULT_E2B_TIMEOUT,
@@ -113,8 +136,97 @@ export {
   type AgentRunOptions,
   type AgentStreamEvent,
   type SpeedStats,
+  type ToolTiming,
+  type StopReason,
 } from './core/agent.js';
-export { SubAgentMetadata, SubAgentParamsSchema, type SubAgentParams } from './core/sub-agent.js';
+export {
+  SummaryStrategy,
+  SlidingWindowStrategy,
+  DropToolOutputsStrategy,
+  RollingSummaryStrategy,
+  splitTurns,
+  type ContextStrategy,
+  type ContextStrategyContext,
+  type SummarizerOptions,
+  type SummarizationReason,
+} from './core/context-strategy.js';
+export { Conversation, type ConversationHistory, type ConversationRunner } from './core/conversation.js';
+export {
+  HookPipeline,
+  stopRun,
+  denyTool,
+  replaceToolResult,
+  retryGeneration,
+  isHookStop,
+  type AgentHooks,
+  type HookContext,
+  type HookName,
+  type HookStop,
+  type HookRetry,
+  type HookDeny,
+  type HookReplace,
+} from './core/hooks.js';
+export {
+  ApprovalGate,
+  ApprovalMetadata,
+  CallbackApprover,
+  CliApprover,
+  QueueApprover,
+  findApprovalRule,
+  mcpServer,
+  type ApprovalCallback,
+  type ApprovalConfig,
+  type ApprovalDecision,
+  type ApprovalRecord,
+  type ApprovalRequest,
+  type ApprovalReview,
+  type ApprovalRule,
+  type Approver,
+  type ArgumentMatcher,
+  type PendingApproval,
+} from './core/approval.js';
+export {
+  BudgetTracker,
+  validateBudget,
+  describeExhaustion,
+  type RunBudget,
+  type BudgetKind,
+  type BudgetExhaustion,
+  type BudgetUsage,
+} from './core/budget.js';
+export {
+  DEFAULT_PRICES,
+  registerModelPricing,
+  getPriceTable,
+  findModelPricing,
+  estimateCost,
+  type ModelPricing,
+  type PriceTable,
+} from './core/pricing.js';
+export {
+  ArgumentRepairMetadata,
+  repairToolArguments,
+  formatArgumentError,
+  type ArgumentRepairKind,
+} from './core/tool-arguments.js';
+export { createToolContext, createToolLogger, type ToolLogLevel } from './core/tool-context.js';
+export { runWithTimeout, ToolTimeoutMetadata } from './core/tool-timeout.js';
+export {
+  limitToolResult,
+  truncateMiddle,
+  TRUNCATION_MARKER,
+  TOOL_OUTPUT_DIR,
+  type ToolResultLimitOptions,
+} from './core/tool-output.js';
+export {
+  TextTokenEstimator,
+  createHeuristicTokenEstimator,
+  createTokenEstimator,
+  tokenizerEncodingForModel,
+  type TokenEstimator,
+  type TokenizerEncoding,
+} from './core/token-estimator.js';
+export { SubAgentMetadata, SubAgentParamsSchema, totalTokenUsage, type SubAgentParams } from './core/sub-agent.js';
 
 // Session management
 export {
@@ -146,7 +258,10 @@ export {
   E2BCodeExecToolProvider,
   CodeExecutionParamsSchema,
   type CodeExecutionParams,
+  ViewImageParamsSchema,
+  type ViewImageParams,
   type CommandResult,
+  type RunCommandOptions,
   type DockerCodeExecConfig,
   type E2BCodeExecConfig,
 } from './tools/code-exec/index.js';
@@ -27,3 +27,6 @@ export const MESSAGE_SUMMARIZER_BRIDGE_TEMPLATE = (summary: string) =>
 ${summary}
 
 [Resuming conversation]`;
+
+export const BUDGET_WRAP_UP_TEMPLATE = (budget: string) =>
+  `You have reached your ${budget}. Stop starting new work and wrap up now: summarize what you have accomplished and call the finish tool with your best result.`;
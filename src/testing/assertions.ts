@@ -0,0 +1,149 @@
+/**
+ * Assertion helpers for agent runs - tool call sequences, finish params and stream events
+ * They throw node's AssertionError, so they work with any test runner.
+ */
+
+import { AssertionError } from 'node:assert';
+import { isDeepStrictEqual } from 'node:util';
+import type { AssistantMessage, ChatMessage, ToolCall } from '../core/models.js';
+import type { AgentRunResult, AgentStreamEvent } from '../core/agent.js';
+
+/** A run result, its message history, or a flat list of messages */
+export type RunMessages = AgentRunResult<unknown> | ChatMessage[][] | ChatMessage[];
+
+/**
+ * An expected tool call: a tool name, or a name with a subset of its arguments
+ * Arguments are compared key by key, so only the keys given need to match.
+ */
+export type ExpectedToolCall = string | { name: string; arguments?: Record<string, unknown> };
+
+/**
+ * Tool calls the model made during a run, in order
+ * Messages kept across summarization groups are only counted once.
+ */
+export function toolCalls(run: RunMessages): ToolCall[] {
+  const seen = new Set<AssistantMessage>();
+  const calls: ToolCall[] = [];
+  for (const message of flattenMessages(run)) {
+    if (message.role !== 'assistant' || seen.has(message)) continue;
+    seen.add(message);
+    calls.push(...(message.toolCalls ?? []));
+  }
+  return calls;
+}
+
+/**
+ * Assert the exact sequence of tool calls made during a run
+ * @example assertToolCalls(result, ['code_exec', { name: 'finish', arguments: { paths: [] } }])
+ */
+export function assertToolCalls(run: RunMessages, expected: ExpectedToolCall[]): void {
+  const actual = toolCalls(run).map((call) => ({ name: call.name, arguments: parseArguments(call.arguments) }));
+  const matches =
+    actual.length === expected.length &&
+    expected.every((want, i) => {
+      const call = actual[i];
+      if (!call) return false;
+      if (typeof want === 'string') return call.name === want;
+      return call.name === want.name && (!want.arguments || containsArguments(call.arguments, want.arguments));
+    });
+  if (!matches) {
+    throw new AssertionError({
+      message: `Expected tool calls [${expected.map(describeExpected).join(', ')}] but the run made [${actual.map((c) => c.name).join(', ')}]`,
+      actual,
+      expected,
+      operator: 'assertToolCalls',
+    });
+  }
+}
+
+/**
+ * Assert that the run finished with these finish params
+ */
+export function assertFinishParams(result: AgentRunResult<unknown>, expected: unknown): void {
+  if (result.finishParams === undefined) {
+    const reason = result.stopReason ? ` (stopped by ${result.stopReason.source})` : '';
+    throw new AssertionError({
+      message: `Expected the run to finish, but the finish tool was never accepted${reason}`,
+      actual: undefined,
+      expected,
+      operator: 'assertFinishParams',
+    });
+  }
+  if (!isDeepStrictEqual(result.finishParams, expected)) {
+    throw new AssertionError({
+      message: 'Finish params differ from the expected params',
+      actual: result.finishParams,
+      expected,
+      operator: 'assertFinishParams',
+    });
+  }
+}
+
+/**
+ * Collect every event of a streamed run, along with its result
+ * Events yielded before an error are kept on the thrown error's `events` property.
+ * @example const { events, result } = await collectEvents(agent.runStream('task'));
+ */
+export async function collectEvents<FP>(
+  stream: AsyncGenerator<AgentStreamEvent<FP>>
+): Promise<{ events: AgentStreamEvent<FP>[]; result?: AgentRunResult<FP> }> {
+  const events: AgentStreamEvent<FP>[] = [];
+  try {
+    for await (const event of stream) {
+      events.push(event);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      Object.assign(error, { events });
+    }
+    throw error;
+  }
+  const complete = events.find((event) => event.type === 'complete');
+  return { events, result: complete?.type === 'complete' ? complete.result : undefined };
+}
+
+/**
+ * Assert that events of these types were emitted in this order
+ * Other events may appear in between; use the full list to check an exact sequence.
+ * @example assertEvents(events, ['start', 'tool:start', 'tool:complete', 'complete'])
+ */
+export function assertEvents(events: Array<AgentStreamEvent<unknown>>, expectedTypes: string[]): void {
+  const actual = events.map((event) => event.type);
+  let position = 0;
+  for (const type of expectedTypes) {
+    const found = actual.indexOf(type as AgentStreamEvent<unknown>['type'], position);
+    if (found === -1) {
+      throw new AssertionError({
+        message: `Expected event '${type}' after position ${position} in [${actual.join(', ')}]`,
+        actual,
+        expected: expectedTypes,
+        operator: 'assertEvents',
+      });
+    }
+    position = found + 1;
+  }
+}
+
+function flattenMessages(run: RunMessages): ChatMessage[] {
+  if (!Array.isArray(run)) return run.messageHistory.flat();
+  return run.flatMap((item): ChatMessage[] => (Array.isArray(item) ? item : [item]));
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+function containsArguments(actual: unknown, expected: Record<string, unknown>): boolean {
+  if (typeof actual !== 'object' || actual === null) return false;
+  return Object.entries(expected).every(([key, value]) =>
+    isDeepStrictEqual((actual as Record<string, unknown>)[key], value)
+  );
+}
+
+function describeExpected(call: ExpectedToolCall): string {
+  return typeof call === 'string' ? call : call.name;
+}
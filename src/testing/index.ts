@@ -0,0 +1,32 @@
+/**
+ * Testing utilities - scripted clients and assertions for testing agents without a provider
+ */
+
+export {
+  ScriptedClient,
+  reply,
+  callTool,
+  callTools,
+  finish,
+  type ScriptedClientConfig,
+  type ScriptedRequest,
+  type ScriptedResponse,
+  type ResponseMatcher,
+} from './scripted-client.js';
+export {
+  toolCalls,
+  assertToolCalls,
+  assertFinishParams,
+  collectEvents,
+  assertEvents,
+  type RunMessages,
+  type ExpectedToolCall,
+} from './assertions.js';
+export {
+  RecordingClient,
+  CassetteMissError,
+  requestKey,
+  type RecordingClientConfig,
+  type CassetteMode,
+  type CassetteEntry,
+} from './recording-client.js';
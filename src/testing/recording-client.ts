@@ -0,0 +1,252 @@
+/**
+ * Record/replay client - cassettes of model responses (and tool results) for offline regression tests
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type {
+  AssistantMessage,
+  ChatMessage,
+  Content,
+  GenerateOptions,
+  LLMClient,
+  Tool,
+  ToolCall,
+} from '../core/models.js';
+import type { AgentHooks } from '../core/hooks.js';
+import { replaceToolResult } from '../core/hooks.js';
+import { zodToJsonSchema } from '../clients/utils.js';
+
+/**
+ * Whether a RecordingClient calls the wrapped client and saves its responses, or serves saved responses
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * One line of a cassette file
+ * `key` is a stable hash of the request: the messages and tool schemas for `generate`, the tool name and
+ * arguments for `tool`.
+ */
+export type CassetteEntry =
+  | {
+      type: 'generate';
+      key: string;
+      /** Last message of the request, to make cassettes and misses readable */
+      lastMessage?: ChatMessage;
+      response: AssistantMessage;
+    }
+  | { type: 'tool'; key: string; tool: string; arguments: string; content: Content };
+
+/**
+ * Configuration for RecordingClient
+ */
+export interface RecordingClientConfig {
+  /** Cassette file (JSONL); recording replaces it */
+  path: string;
+
+  /** 'record' calls the wrapped client and saves each response; 'replay' serves saved responses offline */
+  mode: CassetteMode;
+
+  /** Model identifier when replaying without a wrapped client (default: the wrapped client's, else 'recorded-model') */
+  modelSlug?: string;
+
+  /** Context window size when replaying without a wrapped client (default: the wrapped client's, else 128000) */
+  maxTokens?: number;
+}
+
+/**
+ * Error thrown in replay mode when a request is not in the cassette
+ * The request changed since it was recorded (or was never recorded); re-record the cassette if that is expected.
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly key: string,
+    detail: string
+  ) {
+    super(`No recorded ${detail} in cassette ${path} (key ${key}); re-record the cassette if the change is expected`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * LLM client wrapper that records responses to a JSONL cassette, or replays them offline
+ * Requests are matched by a hash of their messages and tool schemas, so any change to the prompt, history or
+ * tools is a miss and fails with CassetteMissError instead of silently calling the provider. A request made
+ * several times is answered with its recorded responses in order.
+ *
+ * Tool results can be recorded in the same cassette with toolHooks(), so tools with side effects or
+ * nondeterministic output (such as code_exec) replay too.
+ *
+ * @example
+ * ```typescript
+ * const client = new RecordingClient(new ChatCompletionsClient({ model: 'gpt-5' }), {
+ *   path: 'tests/cassettes/report.jsonl',
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * const agent = new Agent({ client, hooks: client.toolHooks(['code_exec']) });
+ * ```
+ */
+export class RecordingClient implements LLMClient {
+  readonly modelSlug: string;
+  readonly maxTokens: number;
+  readonly path: string;
+  readonly mode: CassetteMode;
+
+  private entries?: Promise<Map<string, CassetteEntry[]>>;
+  private writes: Promise<void> = Promise.resolve();
+  private recording = false;
+
+  /**
+   * @param client Client to record from; may be omitted when only replaying
+   */
+  constructor(
+    private client: LLMClient | undefined,
+    config: RecordingClientConfig
+  ) {
+    if (!client && config.mode === 'record') {
+      throw new Error('RecordingClient needs a client to record from');
+    }
+    this.path = config.path;
+    this.mode = config.mode;
+    this.modelSlug = config.modelSlug ?? client?.modelSlug ?? 'recorded-model';
+    this.maxTokens = config.maxTokens ?? client?.maxTokens ?? 128_000;
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): Promise<AssistantMessage> {
+    options?.signal?.throwIfAborted();
+    const key = requestKey(messages, tools);
+    const lastMessage = messages[messages.length - 1];
+
+    if (this.mode === 'replay') {
+      const entry = await this.take(key);
+      if (entry?.type !== 'generate') {
+        const role = lastMessage ? ` ending with a ${lastMessage.role} message` : '';
+        throw new CassetteMissError(this.path, key, `response for a request of ${messages.length} messages${role}`);
+      }
+      return entry.response;
+    }
+
+    if (!this.client) {
+      throw new Error('RecordingClient needs a client to record from');
+    }
+    const response = await this.client.generate(messages, tools, options);
+    await this.record({ type: 'generate', key, lastMessage, response });
+    return response;
+  }
+
+  /**
+   * Hooks that record results of the named tools, or replay them without running the tools
+   * Replayed tools do not touch the exec env, so files they would have written do not exist; include the
+   * finish tool when its output files are validated.
+   * @param toolNames Tools whose results go in the cassette (default: ['code_exec'])
+   */
+  toolHooks(toolNames: string[] = ['code_exec']): AgentHooks {
+    const recorded = new Set(toolNames);
+    if (this.mode === 'replay') {
+      return {
+        beforeTool: async (toolCall) => {
+          if (!recorded.has(toolCall.name)) return;
+          const key = toolKey(toolCall);
+          const entry = await this.take(key);
+          if (entry?.type !== 'tool') {
+            throw new CassetteMissError(this.path, key, `result for ${toolCall.name}(${toolCall.arguments})`);
+          }
+          return replaceToolResult({ content: entry.content });
+        },
+      };
+    }
+    return {
+      afterTool: async (toolCall, message) => {
+        if (!recorded.has(toolCall.name)) return;
+        await this.record({
+          type: 'tool',
+          key: toolKey(toolCall),
+          tool: toolCall.name,
+          arguments: toolCall.arguments,
+          content: message.content,
+        });
+      },
+    };
+  }
+
+  /** Take the next unused entry recorded for a key */
+  private async take(key: string): Promise<CassetteEntry | undefined> {
+    this.entries ??= this.loadEntries();
+    return (await this.entries).get(key)?.shift();
+  }
+
+  private async loadEntries(): Promise<Map<string, CassetteEntry[]>> {
+    let data: string;
+    try {
+      data = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      throw new Error(`Cannot replay: cassette ${this.path} could not be read`, { cause: error });
+    }
+    const entries = new Map<string, CassetteEntry[]>();
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as CassetteEntry;
+      const queue = entries.get(entry.key) ?? [];
+      queue.push(entry);
+      entries.set(entry.key, queue);
+    }
+    return entries;
+  }
+
+  /** Append an entry, starting a fresh cassette on the first one; writes are serialized to keep lines whole */
+  private record(entry: CassetteEntry): Promise<void> {
+    const isFirst = !this.recording;
+    this.recording = true;
+    const line = JSON.stringify(entry) + '\n';
+    this.writes = this.writes.then(async () => {
+      if (isFirst) {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(this.path, line);
+      } else {
+        await appendFile(this.path, line);
+      }
+    });
+    return this.writes;
+  }
+}
+
+/**
+ * Stable key for a generate() request: a hash of its messages and tool schemas
+ * Token usage is left out, so replayed responses match however their usage was reported.
+ */
+export function requestKey(messages: ChatMessage[], tools: Map<string, Tool>): string {
+  const normalizedMessages = messages.map((message) => {
+    if (message.role !== 'assistant') return message;
+    const { tokenUsage: _tokenUsage, ...rest } = message;
+    return rest;
+  });
+  const normalizedTools = [...tools.values()]
+    .map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters ? zodToJsonSchema(tool.parameters) : null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return hash({ messages: normalizedMessages, tools: normalizedTools });
+}
+
+/** Stable key for a tool call: a hash of its tool name and arguments */
+function toolKey(toolCall: ToolCall): string {
+  return hash({ tool: toolCall.name, arguments: toolCall.arguments });
+}
+
+/** Hash of a value's JSON with object keys sorted, so key order does not change the key */
+function hash(value: unknown): string {
+  const json = JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+  return createHash('sha256').update(json).digest('hex').substring(0, 16);
+}
@@ -0,0 +1,277 @@
+/**
+ * Scripted LLM client - deterministic model responses for testing agents without a provider
+ */
+
+import type {
+  AssistantMessage,
+  ChatMessage,
+  GenerateOptions,
+  LLMClient,
+  LLMStreamEvent,
+  TokenUsage,
+  Tool,
+  ToolCall,
+} from '../core/models.js';
+import { ContextOverflowError, contentToText } from '../core/models.js';
+import { createHeuristicTokenEstimator } from '../core/token-estimator.js';
+import { FINISH_TOOL_NAME } from '../constants.js';
+
+/**
+ * A generate() call recorded by ScriptedClient
+ */
+export interface ScriptedRequest {
+  /** Position of the request, starting at 0 */
+  index: number;
+  /** Messages sent (a copy of the array) */
+  messages: ChatMessage[];
+  /** Tools offered to the model */
+  tools: Map<string, Tool>;
+  /** Estimated input tokens of the request */
+  inputTokens: number;
+}
+
+/**
+ * What the client does for a request: reply with a message, throw an error, or decide from the request
+ */
+export type ScriptedResponse =
+  | AssistantMessage
+  | Error
+  | ((request: ScriptedRequest) => AssistantMessage | Error | Promise<AssistantMessage | Error>);
+
+/**
+ * Response used for requests that match a predicate, instead of the next queued response
+ */
+export interface ResponseMatcher {
+  /** Whether this matcher handles the request */
+  match: (request: ScriptedRequest) => boolean;
+  /** Response for matching requests */
+  response: ScriptedResponse;
+  /** Number of requests this matcher handles before it is used up (default: unlimited) */
+  times?: number;
+}
+
+/**
+ * Configuration for ScriptedClient
+ */
+export interface ScriptedClientConfig {
+  /** Responses returned in order, one per request */
+  responses?: ScriptedResponse[];
+
+  /** Matchers checked, in order, before the queue */
+  matchers?: ResponseMatcher[];
+
+  /** Response once the queue is empty and no matcher applies (default: throw an error) */
+  fallback?: ScriptedResponse;
+
+  /** Model identifier (default: 'scripted-model') */
+  modelSlug?: string;
+
+  /** Context window size in tokens (default: 128000) */
+  maxTokens?: number;
+
+  /**
+   * Throw ContextOverflowError when a request is estimated to exceed this many input tokens, like a provider
+   * rejecting an over-long request (default: never)
+   */
+  overflowAt?: number;
+
+  /**
+   * Token usage reported for responses without their own `tokenUsage`
+   * By default input is the request's estimated size and output the response's, at about 4 characters per token.
+   * Pass false to report no usage.
+   */
+  tokenUsage?: false | TokenUsage | ((request: ScriptedRequest, response: AssistantMessage) => TokenUsage);
+}
+
+/**
+ * LLM client that replays scripted responses and records every request
+ * Responses come from matchers first, then the queue, then the fallback. Errors (e.g. a ContextOverflowError)
+ * are thrown from generate() instead of returned, and every request is recorded in `requests`, including
+ * rejected ones.
+ *
+ * @example
+ * ```typescript
+ * const client = new ScriptedClient({
+ *   responses: [callTool('calculator', { expression: '2 + 2' }), finish({ reason: '4', paths: [] })],
+ * });
+ * const agent = new Agent({ client, tools: [CALCULATOR_TOOL], finishTool: SIMPLE_FINISH_TOOL });
+ * const result = await agent.run('What is 2 + 2?');
+ * assertToolCalls(result, ['calculator', 'finish']);
+ * expect(client.requests[1].messages.at(-1)).toMatchObject({ role: 'tool', content: '4' });
+ * ```
+ */
+export class ScriptedClient implements LLMClient {
+  readonly modelSlug: string;
+  readonly maxTokens: number;
+
+  /** Every generate() call so far, in order */
+  readonly requests: ScriptedRequest[] = [];
+
+  private queue: ScriptedResponse[];
+  private matchers: Array<ResponseMatcher & { used: number }>;
+  private fallback?: ScriptedResponse;
+  private overflowAt?: number;
+  private tokenUsage: ScriptedClientConfig['tokenUsage'];
+  private estimator = createHeuristicTokenEstimator();
+
+  constructor(config: ScriptedClientConfig = {}) {
+    this.modelSlug = config.modelSlug ?? 'scripted-model';
+    this.maxTokens = config.maxTokens ?? 128_000;
+    this.queue = [...(config.responses ?? [])];
+    this.matchers = (config.matchers ?? []).map((matcher) => ({ ...matcher, used: 0 }));
+    this.fallback = config.fallback;
+    this.overflowAt = config.overflowAt;
+    this.tokenUsage = config.tokenUsage;
+  }
+
+  /** Queue more responses */
+  push(...responses: ScriptedResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /** Add a matcher, checked after the existing ones */
+  when(match: ResponseMatcher['match'], response: ScriptedResponse, times?: number): this {
+    this.matchers.push({ match, response, times, used: 0 });
+    return this;
+  }
+
+  /** Number of queued responses not yet used */
+  get remaining(): number {
+    return this.queue.length;
+  }
+
+  /** The most recent request, if any */
+  get lastRequest(): ScriptedRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  async generate(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): Promise<AssistantMessage> {
+    options?.signal?.throwIfAborted();
+
+    const request: ScriptedRequest = {
+      index: this.requests.length,
+      messages: [...messages],
+      tools,
+      inputTokens: this.estimator.countRequest(messages, tools),
+    };
+    this.requests.push(request);
+
+    if (this.overflowAt !== undefined && request.inputTokens > this.overflowAt) {
+      throw new ContextOverflowError(
+        `Request of about ${request.inputTokens} tokens exceeds the scripted limit of ${this.overflowAt}`
+      );
+    }
+
+    const scripted = this.nextResponse(request);
+    const response = typeof scripted === 'function' ? await scripted(request) : scripted;
+    if (response instanceof Error) {
+      throw response;
+    }
+    return this.withTokenUsage(request, response);
+  }
+
+  /** Streams the scripted response as a single text delta and one delta per tool call */
+  async *generateStream(
+    messages: ChatMessage[],
+    tools: Map<string, Tool>,
+    options?: GenerateOptions
+  ): AsyncIterable<LLMStreamEvent> {
+    const message = await this.generate(messages, tools, options);
+    const text = contentToText(message.content);
+    if (text) {
+      yield { type: 'text:delta', delta: text };
+    }
+    for (const [index, call] of (message.toolCalls ?? []).entries()) {
+      yield {
+        type: 'tool_call:delta',
+        index,
+        toolCallId: call.toolCallId,
+        name: call.name,
+        argumentsDelta: call.arguments,
+      };
+    }
+    yield { type: 'done', message };
+  }
+
+  private nextResponse(request: ScriptedRequest): ScriptedResponse {
+    for (const matcher of this.matchers) {
+      if ((matcher.times === undefined || matcher.used < matcher.times) && matcher.match(request)) {
+        matcher.used++;
+        return matcher.response;
+      }
+    }
+    const queued = this.queue.shift();
+    if (queued) return queued;
+    if (this.fallback) return this.fallback;
+    throw new Error(`ScriptedClient has no response for request ${request.index}: the script is exhausted`);
+  }
+
+  private withTokenUsage(request: ScriptedRequest, response: AssistantMessage): AssistantMessage {
+    if (response.tokenUsage || this.tokenUsage === false) {
+      return response;
+    }
+    if (typeof this.tokenUsage === 'function') {
+      return { ...response, tokenUsage: this.tokenUsage(request, response) };
+    }
+    if (this.tokenUsage) {
+      return { ...response, tokenUsage: this.tokenUsage };
+    }
+    const output = this.estimator.countRequest([response]);
+    return { ...response, tokenUsage: { input: request.inputTokens, output } };
+  }
+}
+
+// ============================================================================
+// Response builders
+// ============================================================================
+
+let toolCallCounter = 0;
+
+/** Assistant message with text and no tool calls */
+export function reply(content: string): AssistantMessage {
+  return { role: 'assistant', content };
+}
+
+/**
+ * Assistant message calling one tool
+ * @param args Tool arguments, serialized to JSON (strings are sent as they are, e.g. to script invalid JSON)
+ * @param options.content Text accompanying the call
+ * @param options.toolCallId Call ID (default: a unique 'call_scripted_N')
+ */
+export function callTool(
+  name: string,
+  args: unknown = {},
+  options: { content?: string; toolCallId?: string } = {}
+): AssistantMessage {
+  return callTools([{ name, args, toolCallId: options.toolCallId }], options.content);
+}
+
+/**
+ * Assistant message calling several tools in one turn
+ * @param calls Tool names with their arguments (serialized like callTool)
+ * @param content Text accompanying the calls
+ */
+export function callTools(
+  calls: Array<{ name: string; args?: unknown; toolCallId?: string }>,
+  content: string = ''
+): AssistantMessage {
+  const toolCalls: ToolCall[] = calls.map((call) => ({
+    name: call.name,
+    arguments: typeof call.args === 'string' ? call.args : JSON.stringify(call.args ?? {}),
+    toolCallId: call.toolCallId ?? `call_scripted_${++toolCallCounter}`,
+  }));
+  return { role: 'assistant', content, toolCalls };
+}
+
+/**
+ * Assistant message calling the finish tool
+ * @param params Finish parameters (default: the SIMPLE_FINISH_TOOL shape with no files)
+ */
+export function finish(params: unknown = { reason: 'Task complete', paths: [] }): AssistantMessage {
+  return callTool(FINISH_TOOL_NAME, params);
+}
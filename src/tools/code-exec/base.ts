@@ -5,6 +5,8 @@
 import { z } from 'zod';
 import type { Tool, BaseTool, ToolProvider, ToolResult } from '../../core/models.js';
 import { ToolUseCountMetadata } from '../../core/models.js';
+import { truncateMiddle } from '../../core/tool-output.js';
+import { ImageContent } from '../../content/image.js';
 
 /**
  * Parameters for code execution
@@ -15,6 +17,15 @@ export const CodeExecutionParamsSchema = z.object({
 
 export type CodeExecutionParams = z.infer<typeof CodeExecutionParamsSchema>;
 
+/**
+ * Parameters for viewing an image
+ */
+export const ViewImageParamsSchema = z.object({
+  path: z.string().describe('Path of the image file in the execution environment'),
+});
+
+export type ViewImageParams = z.infer<typeof ViewImageParamsSchema>;
+
 /**
  * Result of command execution
  */
@@ -26,6 +37,16 @@ export interface CommandResult {
   advice?: string;
 }
 
+/**
+ * Options for a single runCommand() call
+ */
+export interface RunCommandOptions {
+  /** Kills the command when aborted; the call then rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Called with each complete line of output as the command runs (without the trailing newline) */
+  onOutput?: (stream: 'stdout' | 'stderr', line: string) => void;
+}
+
 /**
  * Information about a saved file
  */
@@ -59,7 +80,7 @@ export abstract class CodeExecToolProvider implements ToolProvider {
   abstract [Symbol.asyncDispose](): Promise<void>;
 
   async getTools(): Promise<BaseTool[]> {
-    return [this.getCodeExecTool()];
+    return [this.getCodeExecTool(), this.getViewImageTool()];
   }
 
   /**
@@ -71,7 +92,8 @@ export abstract class CodeExecToolProvider implements ToolProvider {
       description:
         this.description ?? 'Execute shell commands in a sandboxed environment. Returns stdout, stderr, and exit code.',
       parameters: CodeExecutionParamsSchema,
-      executor: async (params): Promise<ToolResult<ToolUseCountMetadata>> => {
+      concurrency: 'exclusive',
+      executor: async (params, ctx): Promise<ToolResult<ToolUseCountMetadata>> => {
         try {
           if (this.allowedCommands) {
             const isAllowed = this.allowedCommands.some((regex) => regex.test(params.cmd));
@@ -89,7 +111,10 @@ export abstract class CodeExecToolProvider implements ToolProvider {
             }
           }
 
-          const result = await this.runCommand(params.cmd);
+          const result = await this.runCommand(params.cmd, undefined, {
+            signal: ctx.signal,
+            onOutput: (stream, line) => ctx.reportProgress({ output: { stream, text: line } }),
+          });
 
           const content = this.formatResult(result);
 
@@ -98,6 +123,7 @@ export abstract class CodeExecToolProvider implements ToolProvider {
             metadata: new ToolUseCountMetadata(1),
           };
         } catch (error) {
+          ctx.signal?.throwIfAborted();
           const errorMsg = error instanceof Error ? error.message : String(error);
           return {
             content: this.formatError({
@@ -113,11 +139,43 @@ export abstract class CodeExecToolProvider implements ToolProvider {
     };
   }
 
+  /**
+   * Create the view_image tool
+   * Returns the image as an image content block, e.g. so the model can look at a plot it just saved
+   */
+  protected getViewImageTool(): Tool<typeof ViewImageParamsSchema, ToolUseCountMetadata> {
+    return {
+      name: 'view_image',
+      description:
+        'View an image file from the execution environment (PNG, JPEG, GIF, WebP, ...). Large images are downscaled.',
+      parameters: ViewImageParamsSchema,
+      executor: async (params): Promise<ToolResult<ToolUseCountMetadata>> => {
+        try {
+          const image = await ImageContent.fromBuffer(await this.readFileBytes(params.path));
+          return {
+            content: [`Image ${params.path}:`, { type: 'image', data: await image.toBase64URL() }],
+            metadata: new ToolUseCountMetadata(1),
+          };
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          return {
+            content: `Error: could not view image ${params.path}: ${errorMsg}`,
+            metadata: new ToolUseCountMetadata(1),
+            success: false,
+          };
+        }
+      },
+    };
+  }
+
   /**
    * Execute a command in the environment
    * Must be implemented by subclasses
+   * @param cmd Shell command
+   * @param timeout Time limit (ms), defaulting to the provider's own
+   * @param options Cancellation signal and live output callback
    */
-  abstract runCommand(cmd: string, timeout?: number): Promise<CommandResult>;
+  abstract runCommand(cmd: string, timeout?: number, options?: RunCommandOptions): Promise<CommandResult>;
 
   /**
    * Read file contents as bytes
@@ -333,10 +391,29 @@ export abstract class CodeExecToolProvider implements ToolProvider {
    * to preserve error messages that typically appear at the end
    */
   protected truncate(content: string, maxLength: number): string {
-    if (content.length <= maxLength) {
-      return content;
-    }
-    const half = Math.floor(maxLength / 2);
-    return content.substring(0, half) + '\n\n[... output truncated ...]\n\n' + content.substring(content.length - half);
+    return truncateMiddle(content, maxLength);
   }
 }
+
+/**
+ * Split streamed output chunks into lines for RunCommandOptions.onOutput
+ * Partial lines are held until their newline arrives or flush() is called when the command ends.
+ */
+export function createLineSplitter(
+  stream: 'stdout' | 'stderr',
+  onOutput?: (stream: 'stdout' | 'stderr', line: string) => void
+): { write(chunk: string): void; flush(): void } {
+  let pending = '';
+  return {
+    write(chunk) {
+      if (!onOutput) return;
+      const lines = (pending + chunk).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) onOutput(stream, line);
+    },
+    flush() {
+      if (onOutput && pending) onOutput(stream, pending);
+      pending = '';
+    },
+  };
+}
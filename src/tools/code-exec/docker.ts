@@ -5,10 +5,15 @@
 
 import type Docker from 'dockerode';
 import { mkdtemp, rm, mkdir, readFile, writeFile, stat } from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { tmpdir } from 'os';
 import { join, dirname, resolve, relative, isAbsolute } from 'path';
-import { CodeExecToolProvider, type CommandResult } from './base.js';
+import { CodeExecToolProvider, createLineSplitter, type CommandResult, type RunCommandOptions } from './base.js';
 import { DEFAULT_COMMAND_TIMEOUT } from '../../constants.js';
+import { abortReason } from '../../utils/concurrency.js';
+
+/** Env var tagging the processes of one runCommand() call */
+const EXEC_ID_ENV = 'STIRRUP_EXEC_ID';
 
 let _Docker: typeof Docker | undefined;
 async function getDocker(): Promise<typeof Docker> {
@@ -131,15 +136,26 @@ export class DockerCodeExecToolProvider extends CodeExecToolProvider {
     return super.getTools();
   }
 
-  async runCommand(cmd: string, timeout: number = DEFAULT_COMMAND_TIMEOUT): Promise<CommandResult> {
+  async runCommand(
+    cmd: string,
+    timeout: number = DEFAULT_COMMAND_TIMEOUT,
+    options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
     if (!this.container) {
       throw new Error('Container not initialized');
     }
+    const { signal, onOutput } = options;
+    signal?.throwIfAborted();
+
+    // Docker cannot kill an exec, so tag its processes with an env var that a cancel can find them by
+    const execId = randomUUID();
+    let onAbort: (() => void) | undefined;
 
     try {
       // Execute command in container
       const exec = await this.container.exec({
         Cmd: ['/bin/sh', '-c', cmd],
+        Env: [`${EXEC_ID_ENV}=${execId}`],
         AttachStdout: true,
         AttachStderr: true,
         WorkingDir: this.config.workingDir,
@@ -150,6 +166,8 @@ export class DockerCodeExecToolProvider extends CodeExecToolProvider {
 
       let stdout = '';
       let stderr = '';
+      const stdoutLines = createLineSplitter('stdout', onOutput);
+      const stderrLines = createLineSplitter('stderr', onOutput);
 
       // Collect output with timeout
       const outputPromise = new Promise<void>((resolve) => {
@@ -158,21 +176,38 @@ export class DockerCodeExecToolProvider extends CodeExecToolProvider {
           {
             write: (chunk: Buffer) => {
               stdout += chunk.toString();
+              stdoutLines.write(chunk.toString());
             },
           } as any,
           {
             write: (chunk: Buffer) => {
               stderr += chunk.toString();
+              stderrLines.write(chunk.toString());
             },
           } as any
         );
 
-        stream.on('end', resolve);
+        stream.on('end', () => {
+          stdoutLines.flush();
+          stderrLines.flush();
+          resolve();
+        });
+      });
+
+      const abortPromise = new Promise<never>((_, reject) => {
+        onAbort = () => {
+          reject(abortReason(signal));
+          stream.destroy();
+          void this.killExec(execId);
+        };
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort, { once: true });
       });
 
-      // Race between output collection and timeout
+      // Race between output collection, timeout and cancellation
       await Promise.race([
         outputPromise,
+        abortPromise,
         new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), timeout)),
       ]);
 
@@ -186,6 +221,8 @@ export class DockerCodeExecToolProvider extends CodeExecToolProvider {
         stderr,
       };
     } catch (error: any) {
+      signal?.throwIfAborted();
+
       if (error.message === 'timeout') {
         return {
           exitCode: -1,
@@ -202,6 +239,30 @@ export class DockerCodeExecToolProvider extends CodeExecToolProvider {
         stderr: error.message || String(error),
         errorKind: 'execution_error',
       };
+    } finally {
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Kill every process started by a runCommand() exec, found by its EXEC_ID_ENV tag
+   */
+  private async killExec(execId: string): Promise<void> {
+    if (!this.container) {
+      return;
+    }
+    try {
+      const exec = await this.container.exec({
+        Cmd: [
+          '/bin/sh',
+          '-c',
+          `for f in $(grep -l "${EXEC_ID_ENV}=$0" /proc/[0-9]*/environ 2>/dev/null); do p=\${f#/proc/}; kill -9 \${p%/environ} 2>/dev/null; done`,
+          execId,
+        ],
+      });
+      await exec.start({ Detach: true });
+    } catch {
+      /* container may already be gone */
     }
   }
 
@@ -4,7 +4,7 @@
  */
 
 import type { Sandbox } from '@e2b/code-interpreter';
-import { CodeExecToolProvider, type CommandResult } from './base.js';
+import { CodeExecToolProvider, createLineSplitter, type CommandResult, type RunCommandOptions } from './base.js';
 import { DEFAULT_E2B_TIMEOUT } from '../../constants.js';
 
 let _Sandbox: typeof Sandbox | undefined;
@@ -82,14 +82,30 @@ export class E2BCodeExecToolProvider extends CodeExecToolProvider {
     return super.getTools();
   }
 
-  async runCommand(cmd: string, _timeout?: number): Promise<CommandResult> {
+  async runCommand(cmd: string, _timeout?: number, options: RunCommandOptions = {}): Promise<CommandResult> {
     if (!this.sandbox) {
       throw new Error('Sandbox not initialized');
     }
+    const { signal, onOutput } = options;
+    signal?.throwIfAborted();
 
+    let onAbort: (() => void) | undefined;
     try {
-      // Execute shell command
-      const result = await this.sandbox.commands.run(cmd);
+      // Start in the background so the command can be killed if the run is cancelled
+      const stdoutLines = createLineSplitter('stdout', onOutput);
+      const stderrLines = createLineSplitter('stderr', onOutput);
+      const handle = await this.sandbox.commands.run(cmd, {
+        background: true,
+        signal,
+        onStdout: (data) => stdoutLines.write(data),
+        onStderr: (data) => stderrLines.write(data),
+      });
+      onAbort = () => void handle.kill();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const result = await handle.wait();
+      stdoutLines.flush();
+      stderrLines.flush();
+      signal?.throwIfAborted();
 
       return {
         exitCode: result.exitCode,
@@ -98,6 +114,8 @@ export class E2BCodeExecToolProvider extends CodeExecToolProvider {
         errorKind: result.exitCode !== 0 ? 'execution_error' : undefined,
       };
     } catch (error: any) {
+      signal?.throwIfAborted();
+
       // Handle timeout
       if (error.message?.includes('timeout')) {
         return {
@@ -115,6 +133,8 @@ export class E2BCodeExecToolProvider extends CodeExecToolProvider {
         stderr: error.message || String(error),
         errorKind: 'execution_error',
       };
+    } finally {
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
     }
   }
 
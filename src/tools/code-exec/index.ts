@@ -6,7 +6,10 @@ export {
   CodeExecToolProvider,
   CodeExecutionParamsSchema,
   type CodeExecutionParams,
+  ViewImageParamsSchema,
+  type ViewImageParams,
   type CommandResult,
+  type RunCommandOptions,
 } from './base.js';
 export { LocalCodeExecToolProvider } from './local.js';
 export { DockerCodeExecToolProvider, type DockerCodeExecConfig } from './docker.js';
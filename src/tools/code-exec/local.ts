@@ -7,7 +7,13 @@ import { execa } from 'execa';
 import { mkdtemp, rm, mkdir, readFile, writeFile, stat } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join, dirname } from 'path';
-import { CodeExecToolProvider, type CommandResult, type SaveOutputFilesResult } from './base.js';
+import {
+  CodeExecToolProvider,
+  createLineSplitter,
+  type CommandResult,
+  type RunCommandOptions,
+  type SaveOutputFilesResult,
+} from './base.js';
 import { DEFAULT_COMMAND_TIMEOUT } from '../../constants.js';
 
 /**
@@ -42,28 +48,48 @@ export class LocalCodeExecToolProvider extends CodeExecToolProvider {
     return super.getTools();
   }
 
-  async runCommand(cmd: string, timeout: number = DEFAULT_COMMAND_TIMEOUT): Promise<CommandResult> {
+  async runCommand(
+    cmd: string,
+    timeout: number = DEFAULT_COMMAND_TIMEOUT,
+    options: RunCommandOptions = {}
+  ): Promise<CommandResult> {
     if (!this.tempDir) {
       throw new Error('Temp directory not initialized');
     }
+    const { signal, onOutput } = options;
+    signal?.throwIfAborted();
+
+    // The command gets its own process group so a cancel or timeout also kills anything it started
+    const subprocess = execa('bash', ['-c', cmd], {
+      cwd: this.tempDir,
+      reject: false, // Don't throw on non-zero exit
+      all: true,
+      detached: true,
+    });
+    const { pid } = subprocess;
+    trackProcessGroup(pid);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessGroup(pid);
+    }, timeout);
+    const onAbort = () => killProcessGroup(pid);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const stdoutLines = createLineSplitter('stdout', onOutput);
+    const stderrLines = createLineSplitter('stderr', onOutput);
+    if (onOutput) {
+      subprocess.stdout?.on('data', (chunk: Buffer) => stdoutLines.write(chunk.toString()));
+      subprocess.stderr?.on('data', (chunk: Buffer) => stderrLines.write(chunk.toString()));
+    }
 
     try {
-      // Execute command with execa
-      const result = await execa('bash', ['-c', cmd], {
-        cwd: this.tempDir,
-        timeout,
-        reject: false, // Don't throw on non-zero exit
-        all: true,
-      });
+      const result = await subprocess;
+      stdoutLines.flush();
+      stderrLines.flush();
+      signal?.throwIfAborted();
 
-      return {
-        exitCode: result.exitCode ?? 0,
-        stdout: result.stdout,
-        stderr: result.stderr,
-      };
-    } catch (error: any) {
-      // Handle timeout
-      if (error.killed && error.signal === 'SIGTERM') {
+      if (timedOut) {
         return {
           exitCode: -1,
           stdout: '',
@@ -73,13 +99,24 @@ export class LocalCodeExecToolProvider extends CodeExecToolProvider {
         };
       }
 
-      // Other errors
+      return {
+        exitCode: result.exitCode ?? 0,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      };
+    } catch (error: any) {
+      signal?.throwIfAborted();
+
       return {
         exitCode: -1,
         stdout: '',
         stderr: error.message || String(error),
         errorKind: 'execution_error',
       };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      untrackProcessGroup(pid);
     }
   }
 
@@ -225,3 +262,65 @@ export class LocalCodeExecToolProvider extends CodeExecToolProvider {
     return result;
   }
 }
+
+/** Process groups of commands still running, killed if this process exits first */
+const runningGroups = new Set<number>();
+
+/**
+ * Kill every running command's process group, since detached commands outlive this process otherwise
+ */
+function killRunningGroups(): void {
+  for (const pid of runningGroups) {
+    killProcessGroup(pid);
+  }
+}
+
+/**
+ * Kill running commands on Ctrl+C or SIGTERM, which no longer reach them directly
+ * The signal is raised again when nothing else handles it, so the default exit still happens.
+ */
+function onTerminationSignal(signal: NodeJS.Signals): void {
+  killRunningGroups();
+  runningGroups.clear();
+  stopWatchingParent();
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+/** Record a running command, watching for this process exiting while the first one runs */
+function trackProcessGroup(pid: number | undefined): void {
+  if (pid === undefined) return;
+  if (runningGroups.size === 0) {
+    process.on('exit', killRunningGroups);
+    process.on('SIGINT', onTerminationSignal);
+    process.on('SIGTERM', onTerminationSignal);
+  }
+  runningGroups.add(pid);
+}
+
+/** Forget a finished command, and stop watching this process once none are running */
+function untrackProcessGroup(pid: number | undefined): void {
+  if (pid !== undefined && runningGroups.delete(pid) && runningGroups.size === 0) {
+    stopWatchingParent();
+  }
+}
+
+/** Remove the exit and signal listeners */
+function stopWatchingParent(): void {
+  process.off('exit', killRunningGroups);
+  process.off('SIGINT', onTerminationSignal);
+  process.off('SIGTERM', onTerminationSignal);
+}
+
+/**
+ * Kill a detached command and every process in its group
+ */
+function killProcessGroup(pid: number | undefined): void {
+  if (pid === undefined) return;
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    /* already exited */
+  }
+}
@@ -5,7 +5,6 @@
 import { z } from 'zod';
 import type { Tool, ToolResult } from '../core/models.js';
 import { ToolUseCountMetadata } from '../core/models.js';
-import { sessionContext } from '../core/session.js';
 
 /**
  * Parameters for the finish tool
@@ -52,13 +51,13 @@ export const SIMPLE_FINISH_TOOL: Tool<typeof FinishParamsSchema, ToolUseCountMet
   description:
     'Signal that the task is complete. You MUST include any files you created or modified in the paths parameter.',
   parameters: FinishParamsSchema,
-  executor: async (params): Promise<ToolResult<ToolUseCountMetadata>> => {
+  concurrency: 'exclusive',
+  executor: async (params, ctx): Promise<ToolResult<ToolUseCountMetadata>> => {
     const paths = params.paths;
 
     // Validate that reported output files actually exist
     if (paths.length > 0) {
-      const state = sessionContext.get();
-      const execEnv = state?.execEnv;
+      const execEnv = ctx.execEnv;
 
       if (execEnv) {
         const missingFiles: string[] = [];
@@ -157,13 +157,17 @@ export class MCPToolProvider implements ToolProvider {
       name: toolName,
       description: mcpTool.description || `MCP tool: ${mcpTool.name}`,
       parameters: zodSchema,
-      executor: async (params): Promise<ToolResult<ToolUseCountMetadata>> => {
+      executor: async (params, ctx): Promise<ToolResult<ToolUseCountMetadata>> => {
         try {
-          // Call MCP tool
-          const result = await client.callTool({
-            name: mcpTool.name,
-            arguments: params as Record<string, unknown>,
-          });
+          // Call MCP tool; aborting sends a cancellation notification to the server
+          const result = await client.callTool(
+            {
+              name: mcpTool.name,
+              arguments: params as Record<string, unknown>,
+            },
+            undefined,
+            { signal: ctx.signal }
+          );
 
           // Format response as XML
           let content = '<mcp_result>\n';
@@ -187,6 +191,7 @@ export class MCPToolProvider implements ToolProvider {
             metadata: new ToolUseCountMetadata(1),
           };
         } catch (error) {
+          ctx.signal?.throwIfAborted();
           const errorMsg = error instanceof Error ? error.message : String(error);
           return {
             content: `<mcp_error>${errorMsg}</mcp_error>`,
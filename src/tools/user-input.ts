@@ -59,6 +59,7 @@ export const USER_INPUT_TOOL: Tool<typeof UserInputParamsSchema, ToolUseCountMet
     "'choice' (pick from a list of choices), and 'confirm' (yes/no). Returns the user's response. " +
     'There should only EVER be one question per call to this tool. If you need multiple questions, call this tool multiple times.',
   parameters: UserInputParamsSchema,
+  concurrency: 'exclusive',
   executor: async (params): Promise<ToolResult<ToolUseCountMetadata>> => {
     // Separate prompt from any prior output (e.g. structured logs)
     process.stdout.write('\n');
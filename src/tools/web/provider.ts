@@ -3,12 +3,12 @@
  */
 
 import axios, { type AxiosInstance } from 'axios';
-import retry from 'async-retry';
 import * as cheerio from 'cheerio';
 import TurndownService from 'turndown';
 import { z } from 'zod';
 import type { Tool, BaseTool, ToolProvider, ToolResult } from '../../core/models.js';
-import { MAX_RETRY_ATTEMPTS, RETRY_MIN_TIMEOUT, RETRY_MAX_TIMEOUT, MAX_WEB_CONTENT_LENGTH } from '../../constants.js';
+import { MAX_RETRY_ATTEMPTS, MAX_WEB_CONTENT_LENGTH } from '../../constants.js';
+import { retryRequest } from '../../utils/retry.js';
 
 /**
  * Metadata for web fetch operations
@@ -115,18 +115,19 @@ export class WebToolProvider implements ToolProvider {
       name: 'web_fetch',
       description: 'Fetch and extract the main content from a web page',
       parameters: FetchWebPageParamsSchema,
-      executor: async (params): Promise<ToolResult<WebFetchMetadata>> => {
+      executor: async (params, ctx): Promise<ToolResult<WebFetchMetadata>> => {
         try {
           // Validate the URL here rather than in the wire schema, which is
           // serialized to providers (a `.url()` refinement emits format: "uri",
           // which breaks OpenAI strict tool calling).
           new URL(params.url);
-          const content = await this.fetchPage(params.url);
+          const content = await this.fetchPage(params.url, ctx.signal);
           return {
             content,
             metadata: new WebFetchMetadata(1, [params.url]),
           };
         } catch (error) {
+          ctx.signal?.throwIfAborted();
           const errorMsg = error instanceof Error ? error.message : String(error);
           return {
             content: `Error fetching page: ${errorMsg}`,
@@ -145,14 +146,15 @@ export class WebToolProvider implements ToolProvider {
       name: 'web_search',
       description: 'Search the web using Brave Search API',
       parameters: WebSearchParamsSchema,
-      executor: async (params): Promise<ToolResult<WebSearchMetadata>> => {
+      executor: async (params, ctx): Promise<ToolResult<WebSearchMetadata>> => {
         try {
-          const results = await this.searchWeb(params.query);
+          const results = await this.searchWeb(params.query, ctx.signal);
           return {
             content: results.content,
             metadata: new WebSearchMetadata(1, results.count),
           };
         } catch (error) {
+          ctx.signal?.throwIfAborted();
           const errorMsg = error instanceof Error ? error.message : String(error);
           return {
             content: `Error searching: ${errorMsg}`,
@@ -166,21 +168,17 @@ export class WebToolProvider implements ToolProvider {
   /**
    * Fetch and extract content from a web page
    */
-  private async fetchPage(url: string): Promise<string> {
+  private async fetchPage(url: string, signal?: AbortSignal): Promise<string> {
     if (!this.client) {
       throw new Error('HTTP client not initialized');
     }
 
     // Fetch with retry
-    const response = await retry(
+    const response = await retryRequest(
       async () => {
-        return await this.client!.get(url);
+        return await this.client!.get(url, { signal });
       },
-      {
-        retries: MAX_RETRY_ATTEMPTS,
-        minTimeout: RETRY_MIN_TIMEOUT,
-        maxTimeout: RETRY_MAX_TIMEOUT,
-      }
+      { retries: MAX_RETRY_ATTEMPTS, signal }
     );
 
     const html = response.data as string;
@@ -236,13 +234,13 @@ export class WebToolProvider implements ToolProvider {
   /**
    * Search the web using Brave Search API
    */
-  private async searchWeb(query: string): Promise<{ content: string; count: number }> {
+  private async searchWeb(query: string, signal?: AbortSignal): Promise<{ content: string; count: number }> {
     if (!this.client || !this.braveApiKey) {
       throw new Error('Search not available (missing API key)');
     }
 
     // Call Brave Search API
-    const response = await retry(
+    const response = await retryRequest(
       async () => {
         return await this.client!.get('https://api.search.brave.com/res/v1/web/search', {
           params: { q: query, count: 5 },
@@ -250,13 +248,10 @@ export class WebToolProvider implements ToolProvider {
             'X-Subscription-Token': this.braveApiKey,
             Accept: 'application/json',
           },
+          signal,
         });
       },
-      {
-        retries: MAX_RETRY_ATTEMPTS,
-        minTimeout: RETRY_MIN_TIMEOUT,
-        maxTimeout: RETRY_MAX_TIMEOUT,
-      }
+      { retries: MAX_RETRY_ATTEMPTS, signal }
     );
 
     const data = response.data as {
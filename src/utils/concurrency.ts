@@ -0,0 +1,110 @@
+/**
+ * Concurrency helpers for running async work with a bounded number of in-flight tasks
+ */
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ * Results are returned in input order regardless of completion order
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls (values below 1 are treated as 1)
+ * @param fn Async function applied to each item
+ * @returns Results in the same order as items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
+
+/**
+ * Total length covered by a set of possibly overlapping [start, end] intervals
+ * Used to compute wall-clock time for work that ran concurrently
+ */
+export function intervalUnionLength(intervals: ReadonlyArray<readonly [number, number]>): number {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let currentStart: number | undefined;
+  let currentEnd = 0;
+
+  for (const [start, end] of sorted) {
+    if (currentStart === undefined || start > currentEnd) {
+      if (currentStart !== undefined) total += currentEnd - currentStart;
+      currentStart = start;
+      currentEnd = end;
+    } else {
+      currentEnd = Math.max(currentEnd, end);
+    }
+  }
+
+  if (currentStart !== undefined) total += currentEnd - currentStart;
+  return total;
+}
+
+/**
+ * Error for an aborted signal: its reason, wrapped in an Error if it is not one
+ */
+export function abortReason(signal?: AbortSignal): Error {
+  const reason: unknown = signal?.reason;
+  return reason instanceof Error ? reason : new Error(String(reason));
+}
+
+/**
+ * Unbounded async queue bridging concurrent producers to a single `for await` consumer
+ * Iteration ends once close() is called and buffered values are drained; closing with an error rethrows it
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private buffer: T[] = [];
+  private closed = false;
+  private failure?: { error: unknown };
+  private wake?: () => void;
+
+  /** Enqueue a value (ignored after close) */
+  push(value: T): void {
+    if (this.closed) return;
+    this.buffer.push(value);
+    this.notify();
+  }
+
+  /** Stop accepting values; the consumer finishes after draining, or throws `error` if given */
+  close(error?: unknown): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (error !== undefined) this.failure = { error };
+    this.notify();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift() as T;
+        continue;
+      }
+      if (this.closed) {
+        if (this.failure) throw this.failure.error;
+        return;
+      }
+      await new Promise<void>((resolve) => (this.wake = resolve));
+    }
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+}
@@ -3,11 +3,14 @@
  * Provides beautiful, readable logging for agent runs
  */
 const MAX_MESSAGE_LENGTH = 10_000;
+/** Live output lines shown per tool call before further lines are only counted */
+const MAX_PROGRESS_LINES = 20;
 const getTerminalWidth = () => process.stdout.columns || 80;
 import boxen from 'boxen';
 import chalk from 'chalk';
 import pino from 'pino';
 import type { Agent, AgentEvents } from '../../core/agent.js';
+import { describeExhaustion } from '../../core/budget.js';
 
 export interface StructuredLoggerOptions {
   /** Logging level (default: 'info') */
@@ -23,6 +26,15 @@ export interface StructuredLoggerOptions {
   pinoOptions?: pino.LoggerOptions;
 }
 
+/** Format an estimated cost in USD, keeping precision for small amounts */
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/** Format the model of a run, listing generations per model when several were used */
+const formatModels = (modelSlug: string, generationsByModel: Record<string, number> = {}) => {
+  const entries = Object.entries(generationsByModel);
+  return entries.length > 1 ? entries.map(([model, count]) => `${model} (${count})`).join(', ') : modelSlug;
+};
+
 /**
  * Create a console logger with clean, readable output
  * @internal
@@ -35,6 +47,8 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
     currentTurn?: number;
     maxTurns?: number;
   } = {};
+  // Output lines shown so far per tool call in the current turn
+  const outputLineCounts = new Map<string, number>();
 
   // Start handler
   const onRunStart: AgentEvents<FP>['run:start'] = (data) => {
@@ -63,6 +77,7 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
   const onTurnStart: AgentEvents<FP>['turn:start'] = (data) => {
     runData.currentTurn = data.turn + 1;
     runData.maxTurns = data.maxTurns;
+    outputLineCounts.clear();
   };
 
   // Assistant message handler
@@ -168,6 +183,33 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
     }
   };
 
+  // Tool progress handler - rendered live between the tool call and its result
+  const onToolProgress: AgentEvents<FP>['tool:progress'] = (data) => {
+    const prefix = runData.depth && runData.depth > 0 ? `  ${'  '.repeat(runData.depth - 1)}   ` : '';
+    const { message, percent, output, subAgentTurn } = data.progress;
+
+    if (output) {
+      const key = data.toolCallId ?? data.name;
+      const count = (outputLineCounts.get(key) ?? 0) + 1;
+      outputLineCounts.set(key, count);
+      if (count <= MAX_PROGRESS_LINES) {
+        const line = output.text.length > 200 ? output.text.substring(0, 200) + '...' : output.text;
+        console.log(`${prefix}  ${chalk.gray('│')} ${output.stream === 'stderr' ? chalk.red(line) : chalk.gray(line)}`);
+      } else if (count === MAX_PROGRESS_LINES + 1) {
+        console.log(`${prefix}  ${chalk.gray('│ ... (more output in the tool result)')}`);
+      }
+    }
+    if (subAgentTurn) {
+      console.log(
+        `${prefix}  ${chalk.gray(`↳ ${subAgentTurn.agentName} turn ${subAgentTurn.turn + 1}/${subAgentTurn.maxTurns}`)}`
+      );
+    }
+    if (message !== undefined || percent !== undefined) {
+      const percentText = percent !== undefined ? ` (${Math.round(percent)}%)` : '';
+      console.log(`${prefix}  ⏳ ${data.name}: ${message ?? 'working'}${percentText}`);
+    }
+  };
+
   // Turn complete handler
   const onTurnComplete: AgentEvents<FP>['turn:complete'] = (data) => {
     if (data.tokenUsage && (level === 'debug' || level === 'trace')) {
@@ -188,7 +230,9 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
   const onSummarizationStart: AgentEvents<FP>['summarization:start'] = (data) => {
     if (level === 'debug' || level === 'trace') {
       const prefix = runData.depth && runData.depth > 0 ? `  ${'  '.repeat(runData.depth - 1)}   ` : '';
-      console.log(`${prefix}📝 Summarizing context (${Math.round(data.percentUsed * 100)}% used)...`);
+      const cause =
+        data.reason === 'overflow' ? 'context window exceeded' : `${Math.round(data.percentUsed * 100)}% used`;
+      console.log(`${prefix}📝 Summarizing context (${cause})...`);
     }
   };
 
@@ -199,6 +243,14 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
     }
   };
 
+  // Budget handler
+  const onBudgetExhausted: AgentEvents<FP>['budget:exhausted'] = (data) => {
+    const prefix = runData.depth && runData.depth > 0 ? `  ${'  '.repeat(runData.depth - 1)}   ` : '';
+    const grace =
+      data.graceTurns > 0 ? `, wrapping up (${data.graceTurns} turn${data.graceTurns === 1 ? '' : 's'} left)` : '';
+    console.log(`${prefix}💸 Reached ${describeExhaustion(data.exhaustion)}${grace}`);
+  };
+
   // Complete handler
   const onRunComplete: AgentEvents<FP>['run:complete'] = (data) => {
     const duration = Date.now() - (runData.startTime || 0);
@@ -275,9 +327,24 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
 
     // Token Usage section
     const tokenUsage = data.result.runMetadata.token_usage as any;
-    const tokenContent = tokenUsage
-      ? `Input   ${tokenUsage.input.toLocaleString().padStart(10)}\nOutput  ${tokenUsage.output.toLocaleString().padStart(10)}\nTotal   ${tokenUsage.total.toLocaleString().padStart(10)}`
-      : 'No token usage data';
+    const tokenLines = tokenUsage
+      ? [
+          `Input   ${tokenUsage.input.toLocaleString().padStart(10)}`,
+          ...(tokenUsage.cacheRead || tokenUsage.cacheWrite
+            ? [
+                `  cache read  ${tokenUsage.cacheRead.toLocaleString()}`,
+                `  cache write ${tokenUsage.cacheWrite.toLocaleString()}`,
+              ]
+            : []),
+          `Output  ${tokenUsage.output.toLocaleString().padStart(10)}`,
+          `Total   ${tokenUsage.total.toLocaleString().padStart(10)}`,
+        ]
+      : ['No token usage data'];
+    const costUsd = data.result.speedStats?.costUsd;
+    if (costUsd !== undefined) {
+      tokenLines.push(`Cost    ${formatCost(costUsd).padStart(10)}`);
+    }
+    const tokenContent = tokenLines.join('\n');
 
     console.log(
       boxen(tokenContent, {
@@ -296,18 +363,19 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
       const otps = ss.totalGenerationMs > 0 ? (ss.totalOutputTokens / (ss.totalGenerationMs / 1000)).toFixed(1) : 'N/A';
 
       const speedLines = [
-        `Model                     ${ss.modelSlug}`,
+        `Model                     ${formatModels(ss.modelSlug, ss.generationsByModel)}`,
         `OTPS (output tokens/sec)  ${otps}`,
         `Generation time           ${(ss.totalGenerationMs / 1000).toFixed(1)}s (${ss.generationCount} call${ss.generationCount === 1 ? '' : 's'})`,
-        `Tool execution time       ${(ss.totalToolMs / 1000).toFixed(1)}s`,
+        `Tool execution time       ${(ss.totalToolMs / 1000).toFixed(1)}s (${(ss.totalToolWallMs / 1000).toFixed(1)}s wall)`,
       ];
 
       const breakdownEntries = Object.entries(ss.toolBreakdown);
       if (breakdownEntries.length > 0) {
-        const avgDurations = breakdownEntries.map(([name, ms]) => {
+        const avgDurations = breakdownEntries.map(([name, timing]) => {
           const toolMeta = (data.result.runMetadata as any)[name];
           const count = toolMeta?.numUses ?? toolMeta?.num_uses ?? '?';
-          return `  ${name.padEnd(22)} ${(ms / 1000).toFixed(1)}s (${count} call${count === 1 ? '' : 's'})`;
+          const wall = timing.wallMs < timing.totalMs ? `, ${(timing.wallMs / 1000).toFixed(1)}s wall` : '';
+          return `  ${name.padEnd(22)} ${(timing.totalMs / 1000).toFixed(1)}s (${count} call${count === 1 ? '' : 's'}${wall})`;
         });
         speedLines.push('', 'Tool breakdown:', ...avgDurations);
       }
@@ -340,11 +408,13 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
   agent.on('run:start', onRunStart);
   agent.on('turn:start', onTurnStart);
   agent.on('message:assistant', onMessageAssistant);
+  agent.on('tool:progress', onToolProgress);
   agent.on('tool:complete', onToolComplete);
   agent.on('turn:complete', onTurnComplete);
   agent.on('tool:error', onToolError);
   agent.on('summarization:start', onSummarizationStart);
   agent.on('summarization:complete', onSummarizationComplete);
+  agent.on('budget:exhausted', onBudgetExhausted);
   agent.on('run:complete', onRunComplete);
   agent.on('run:error', onRunError);
 
@@ -353,11 +423,13 @@ function createConsoleLogger<FP = unknown>(agent: Agent<any, any>, level: string
     agent.off('run:start', onRunStart);
     agent.off('turn:start', onTurnStart);
     agent.off('message:assistant', onMessageAssistant);
+    agent.off('tool:progress', onToolProgress);
     agent.off('tool:complete', onToolComplete);
     agent.off('turn:complete', onTurnComplete);
     agent.off('tool:error', onToolError);
     agent.off('summarization:start', onSummarizationStart);
     agent.off('summarization:complete', onSummarizationComplete);
+    agent.off('budget:exhausted', onBudgetExhausted);
     agent.off('run:complete', onRunComplete);
     agent.off('run:error', onRunError);
   };
@@ -418,9 +490,11 @@ export function createStructuredLogger<FP = unknown>(
           duration: data.duration,
           messageGroups: data.result.messageHistory.length,
           tokenUsage: data.result.runMetadata.token_usage,
+          costUsd: data.result.speedStats?.costUsd,
           finishParams: data.result.finishParams,
         },
-        `Agent run completed in ${data.duration}ms`
+        `Agent run completed in ${data.duration}ms` +
+          (data.result.speedStats?.costUsd !== undefined ? ` (${formatCost(data.result.speedStats.costUsd)})` : '')
       );
     },
 
@@ -457,6 +531,7 @@ export function createStructuredLogger<FP = unknown>(
           event: 'turn:complete',
           turn: data.turn + 1,
           tokenUsage: data.tokenUsage,
+          model: data.model,
         },
         `Turn ${data.turn + 1} completed`
       );
@@ -522,12 +597,25 @@ export function createStructuredLogger<FP = unknown>(
       );
     },
 
+    'tool:progress': (data) => {
+      logger.debug(
+        {
+          event: 'tool:progress',
+          toolName: data.name,
+          toolCallId: data.toolCallId,
+          progress: data.progress,
+        },
+        `Tool progress: ${data.name}`
+      );
+    },
+
     'summarization:start': (data) => {
       logger.info(
         {
           event: 'summarization:start',
           percentUsed: Math.round(data.percentUsed * 100),
           messageCount: data.messageCount,
+          reason: data.reason,
         },
         `Context summarization started (${Math.round(data.percentUsed * 100)}% used)`
       );
@@ -544,6 +632,17 @@ export function createStructuredLogger<FP = unknown>(
         `Context summarized: ${data.originalCount} → ${data.summaryLength} messages`
       );
     },
+
+    'budget:exhausted': (data) => {
+      logger.warn(
+        {
+          event: 'budget:exhausted',
+          ...data.exhaustion,
+          graceTurns: data.graceTurns,
+        },
+        `Budget exhausted: ${describeExhaustion(data.exhaustion)}`
+      );
+    },
   };
 
   // Register all event handlers
@@ -0,0 +1,59 @@
+/**
+ * Retrying of network requests with exponential backoff and cancellation
+ */
+
+import retry from 'async-retry';
+import { RETRY_MAX_TIMEOUT, RETRY_MIN_TIMEOUT } from '../constants.js';
+import { abortReason } from './concurrency.js';
+
+/**
+ * Options for retryRequest()
+ */
+export interface RetryRequestOptions {
+  /** Maximum number of retry attempts */
+  retries: number;
+  /** Stops the request and any pending retries; the call rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Send a request with exponential-backoff retries
+ * An abort rejects immediately, during the request or while waiting to retry, instead of retrying.
+ * @param request Sends one attempt; should pass the same signal to the underlying SDK or HTTP client
+ */
+export async function retryRequest<T>(request: () => Promise<T>, options: RetryRequestOptions): Promise<T> {
+  const { retries, signal } = options;
+  signal?.throwIfAborted();
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortReason(signal));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const attempts = retry(
+    async (bail) => {
+      try {
+        return await request();
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+        bail(error as Error);
+        return undefined as T;
+      }
+    },
+    {
+      retries,
+      minTimeout: RETRY_MIN_TIMEOUT,
+      maxTimeout: RETRY_MAX_TIMEOUT,
+      onRetry: (error: Error, attempt: number) => {
+        console.warn(`Retry attempt ${attempt} after error:`, error.message);
+      },
+    }
+  );
+
+  try {
+    return await Promise.race([attempts, aborted]);
+  } finally {
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Worker-thread pool for running CPU-heavy tool executors off the event loop
+ */
+
+import { availableParallelism } from 'os';
+import { isAbsolute } from 'path';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import { ToolExecutionError, ToolTimeoutError, type ToolResult, type WorkerExecutor } from '../core/models.js';
+import { abortReason } from './concurrency.js';
+
+/**
+ * Options for the worker pool
+ */
+export interface WorkerPoolOptions {
+  /** Maximum number of worker threads (default: available cores - 1, between 1 and 4) */
+  maxWorkers?: number;
+  /** Default time limit for a single call (ms); the worker is terminated when it is exceeded */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for a single pool call
+ */
+export interface WorkerRunOptions {
+  /** Terminates the worker and rejects with the signal's reason when aborted */
+  signal?: AbortSignal;
+  /** Time limit for this call (ms), overriding the pool default */
+  timeoutMs?: number;
+}
+
+/** Message sent back by a worker after each call */
+type WorkerReply =
+  | { kind: 'result'; result: ToolResult }
+  | { kind: 'error'; message: string }
+  | { kind: 'unsupported'; message: string };
+
+/**
+ * Worker script, evaluated as CommonJS so it runs without a build step
+ * Each call imports the executor module (cached after the first import) and posts back a WorkerReply.
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('node:worker_threads');
+const describe = (error) => (error instanceof Error ? error.message : String(error));
+
+parentPort.on('message', async ({ module, exportName, params }) => {
+  let executor;
+  try {
+    executor = (await import(module))[exportName];
+  } catch (error) {
+    parentPort.postMessage({ kind: 'unsupported', message: 'module ' + module + ' could not be loaded (' + describe(error) + ')' });
+    return;
+  }
+  if (typeof executor !== 'function') {
+    parentPort.postMessage({ kind: 'unsupported', message: 'module ' + module + ' has no function export "' + exportName + '"' });
+    return;
+  }
+
+  let result;
+  try {
+    result = await executor(params);
+  } catch (error) {
+    parentPort.postMessage({ kind: 'error', message: describe(error) });
+    return;
+  }
+
+  try {
+    parentPort.postMessage({ kind: 'result', result });
+  } catch (error) {
+    parentPort.postMessage({ kind: 'unsupported', message: 'its result could not be copied back to the main thread (' + describe(error) + ')' });
+  }
+});
+`;
+
+/**
+ * Pool of worker threads that run tool executors by module path
+ * Workers are started on demand, reused between calls, and do not keep the process alive while idle.
+ * A worker that times out, is aborted or crashes is terminated and replaced.
+ */
+export class WorkerPool implements AsyncDisposable {
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private waiting: Array<{ resolve: (worker: Worker) => void; reject: (error: unknown) => void }> = [];
+  private maxWorkers: number;
+  private timeoutMs?: number;
+  private disposed = false;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.maxWorkers = Math.max(1, options.maxWorkers ?? Math.min(4, availableParallelism() - 1));
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  /**
+   * Run a tool executor in a worker thread
+   * @param toolName Tool name, for error messages
+   * @param executor Module and export to run
+   * @param params Validated tool params (must be structured-cloneable)
+   * @returns The executor's ToolResult
+   * @throws ToolExecutionError when the executor fails, times out or cannot run in a worker
+   */
+  async run(
+    toolName: string,
+    executor: WorkerExecutor,
+    params: unknown,
+    options: WorkerRunOptions = {}
+  ): Promise<ToolResult> {
+    const { signal, timeoutMs = this.timeoutMs } = options;
+    signal?.throwIfAborted();
+
+    const unsupported = (reason: string, cause?: Error) =>
+      new ToolExecutionError(`Tool '${toolName}' cannot run in a worker thread: ${reason}`, toolName, cause);
+
+    const module = resolveModule(executor.module);
+    if (!module) {
+      throw unsupported(`module must be an absolute path or file: URL, got '${String(executor.module)}'`);
+    }
+
+    const worker = await this.acquire(signal);
+
+    return await new Promise<ToolResult>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const settle = (keepWorker: boolean, complete: () => void) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        if (keepWorker) {
+          this.release(worker);
+        } else {
+          this.discard(worker);
+        }
+        complete();
+      };
+
+      const onMessage = (reply: WorkerReply) => {
+        switch (reply.kind) {
+          case 'result':
+            settle(true, () => resolve(reply.result));
+            break;
+          case 'error':
+            settle(true, () => reject(new ToolExecutionError(reply.message, toolName)));
+            break;
+          case 'unsupported':
+            settle(true, () => reject(unsupported(reply.message)));
+            break;
+        }
+      };
+      const onError = (error: Error) => {
+        settle(false, () =>
+          reject(new ToolExecutionError(`Worker thread for '${toolName}' crashed: ${error.message}`, toolName, error))
+        );
+      };
+      const onExit = (code: number) => {
+        settle(false, () =>
+          reject(new ToolExecutionError(`Worker thread for '${toolName}' exited with code ${code}`, toolName))
+        );
+      };
+      const onAbort = () => {
+        settle(false, () => reject(abortReason(signal)));
+      };
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          settle(false, () => reject(new ToolTimeoutError(toolName, timeoutMs)));
+        }, timeoutMs);
+      }
+
+      try {
+        worker.postMessage({ module, exportName: executor.exportName ?? 'default', params });
+      } catch (error) {
+        const cause = error instanceof Error ? error : undefined;
+        settle(true, () =>
+          reject(
+            unsupported(`its params could not be copied to the worker (${cause?.message ?? String(error)})`, cause)
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Terminate all workers; calls still waiting for a worker are rejected
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.disposed = true;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(new Error('Worker pool was disposed'));
+    }
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private acquire(signal?: AbortSignal): Promise<Worker> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Worker pool was disposed'));
+    }
+
+    const idle = this.idle.pop();
+    if (idle) {
+      idle.ref();
+      return Promise.resolve(idle);
+    }
+    if (this.workers.size < this.maxWorkers) {
+      return Promise.resolve(this.spawn());
+    }
+
+    return new Promise<Worker>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((entry) => entry !== waiter);
+        reject(abortReason(signal));
+      };
+      const waiter = {
+        resolve: (worker: Worker) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(worker);
+        },
+        reject,
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(worker: Worker): void {
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve(worker);
+      return;
+    }
+    worker.unref();
+    this.idle.push(worker);
+  }
+
+  private discard(worker: Worker): void {
+    this.workers.delete(worker);
+    void worker.terminate();
+    const waiter = this.waiting.shift();
+    if (waiter && !this.disposed) {
+      waiter.resolve(this.spawn());
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(WORKER_SOURCE, { eval: true });
+    this.workers.add(worker);
+    return worker;
+  }
+}
+
+/**
+ * Normalize an executor module reference to a file URL string
+ * @returns undefined for relative paths, which would resolve differently inside the worker
+ */
+function resolveModule(module: string | URL): string | undefined {
+  if (module instanceof URL) {
+    return module.href;
+  }
+  if (/^(file|data):/.test(module)) {
+    return module;
+  }
+  return isAbsolute(module) ? pathToFileURL(module).href : undefined;
+}
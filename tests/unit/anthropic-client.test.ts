@@ -0,0 +1,197 @@
+/**
+ * Tests for AnthropicClient:
+ * - Prompt caching breakpoints on tools, system prompt and recent messages
+ * - Breakpoint limits, TTL and opting out
+ * - Cache read/write tokens surfaced in TokenUsage
+ * - Extended thinking blocks captured and sent back with their signatures
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { AssistantMessage, ChatMessage, Tool } from '../../src/core/models.js';
+import { AnthropicClient, type AnthropicClientConfig } from '../../src/clients/anthropic-client.js';
+import { toAnthropicMessages } from '../../src/clients/utils.js';
+
+const tools = new Map<string, Tool>([
+  [
+    'search',
+    {
+      name: 'search',
+      description: 'Search',
+      parameters: z.object({ q: z.string() }),
+      executor: () => ({ content: '' }),
+    },
+  ],
+  [
+    'fetch',
+    {
+      name: 'fetch',
+      description: 'Fetch',
+      parameters: z.object({ url: z.string() }),
+      executor: () => ({ content: '' }),
+    },
+  ],
+]);
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'You are a research agent.' },
+  { role: 'user', content: 'Find the answer' },
+  {
+    role: 'assistant',
+    content: 'Searching',
+    toolCalls: [{ name: 'search', arguments: '{"q":"answer"}', toolCallId: 'toolu_1' }],
+  },
+  { role: 'tool', content: 'Found it', toolCallId: 'toolu_1', name: 'search', argsWasValid: true },
+];
+
+const response: Anthropic.Message = {
+  id: 'msg_1',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5',
+  content: [{ type: 'text', text: 'Done', citations: null }],
+  stop_reason: 'end_turn',
+  stop_sequence: null,
+  usage: {
+    input_tokens: 50,
+    output_tokens: 10,
+    cache_read_input_tokens: 3000,
+    cache_creation_input_tokens: 200,
+    cache_creation: null,
+    server_tool_use: null,
+    service_tier: null,
+  },
+} as Anthropic.Message;
+
+/**
+ * Create a client whose API calls are captured instead of sent
+ */
+function createClient(config: Partial<AnthropicClientConfig> = {}, reply: Anthropic.Message = response) {
+  const client = new AnthropicClient({ model: 'claude-sonnet-4-5', apiKey: 'test-key', ...config });
+  const requests: Anthropic.MessageCreateParamsNonStreaming[] = [];
+  (client as unknown as { client: Anthropic }).client.messages.create = (async (
+    params: Anthropic.MessageCreateParamsNonStreaming
+  ) => {
+    requests.push(params);
+    return reply;
+  }) as unknown as Anthropic['messages']['create'];
+  return { client, requests };
+}
+
+/** Indexes of messages whose last content block carries cache_control */
+function cachedMessageIndexes(params: Anthropic.MessageCreateParamsNonStreaming): number[] {
+  return params.messages.flatMap((message, i) =>
+    Array.isArray(message.content) && message.content.some((block) => 'cache_control' in block && block.cache_control)
+      ? [i]
+      : []
+  );
+}
+
+describe('AnthropicClient prompt caching', () => {
+  it('should place breakpoints on tools, system prompt and the last two messages by default', async () => {
+    const { client, requests } = createClient();
+    await client.generate(messages, tools);
+
+    const params = requests[0]!;
+    expect(params.tools![0]).not.toHaveProperty('cache_control');
+    expect(params.tools![1]).toMatchObject({ name: 'fetch', cache_control: { type: 'ephemeral' } });
+    expect(params.system).toEqual([
+      { type: 'text', text: 'You are a research agent.', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(cachedMessageIndexes(params)).toEqual([1, 2]);
+
+    // The breakpoint goes on the last block of the message (the tool_use after the text)
+    const assistant = params.messages[1]!.content as Anthropic.ContentBlockParam[];
+    expect(assistant[0]).not.toHaveProperty('cache_control');
+    expect(assistant[1]).toMatchObject({ type: 'tool_use', cache_control: { type: 'ephemeral' } });
+  });
+
+  it('should cap message breakpoints to the four allowed per request', async () => {
+    const { client, requests } = createClient({ promptCaching: { recentMessages: 10, ttl: '1h' } });
+    await client.generate(messages, tools);
+
+    expect(cachedMessageIndexes(requests[0]!)).toEqual([1, 2]);
+    expect(requests[0]!.tools![1]).toMatchObject({ cache_control: { type: 'ephemeral', ttl: '1h' } });
+  });
+
+  it('should use freed breakpoints for messages when system and tools are not cached', async () => {
+    const { client, requests } = createClient({ promptCaching: { system: false, tools: false, recentMessages: 10 } });
+    await client.generate(messages, tools);
+
+    expect(requests[0]!.system).toBe('You are a research agent.');
+    expect(cachedMessageIndexes(requests[0]!)).toEqual([0, 1, 2]);
+  });
+
+  it('should not set cache_control when caching is disabled', async () => {
+    const { client, requests } = createClient({ promptCaching: false });
+    await client.generate(messages, tools);
+
+    expect(JSON.stringify(requests[0])).not.toContain('cache_control');
+  });
+
+  it('should report cache reads and writes as part of input tokens', async () => {
+    const { client } = createClient();
+    const message = await client.generate(messages, tools);
+
+    expect(message.tokenUsage).toMatchObject({ input: 3250, output: 10, cacheRead: 3000, cacheWrite: 200 });
+  });
+});
+
+describe('AnthropicClient extended thinking', () => {
+  const thinkingResponse = {
+    ...response,
+    content: [
+      { type: 'thinking', thinking: 'The user wants a search.', signature: 'sig_abc' },
+      { type: 'redacted_thinking', data: 'encrypted_xyz' },
+      { type: 'tool_use', id: 'toolu_2', name: 'search', input: { q: 'more' } },
+    ],
+  } as Anthropic.Message;
+
+  it('should send the thinking budget without a temperature', async () => {
+    const { client, requests } = createClient({ thinking: { budgetTokens: 2048 } });
+    await client.generate(messages, tools);
+
+    expect(requests[0]!.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(requests[0]!).not.toHaveProperty('temperature');
+  });
+
+  it('should reject budgets outside the allowed range', () => {
+    expect(() => createClient({ thinking: { budgetTokens: 512 } })).toThrow('budgetTokens');
+    expect(() => createClient({ thinking: { budgetTokens: 8192 }, maxTokensToGenerate: 8192 })).toThrow('budgetTokens');
+  });
+
+  it('should capture thinking and redacted thinking as reasoning blocks', async () => {
+    const { client } = createClient({ thinking: { budgetTokens: 2048 } }, thinkingResponse);
+    const message = await client.generate(messages, tools);
+
+    expect(message.reasoning).toEqual([
+      { type: 'reasoning', text: 'The user wants a search.', signature: 'sig_abc' },
+      { type: 'redacted_reasoning', data: 'encrypted_xyz' },
+    ]);
+    expect(message.toolCalls).toHaveLength(1);
+  });
+
+  it('should send signed reasoning back before text and tool use', async () => {
+    const { client } = createClient({ thinking: { budgetTokens: 2048 } }, thinkingResponse);
+    const message = await client.generate(messages, tools);
+
+    const { messages: converted } = toAnthropicMessages([{ role: 'user', content: 'task' }, message]);
+    expect((converted[1] as { content: unknown[] }).content).toEqual([
+      { type: 'thinking', thinking: 'The user wants a search.', signature: 'sig_abc' },
+      { type: 'redacted_thinking', data: 'encrypted_xyz' },
+      { type: 'tool_use', id: 'toolu_2', name: 'search', input: { q: 'more' } },
+    ]);
+  });
+
+  it('should drop unsigned reasoning from other providers', () => {
+    const message: AssistantMessage = {
+      role: 'assistant',
+      content: 'Answer',
+      reasoning: [{ type: 'reasoning', text: 'A summary from another model' }],
+    };
+
+    const { messages: converted } = toAnthropicMessages([message]);
+    expect((converted[0] as { content: unknown[] }).content).toEqual([{ type: 'text', text: 'Answer' }]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for human-in-the-loop tool approval:
+ * - Rule matching by tool name, pattern, arguments and MCP server
+ * - Approve, deny and edit decisions through a callback approver
+ * - QueueApprover for asynchronous (web UI) approval
+ * - Decisions recorded in runMetadata
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, LLMClient, Tool, ToolCall } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import {
+  ApprovalMetadata,
+  QueueApprover,
+  findApprovalRule,
+  mcpServer,
+  type ApprovalConfig,
+  type ApprovalRequest,
+  type ApprovalRule,
+} from '../../src/core/approval.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const CmdParamsSchema = z.object({ cmd: z.string() });
+
+function createShellTool(executed: string[]): Tool<typeof CmdParamsSchema> {
+  return {
+    name: 'shell',
+    description: 'Run a shell command',
+    parameters: CmdParamsSchema,
+    executor: async (params) => {
+      executed.push(params.cmd);
+      return { content: `ran: ${params.cmd}` };
+    },
+  };
+}
+
+function call(name: string, args: unknown, id = 'call_1'): ToolCall {
+  return { name, arguments: JSON.stringify(args), toolCallId: id };
+}
+
+/**
+ * Client that issues the given tool calls once, then finishes
+ */
+function createClient(toolCalls: ToolCall[]): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (): Promise<AssistantMessage> => {
+      if (callIndex++ === 0) {
+        return { role: 'assistant', content: 'Running', toolCalls };
+      }
+      return {
+        role: 'assistant',
+        content: 'Done',
+        toolCalls: [call('finish', { reason: 'done', paths: [] }, 'call_finish')],
+      };
+    },
+  };
+}
+
+async function runWithApproval(
+  toolCalls: ToolCall[],
+  approval: ApprovalConfig,
+  executed: string[],
+  repairToolArguments = false
+) {
+  const agent = new Agent({
+    client: createClient(toolCalls),
+    name: 'approval-test',
+    finishTool: SIMPLE_FINISH_TOOL,
+    tools: [createShellTool(executed)],
+    approval,
+    repairToolArguments,
+  });
+  agent.session({ noLogger: true });
+  const result = await agent.run('Run commands');
+  await agent[Symbol.asyncDispose]();
+  return result;
+}
+
+describe('findApprovalRule', () => {
+  const rules: ApprovalRule[] = [{ tool: 'shell', arguments: { cmd: /\brm\b/ } }, mcpServer('github')];
+
+  it('should match on tool name and argument pattern', () => {
+    expect(findApprovalRule(rules, call('shell', {}), { cmd: 'rm -rf /tmp/x' })).toBe(rules[0]);
+    expect(findApprovalRule(rules, call('shell', {}), { cmd: 'ls' })).toBeUndefined();
+  });
+
+  it('should match every tool from an MCP server', () => {
+    expect(findApprovalRule(rules, call('github__create_issue', {}), {})).toBe(rules[1]);
+    expect(findApprovalRule(rules, call('gitlab__create_issue', {}), {})).toBeUndefined();
+  });
+
+  it('should match argument rules when the arguments cannot be parsed', () => {
+    expect(findApprovalRule(rules, call('shell', {}), '{"cmd": "rm -rf /tmp/x",')).toBe(rules[0]);
+  });
+
+  it('should apply the when predicate', () => {
+    const rule: ApprovalRule = { tool: /.*/, when: (args) => (args as { cmd: string }).cmd.length > 5 };
+    expect(findApprovalRule([rule], call('shell', {}), { cmd: 'echo hello' })).toBe(rule);
+    expect(findApprovalRule([rule], call('shell', {}), { cmd: 'ls' })).toBeUndefined();
+  });
+});
+
+describe('Tool approval in the agent loop', () => {
+  it('should only ask about matching calls and execute approved ones', async () => {
+    const executed: string[] = [];
+    const requests: ApprovalRequest[] = [];
+    await runWithApproval(
+      [call('shell', { cmd: 'ls' }, 'a'), call('shell', { cmd: 'rm file' }, 'b')],
+      {
+        rules: [{ tool: 'shell', arguments: { cmd: /^rm / } }],
+        approver: (request) => {
+          requests.push(request);
+          return { decision: 'approve' };
+        },
+      },
+      executed
+    );
+
+    expect(requests.map((r) => r.arguments)).toEqual([{ cmd: 'rm file' }]);
+    expect(executed).toEqual(['ls', 'rm file']);
+  });
+
+  it('should return a structured denial to the model and record decisions', async () => {
+    const executed: string[] = [];
+    const result = await runWithApproval(
+      [call('shell', { cmd: 'rm -rf /' })],
+      { rules: [{ tool: 'shell' }], approver: () => ({ decision: 'deny', reason: 'Too destructive' }) },
+      executed
+    );
+
+    expect(executed).toEqual([]);
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'shell');
+    expect(toolMessage!.content).toContain('<tool_denied tool="shell">');
+    expect(toolMessage!.content).toContain('Too destructive');
+
+    const metadata = result.runMetadata.approval as ApprovalMetadata;
+    expect(metadata.toJSON()).toMatchObject({ num_approved: 0, num_denied: 1, num_edited: 0 });
+  });
+
+  it('should review repaired arguments and execute the approved call', async () => {
+    const executed: string[] = [];
+    const requests: ApprovalRequest[] = [];
+    await runWithApproval(
+      [{ name: 'shell', arguments: '{"cmd": "rm file",}', toolCallId: 'call_1' }],
+      {
+        rules: [{ tool: 'shell', arguments: { cmd: /^rm / } }],
+        approver: (request) => {
+          requests.push(request);
+          return { decision: 'approve' };
+        },
+      },
+      executed,
+      true
+    );
+
+    expect(requests.map((r) => r.arguments)).toEqual([{ cmd: 'rm file' }]);
+    expect(executed).toEqual(['rm file']);
+  });
+
+  it('should ask about calls with unparseable arguments', async () => {
+    const requests: ApprovalRequest[] = [];
+    await runWithApproval(
+      [{ name: 'shell', arguments: '{"cmd": "rm file",', toolCallId: 'call_1' }],
+      {
+        rules: [{ tool: 'shell', arguments: { cmd: /^rm / } }],
+        approver: (request) => {
+          requests.push(request);
+          return { decision: 'deny' };
+        },
+      },
+      []
+    );
+
+    expect(requests.map((r) => r.arguments)).toEqual(['{"cmd": "rm file",']);
+  });
+
+  it('should execute edited arguments', async () => {
+    const executed: string[] = [];
+    const result = await runWithApproval(
+      [call('shell', { cmd: 'rm -rf /' })],
+      { rules: [{ tool: 'shell' }], approver: () => ({ decision: 'edit', arguments: { cmd: 'rm -rf ./tmp' } }) },
+      executed
+    );
+
+    expect(executed).toEqual(['rm -rf ./tmp']);
+    const metadata = result.runMetadata.approval as ApprovalMetadata;
+    expect(metadata.decisions[0]).toMatchObject({ decision: 'edit', editedArguments: '{"cmd":"rm -rf ./tmp"}' });
+  });
+
+  it('should wait for decisions from a QueueApprover', async () => {
+    const executed: string[] = [];
+    const approver = new QueueApprover();
+    approver.on('request', (pending) => {
+      expect(approver.pending.map((p) => p.id)).toContain(pending.id);
+      setTimeout(() => approver.approve(pending.id), 10);
+    });
+
+    await runWithApproval([call('shell', { cmd: 'deploy' })], { rules: [{ tool: 'shell' }], approver }, executed);
+
+    expect(executed).toEqual(['deploy']);
+    expect(approver.pending).toEqual([]);
+  });
+
+  it('should deny QueueApprover requests that time out', async () => {
+    const executed: string[] = [];
+    const approver = new QueueApprover(20);
+
+    const result = await runWithApproval(
+      [call('shell', { cmd: 'deploy' })],
+      { rules: [{ tool: 'shell' }], approver },
+      executed
+    );
+
+    expect(executed).toEqual([]);
+    const metadata = result.runMetadata.approval as ApprovalMetadata;
+    expect(metadata.decisions[0]).toMatchObject({ decision: 'deny', reason: 'Approval timed out' });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tests for run budgets:
+ * - Model price lookup and cost estimates
+ * - Token budgets: wrap-up message, grace turn, then a budget stopReason
+ * - Per-tool call limits refuse extra calls
+ * - Cost budgets validate that the model has a price
+ * - Budget usage is cached and carried over on resume
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  AgentValidationError,
+  type TokenUsageMetadata,
+  type AssistantMessage,
+  type ChatMessage,
+  type LLMClient,
+  type Tool,
+  type ToolCall,
+} from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { BudgetTracker, type RunBudget } from '../../src/core/budget.js';
+import { CacheManager } from '../../src/core/cache.js';
+import { estimateCost, findModelPricing } from '../../src/core/pricing.js';
+import { SIMPLE_FINISH_TOOL, type FinishParams } from '../../src/tools/finish.js';
+
+/** Promise that rejects with the signal's reason once it is aborted */
+function untilAborted(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+  });
+}
+
+const EchoParamsSchema = z.object({ text: z.string() });
+
+function createEchoTool(calls: string[] = []): Tool<typeof EchoParamsSchema> {
+  return {
+    name: 'echo',
+    description: 'Echo text back',
+    parameters: EchoParamsSchema,
+    executor: async (params) => {
+      calls.push(params.text);
+      return { content: `echo: ${params.text}` };
+    },
+  };
+}
+
+const finishCall: ToolCall = {
+  name: 'finish',
+  arguments: JSON.stringify({ reason: 'done', paths: [] }),
+  toolCallId: 'call_finish',
+};
+
+/**
+ * Client that keeps calling echo (100 input / 10 output tokens per generation)
+ * When `finishOnWrapUp` is set, it finishes as soon as it is asked to wrap up.
+ */
+function createClient(options: { finishOnWrapUp?: boolean; requests?: ChatMessage[][] } = {}): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (messages): Promise<AssistantMessage> => {
+      options.requests?.push(messages);
+      const last = messages[messages.length - 1];
+      const wrapUp = last?.role === 'user' && String(last.content).includes('wrap up');
+      const toolCalls =
+        options.finishOnWrapUp && wrapUp
+          ? [finishCall]
+          : [
+              {
+                name: 'echo',
+                arguments: JSON.stringify({ text: `call ${callIndex}` }),
+                toolCallId: `call_${callIndex}`,
+              },
+            ];
+      callIndex++;
+      return { role: 'assistant', content: 'Working', toolCalls, tokenUsage: { input: 100, output: 10 } };
+    },
+  };
+}
+
+function createAgent(client: LLMClient, budget: RunBudget, calls: string[] = [], name = 'budget-test') {
+  const agent = new Agent({
+    client,
+    name,
+    maxTurns: 10,
+    finishTool: SIMPLE_FINISH_TOOL,
+    tools: [createEchoTool(calls)],
+    budget,
+  });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('Model pricing', () => {
+  it('should match exact slugs, provider prefixes and dated snapshots', () => {
+    expect(findModelPricing('gpt-4o')).toMatchObject({ input: 2.5, output: 10 });
+    expect(findModelPricing('openai/gpt-4o-mini')).toMatchObject({ input: 0.15, output: 0.6 });
+    expect(findModelPricing('claude-sonnet-4-5-20250929')).toMatchObject({ input: 3, output: 15 });
+    expect(findModelPricing('unknown-model')).toBeUndefined();
+  });
+
+  it('should not price model variants as their base model', () => {
+    expect(findModelPricing('claude-opus-4-5')).toMatchObject({ input: 5, output: 25 });
+    expect(findModelPricing('o3-mini')).toMatchObject({ input: 1.1, output: 4.4 });
+    expect(findModelPricing('gemini-2.5-flash-lite')).toMatchObject({ input: 0.1, output: 0.4 });
+    expect(findModelPricing('gpt-4o-2024-08-06')).toMatchObject({ input: 2.5, output: 10 });
+    expect(findModelPricing('claude-3-7-sonnet-latest')).toMatchObject({ input: 3, output: 15 });
+    expect(findModelPricing('gpt-5-codex')).toBeUndefined();
+    expect(findModelPricing('gpt-4o-audio-preview')).toBeUndefined();
+    expect(findModelPricing('gemini-2.5-flash-image')).toBeUndefined();
+  });
+
+  it('should estimate cost per million tokens', () => {
+    expect(estimateCost({ input: 1_000_000, output: 500_000 }, { input: 2, output: 8 })).toBeCloseTo(6);
+  });
+});
+
+describe('Run budgets', () => {
+  it('should ask the model to wrap up and stop after the grace turn', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(createClient({ requests }), { maxInputTokens: 200 });
+
+    const exhausted: unknown[] = [];
+    agent.on('budget:exhausted', (data) => exhausted.push(data));
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    // Turn 2 reaches the limit, turn 3 is the grace turn
+    expect(requests).toHaveLength(3);
+    expect(String(requests[2]!.at(-1)!.content)).toContain('input token budget (200 of 200 tokens used)');
+    expect(result.finishParams).toBeUndefined();
+    expect(result.stopReason).toEqual({ source: 'budget', budget: 'inputTokens', limit: 200, used: 300 });
+    expect(exhausted).toHaveLength(1);
+  });
+
+  it('should finish normally when the model wraps up within the grace turns', async () => {
+    const agent = createAgent(createClient({ finishOnWrapUp: true }), { maxOutputTokens: 10 });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect((result.finishParams as FinishParams).reason).toBe('done');
+    expect(result.stopReason).toBeUndefined();
+  });
+
+  it('should stop immediately with no grace turns', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(createClient({ requests }), { maxOutputTokens: 10, graceTurns: 0 });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests).toHaveLength(1);
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'outputTokens' });
+  });
+
+  it('should refuse tool calls beyond the per-tool limit', async () => {
+    const calls: string[] = [];
+    const agent = createAgent(createClient(), { maxToolCalls: { echo: 2 }, graceTurns: 2 }, calls);
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(calls).toEqual(['call 0', 'call 1']);
+    const echoMessages = result.messageHistory.flat().filter((m) => m.role === 'tool' && m.name === 'echo');
+    expect(String(echoMessages.at(-1)!.content)).toContain('<budget_exceeded tool="echo">');
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'toolCalls', tool: 'echo', limit: 2 });
+  });
+
+  it('should enforce cost budgets using a custom price table', async () => {
+    const agent = createAgent(createClient(), {
+      maxCostUsd: 0.002,
+      prices: { 'mock-model': { input: 10, output: 0 } },
+    });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'cost', limit: 0.002 });
+    // The budget counts the same cost that token_usage reports
+    const tokenUsage = result.runMetadata.token_usage as TokenUsageMetadata;
+    expect(result.stopReason).toMatchObject({ used: tokenUsage.cost });
+  });
+
+  it('should reject cost budgets for models without a price', () => {
+    expect(() => createAgent(createClient(), { maxCostUsd: 1 })).toThrow(AgentValidationError);
+  });
+
+  it('should stop runs that exceed the wall-clock budget', async () => {
+    const client = createClient();
+    const slowClient: LLMClient = {
+      ...client,
+      generate: async (messages, tools) => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        return await client.generate(messages, tools);
+      },
+    };
+    const agent = createAgent(slowClient, { maxWallClockMs: 20, graceTurns: 0 });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'wallClock', limit: 20 });
+  });
+
+  it('should interrupt a generation that runs past the wall-clock budget', async () => {
+    const hangingClient: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: (_messages, _tools, options) => untilAborted(options?.signal),
+    };
+    const agent = createAgent(hangingClient, { maxWallClockMs: 50 });
+
+    const exhausted: unknown[] = [];
+    agent.on('budget:exhausted', (data) => exhausted.push(data));
+    const start = Date.now();
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'wallClock', limit: 50 });
+    expect(exhausted).toHaveLength(1);
+  });
+
+  it('should interrupt a tool call that runs past the wall-clock budget', async () => {
+    const agent = new Agent({
+      client: createClient(),
+      name: 'budget-hang',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [
+        {
+          name: 'echo',
+          description: 'Never returns',
+          parameters: EchoParamsSchema,
+          executor: (_params, ctx) => untilAborted(ctx.signal),
+        },
+      ],
+      budget: { maxWallClockMs: 50 },
+    });
+    agent.session({ noLogger: true });
+
+    const start = Date.now();
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'wallClock', limit: 50 });
+  });
+
+  it('should still fail with the reason when the run itself is cancelled', async () => {
+    const hangingClient: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: (_messages, _tools, options) => untilAborted(options?.signal),
+    };
+    const agent = createAgent(hangingClient, { maxWallClockMs: 60_000 });
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled by user')), 20);
+    await expect(agent.run('task', { signal: controller.signal })).rejects.toThrow('cancelled by user');
+    await agent[Symbol.asyncDispose]();
+  });
+
+  it('should carry budget usage over when resuming', async () => {
+    const task = `Budget resume task ${Date.now()}`;
+    const cacheManager = new CacheManager([{ role: 'user', content: task }]);
+
+    try {
+      const first = createAgent(createClient(), { maxInputTokens: 300 }, [], 'budget-first');
+      const stopped = await first.run(task);
+      await first[Symbol.asyncDispose]();
+      expect(stopped.stopReason).toMatchObject({ budget: 'inputTokens' });
+
+      const state = await cacheManager.loadState();
+      expect(state?.budget).toMatchObject({ inputTokens: 400, outputTokens: 40, toolCalls: { echo: 4 } });
+
+      // The resumed run is already over budget, so it stops after its grace turn
+      const requests: ChatMessage[][] = [];
+      const resumed = new Agent({
+        client: createClient({ requests }),
+        name: 'budget-second',
+        maxTurns: 10,
+        finishTool: SIMPLE_FINISH_TOOL,
+        tools: [createEchoTool()],
+        budget: { maxInputTokens: 300 },
+      });
+      resumed.session({ noLogger: true, resume: true });
+      const result = await resumed.run(task);
+      await resumed[Symbol.asyncDispose]();
+
+      expect(requests).toHaveLength(2);
+      expect(result.stopReason).toMatchObject({ source: 'budget', used: 600 });
+    } finally {
+      await cacheManager.clearState();
+    }
+  });
+});
+
+describe('BudgetTracker', () => {
+  it('should report the first exhausted limit and snapshot usage', () => {
+    const tracker = new BudgetTracker({ maxInputTokens: 100, maxOutputTokens: 5 });
+    expect(tracker.exhausted()).toBeUndefined();
+
+    tracker.recordUsage({ input: 50, output: 10 });
+    expect(tracker.exhausted()).toEqual({ budget: 'outputTokens', limit: 5, used: 10 });
+    expect(tracker.snapshot()).toMatchObject({ inputTokens: 50, outputTokens: 10, costUsd: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for run cancellation:
+ * - retryRequest stops retrying as soon as the signal is aborted
+ * - The run signal reaches LLM requests and tool executors
+ * - Local code execution kills the command (and its children) on abort or timeout, and when this process exits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type {
+  AssistantMessage,
+  GenerateOptions,
+  LLMClient,
+  Tool,
+  ToolExecutionContext,
+} from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { createToolContext } from '../../src/core/tool-context.js';
+import { retryRequest } from '../../src/utils/retry.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+/** Promise that rejects with the signal's reason once it is aborted */
+function untilAborted(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+  });
+}
+
+function abortAfter(ms: number): AbortController {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(new Error('cancelled by user')), ms);
+  return controller;
+}
+
+describe('retryRequest', () => {
+  it('should return the first successful attempt', async () => {
+    let attempts = 0;
+    const result = await retryRequest(
+      async () => {
+        if (attempts++ === 0) throw new Error('transient');
+        return 'ok';
+      },
+      { retries: 2 }
+    );
+    expect(result).toBe('ok');
+    expect(attempts).toBe(2);
+  });
+
+  it('should reject with the abort reason while waiting to retry', async () => {
+    const controller = abortAfter(50);
+    const start = Date.now();
+    let attempts = 0;
+    await expect(
+      retryRequest(
+        async () => {
+          attempts++;
+          throw new Error('server overloaded');
+        },
+        { retries: 5, signal: controller.signal }
+      )
+    ).rejects.toThrow('cancelled by user');
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(attempts).toBe(1);
+  });
+
+  it('should not retry a request that failed because it was aborted', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    await expect(
+      retryRequest(
+        async () => {
+          attempts++;
+          controller.abort(new Error('cancelled by user'));
+          throw new Error('request aborted');
+        },
+        { retries: 5, signal: controller.signal }
+      )
+    ).rejects.toThrow('cancelled by user');
+    expect(attempts).toBe(1);
+  });
+});
+
+describe('Agent cancellation', () => {
+  function createAgent(client: LLMClient, tools: Tool[] = []) {
+    const agent = new Agent({ client, name: 'cancel-test', finishTool: SIMPLE_FINISH_TOOL, tools });
+    agent.session({ noLogger: true });
+    return agent;
+  }
+
+  it('should pass the run signal to generate() and stop a pending request', async () => {
+    let received: AbortSignal | undefined;
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: (_messages, _tools, options?: GenerateOptions): Promise<AssistantMessage> => {
+        received = options?.signal;
+        return untilAborted(options?.signal);
+      },
+    };
+
+    const controller = abortAfter(50);
+    const start = Date.now();
+    await expect(createAgent(client).run('Wait', { signal: controller.signal })).rejects.toThrow('cancelled by user');
+    expect(received).toBe(controller.signal);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should pass the run signal to tool executors and stop the run when they abort', async () => {
+    let ctxSignal: AbortSignal | undefined;
+    const slowTool: Tool = {
+      name: 'slow',
+      description: 'Takes a long time',
+      parameters: z.object({}),
+      executor: (_params, ctx: ToolExecutionContext) => {
+        ctxSignal = ctx.signal;
+        return untilAborted(ctx.signal);
+      },
+    };
+    let generations = 0;
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (): Promise<AssistantMessage> => {
+        generations++;
+        return {
+          role: 'assistant',
+          content: 'Working',
+          toolCalls: [{ name: 'slow', arguments: '{}', toolCallId: 'call_slow' }],
+          tokenUsage: { input: 10, output: 5 },
+        };
+      },
+    };
+
+    const controller = abortAfter(50);
+    await expect(createAgent(client, [slowTool]).run('Go', { signal: controller.signal })).rejects.toThrow(
+      'cancelled by user'
+    );
+    expect(ctxSignal).toBe(controller.signal);
+    expect(generations).toBe(1);
+  });
+});
+
+describe('LocalCodeExecToolProvider cancellation', () => {
+  it('should kill a running command and reject with the abort reason', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    await provider.getTools();
+
+    const controller = abortAfter(100);
+    const start = Date.now();
+    await expect(provider.runCommand('sleep 5; echo done', undefined, { signal: controller.signal })).rejects.toThrow(
+      'cancelled by user'
+    );
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should stop code_exec through the execution context signal', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    const tools = await provider.getTools();
+    const codeExec = tools.find((tool) => tool.name === 'code_exec')!;
+
+    const controller = abortAfter(100);
+    await expect(
+      codeExec.executor({ cmd: 'sleep 5' }, createToolContext({ signal: controller.signal }))
+    ).rejects.toThrow('cancelled by user');
+  });
+
+  it('should run commands normally when not aborted', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    await provider.getTools();
+
+    const result = await provider.runCommand('echo hi', undefined, { signal: new AbortController().signal });
+    expect(result).toMatchObject({ exitCode: 0, stdout: 'hi' });
+  });
+
+  it('should kill the commands a timed-out command started', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    await provider.getTools();
+
+    const result = await provider.runCommand('(sleep 1; echo late > late.txt) & sleep 5', 200);
+    expect(result).toMatchObject({ exitCode: -1, errorKind: 'timeout' });
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    await expect(provider.readFileBytes('late.txt')).rejects.toThrow('ENOENT');
+  });
+
+  it('should watch for Ctrl+C only while commands are running', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    await provider.getTools();
+    const listeners = process.listenerCount('SIGINT');
+
+    const controller = new AbortController();
+    const running = provider.runCommand('sleep 5', undefined, { signal: controller.signal });
+    expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+
+    controller.abort(new Error('cancelled by user'));
+    await expect(running).rejects.toThrow('cancelled by user');
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+});
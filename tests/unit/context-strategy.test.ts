@@ -0,0 +1,237 @@
+/**
+ * Tests for context strategies:
+ * - splitTurns separates the task context from assistant-led turns
+ * - Summary, sliding window, dropped tool outputs and rolling summaries shrink the context as described
+ * - Summaries can use their own client and prompt
+ * - The agent compacts with its configured strategy
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool, ToolMessage } from '../../src/core/models.js';
+import { createSummaryMessage, isSummaryMessage } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import {
+  DropToolOutputsStrategy,
+  RollingSummaryStrategy,
+  SlidingWindowStrategy,
+  SummaryStrategy,
+  splitTurns,
+  type ContextStrategyContext,
+} from '../../src/core/context-strategy.js';
+import { createHeuristicTokenEstimator } from '../../src/core/token-estimator.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+/** Summarizer that records its requests and replies with a numbered summary */
+function createSummarizer(): LLMClient & { requests: ChatMessage[][] } {
+  const requests: ChatMessage[][] = [];
+  return {
+    modelSlug: 'summarizer-model',
+    maxTokens: 128_000,
+    requests,
+    generate: async (messages): Promise<AssistantMessage> => {
+      requests.push(messages);
+      return { role: 'assistant', content: `summary ${requests.length}` };
+    },
+  };
+}
+
+function createContext(client: LLMClient, tokenLimit = 100_000): ContextStrategyContext {
+  const estimator = createHeuristicTokenEstimator();
+  return {
+    client,
+    reason: 'usage',
+    estimateTokens: (messages) => estimator.countRequest(messages),
+    tokenLimit,
+  };
+}
+
+/** System prompt and task, then `turns` read turns, each an assistant call and a 400-character result */
+function createConversation(turns: number): ChatMessage[] {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are an agent.' },
+    { role: 'user', content: 'Read every part' },
+  ];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({
+      role: 'assistant',
+      content: `Reading part ${i}`,
+      toolCalls: [{ name: 'read', arguments: JSON.stringify({ part: i }), toolCallId: `call_${i}` }],
+    });
+    messages.push({
+      role: 'tool',
+      content: `part ${i}: ${'x'.repeat(400)}`,
+      toolCallId: `call_${i}`,
+      name: 'read',
+      argsWasValid: true,
+    });
+  }
+  return messages;
+}
+
+describe('splitTurns', () => {
+  it('should split the task context from turns led by assistant messages', () => {
+    const { taskContext, turns } = splitTurns(createConversation(2));
+    expect(taskContext.map((m) => m.role)).toEqual(['system', 'user']);
+    expect(turns.map((turn) => turn.map((m) => m.role))).toEqual([
+      ['assistant', 'tool'],
+      ['assistant', 'tool'],
+    ]);
+  });
+
+  it('should treat a conversation without assistant messages as all task context', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Hi' }];
+    expect(splitTurns(messages)).toEqual({ taskContext: messages, turns: [] });
+  });
+});
+
+describe('SummaryStrategy', () => {
+  it('should replace all turns with a summary and acknowledgement', async () => {
+    const client = createSummarizer();
+    const compacted = await new SummaryStrategy().compact(createConversation(3), createContext(client));
+
+    expect(compacted.map((m) => m.role)).toEqual(['system', 'user', 'user', 'assistant']);
+    expect(isSummaryMessage(compacted[2]!)).toBe(true);
+    expect(compacted[2]!.content).toContain('summary 1');
+    expect(client.requests[0]?.filter((m) => m.role === 'tool')).toHaveLength(3);
+  });
+
+  it('should use its own client and prompt', async () => {
+    const agentClient = createSummarizer();
+    const cheapClient = createSummarizer();
+    const strategy = new SummaryStrategy({ client: cheapClient, prompt: 'Summarize tersely.' });
+    await strategy.compact(createConversation(2), createContext(agentClient));
+
+    expect(agentClient.requests).toHaveLength(0);
+    expect(cheapClient.requests[0]?.[0]).toEqual({ role: 'system', content: 'Summarize tersely.' });
+  });
+});
+
+describe('SlidingWindowStrategy', () => {
+  it('should keep the task context and the last turns', async () => {
+    const compacted = await new SlidingWindowStrategy({ keepTurns: 2 }).compact(
+      createConversation(5),
+      createContext(createSummarizer())
+    );
+    const { taskContext, turns } = splitTurns(compacted);
+    expect(taskContext).toHaveLength(2);
+    expect(turns.map((turn) => (turn[1] as ToolMessage).toolCallId)).toEqual(['call_4', 'call_5']);
+  });
+
+  it('should drop more turns while the context is still over the limit', async () => {
+    const compacted = await new SlidingWindowStrategy({ keepTurns: 5 }).compact(
+      createConversation(5),
+      createContext(createSummarizer(), 300)
+    );
+    expect(splitTurns(compacted).turns).toHaveLength(2);
+  });
+});
+
+describe('DropToolOutputsStrategy', () => {
+  it('should clear old tool outputs and media but keep the tool calls', async () => {
+    const messages = createConversation(3);
+    messages.push({ role: 'user', content: ['Screenshot:', { type: 'image', data: 'data:image/png;base64,AA==' }] });
+    messages.push({ role: 'assistant', content: 'Looking' });
+
+    const compacted = await new DropToolOutputsStrategy({ keepTurns: 1 }).compact(
+      messages,
+      createContext(createSummarizer())
+    );
+
+    expect(compacted).toHaveLength(messages.length);
+    expect(compacted.filter((m) => m.role === 'assistant')).toEqual(messages.filter((m) => m.role === 'assistant'));
+    expect(compacted.filter((m) => m.role === 'tool').map((m) => m.content)).toEqual([
+      '[Output of read removed to save context]',
+      '[Output of read removed to save context]',
+      '[Output of read removed to save context]',
+    ]);
+    expect(compacted[compacted.length - 2]?.content).toEqual(['Screenshot:', '[image removed to save context]']);
+  });
+
+  it('should keep recent outputs when the context fits', async () => {
+    const compacted = await new DropToolOutputsStrategy({ keepTurns: 2 }).compact(
+      createConversation(3),
+      createContext(createSummarizer())
+    );
+    const outputs = compacted.filter((m) => m.role === 'tool').map((m) => String(m.content));
+    expect(outputs[0]).toContain('removed');
+    expect(outputs[1]).toMatch(/^part 2/);
+    expect(outputs[2]).toMatch(/^part 3/);
+  });
+});
+
+describe('RollingSummaryStrategy', () => {
+  it('should summarize older turns into the previous summary and keep recent turns', async () => {
+    const client = createSummarizer();
+    const strategy = new RollingSummaryStrategy({ keepTurns: 1 });
+    const ctx = createContext(client);
+
+    const first = await strategy.compact(createConversation(3), ctx);
+    expect(first.map((m) => m.role)).toEqual(['system', 'user', 'user', 'assistant', 'tool']);
+    expect((first[4] as ToolMessage).toolCallId).toBe('call_3');
+
+    // A later compaction folds the previous summary into the new one
+    const later = [...first, ...createConversation(5).slice(8)];
+    const second = await strategy.compact(later, ctx);
+    expect(client.requests[1]?.some((m) => isSummaryMessage(m) && String(m.content).includes('summary 1'))).toBe(true);
+    expect(second.filter(isSummaryMessage)).toHaveLength(1);
+    expect(second.filter(isSummaryMessage)[0]?.content).toContain('summary 2');
+    expect((second[second.length - 1] as ToolMessage).toolCallId).toBe('call_5');
+  });
+
+  it('should leave a conversation with only recent turns unchanged', async () => {
+    const messages = [...createConversation(0), createSummaryMessage('earlier'), ...createConversation(2).slice(2)];
+    const client = createSummarizer();
+    expect(await new RollingSummaryStrategy({ keepTurns: 2 }).compact(messages, createContext(client))).toBe(messages);
+    expect(client.requests).toHaveLength(0);
+  });
+});
+
+describe('Agent contextStrategy', () => {
+  it('should compact with the configured strategy', async () => {
+    const readTool: Tool<z.ZodObject<{ part: z.ZodNumber }>> = {
+      name: 'read',
+      description: 'Read part of a large file',
+      parameters: z.object({ part: z.number() }),
+      executor: async (params) => ({ content: `part ${params.part}: ` + 'x'.repeat(2_000) }),
+    };
+    const requests: ChatMessage[][] = [];
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 4_000,
+      generate: async (messages): Promise<AssistantMessage> => {
+        requests.push(messages);
+        const part = requests.length;
+        return {
+          role: 'assistant',
+          content: 'Reading',
+          toolCalls: [
+            part <= 6
+              ? { name: 'read', arguments: JSON.stringify({ part }), toolCallId: `call_${part}` }
+              : { name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'call_finish' },
+          ],
+          tokenUsage: { input: 100, output: 10 },
+        };
+      },
+    };
+
+    const agent = new Agent({
+      client,
+      name: 'strategy-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [readTool],
+      contextStrategy: new SlidingWindowStrategy({ keepTurns: 2 }),
+    });
+    agent.session({ noLogger: true });
+    const result = await agent.run('Read the file');
+
+    expect(result.finishParams).toEqual({ reason: 'done', paths: [] });
+    // Every request went to the agent's client (no summary requests), and old reads were dropped from the window
+    expect(requests).toHaveLength(7);
+    const toolCounts = requests.map((request) => request.filter((m) => m.role === 'tool').length);
+    expect(Math.max(...toolCounts)).toBeLessThan(6);
+    const lastRequest = requests[requests.length - 1]!;
+    expect(lastRequest.some((m) => m.role === 'tool' && m.toolCallId === 'call_6')).toBe(true);
+    expect(lastRequest.some((m) => m.role === 'tool' && m.toolCallId === 'call_1')).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for multi-turn conversations:
+ * - History is kept across send() calls with a single system prompt
+ * - History round-trips through JSON, keeping summaries marked, and is validated when rehydrated
+ * - Failed sends leave the history unchanged, and sends cannot overlap
+ * - Long conversations are compacted with the agent's context strategy
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AssistantMessage, ChatMessage, LLMClient } from '../../src/core/models.js';
+import { isSummaryMessage } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { SlidingWindowStrategy } from '../../src/core/context-strategy.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+/** Client that replies to the last user message; `fail` throws for a request instead */
+function createChatClient(
+  fail: (messages: ChatMessage[]) => boolean = () => false
+): LLMClient & { requests: ChatMessage[][] } {
+  const requests: ChatMessage[][] = [];
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    requests,
+    generate: async (messages: ChatMessage[]): Promise<AssistantMessage> => {
+      requests.push(messages);
+      if (fail(messages)) throw new Error('Provider unavailable');
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+      return {
+        role: 'assistant',
+        content: `Reply to: ${String(lastUser?.content)}`,
+        tokenUsage: { input: 100, output: 10 },
+      };
+    },
+  };
+}
+
+function createAgent(client: LLMClient, config: Partial<ConstructorParameters<typeof Agent>[0]> = {}): Agent {
+  const agent = new Agent({ client, name: 'chat', finishTool: SIMPLE_FINISH_TOOL, ...config });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('Conversation', () => {
+  it('should keep the history across messages', async () => {
+    const client = createChatClient();
+    const chat = createAgent(client).conversation();
+
+    await chat.send('Hello');
+    await chat.send('How are you?');
+
+    expect(client.requests[1]?.map((m) => [m.role, m.content])).toEqual([
+      ['system', expect.any(String)],
+      ['user', 'Hello'],
+      ['assistant', 'Reply to: Hello'],
+      ['user', 'How are you?'],
+    ]);
+    expect(chat.messages.filter((m) => m.role === 'system')).toHaveLength(1);
+    expect(chat.messages[chat.messages.length - 1]).toMatchObject({ content: 'Reply to: How are you?' });
+  });
+
+  it('should stream events for each message', async () => {
+    const chat = createAgent(createChatClient()).conversation();
+    await chat.send('Hello');
+
+    const types: string[] = [];
+    for await (const event of chat.sendStream('Again')) {
+      types.push(event.type);
+    }
+    expect(types[0]).toBe('start');
+    expect(types[types.length - 1]).toBe('complete');
+    expect(chat.messages.filter((m) => m.role === 'user')).toHaveLength(2);
+  });
+
+  it('should continue from a serialized history', async () => {
+    const chat = createAgent(createChatClient()).conversation();
+    await chat.send('Remember the number 7');
+    const saved = JSON.parse(JSON.stringify(chat)) as unknown[];
+
+    const client = createChatClient();
+    const resumed = createAgent(client).conversation(saved);
+    await resumed.send('What was the number?');
+
+    const contents = (messages: ChatMessage[]) => messages.map((m) => [m.role, m.content]);
+    expect(contents(client.requests[0]!.slice(0, -1))).toEqual(contents(chat.messages));
+    expect(client.requests[0]?.[client.requests[0].length - 1]).toEqual({
+      role: 'user',
+      content: 'What was the number?',
+    });
+  });
+
+  it('should replace a summary from a serialized history when summarizing again', async () => {
+    const config = {
+      // Treat any request with six or more messages as over the cutoff
+      tokenEstimator: { countRequest: (messages: ChatMessage[]) => (messages.length >= 6 ? 1_000_000 : 0) },
+    };
+    const chat = createAgent(createChatClient(), config).conversation();
+    for (const message of ['One', 'Two', 'Three']) {
+      await chat.send(message);
+    }
+    expect(chat.messages.filter(isSummaryMessage)).toHaveLength(1);
+
+    const saved = JSON.parse(JSON.stringify(chat)) as unknown[];
+    const resumed = createAgent(createChatClient(), config).conversation(saved);
+    expect(resumed.messages.filter(isSummaryMessage)).toHaveLength(1);
+
+    for (const message of ['Four', 'Five', 'Six']) {
+      await resumed.send(message);
+    }
+    const summaries = resumed.messages.filter((m) =>
+      String(m.content).startsWith('[Previous conversation summarized below]')
+    );
+    expect(summaries).toHaveLength(1);
+    expect(summaries.every(isSummaryMessage)).toBe(true);
+  });
+
+  it('should reject an invalid history', () => {
+    const agent = createAgent(createChatClient());
+    expect(() => agent.conversation([{ role: 'narrator', content: 'Once upon a time' }])).toThrow();
+  });
+
+  it('should leave the history unchanged when a message fails', async () => {
+    const client = createChatClient((messages) => messages.length > 3);
+    const chat = createAgent(client).conversation();
+    await chat.send('Hello');
+    const before = chat.messages;
+
+    await expect(chat.send('Fail please')).rejects.toThrow('Provider unavailable');
+    expect(chat.messages).toEqual(before);
+  });
+
+  it('should not handle two messages at once', async () => {
+    let release!: () => void;
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (): Promise<AssistantMessage> => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return { role: 'assistant', content: 'Done' };
+      },
+    };
+    const chat = createAgent(client).conversation();
+
+    const first = chat.send('First');
+    await expect(chat.send('Second')).rejects.toThrow('already handling a message');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release();
+    await first;
+    expect(chat.messages.map((m) => m.content)).toEqual([expect.any(String), 'First', 'Done']);
+  });
+
+  it('should compact a long conversation with the context strategy', async () => {
+    const client = createChatClient();
+    const chat = createAgent(client, {
+      contextStrategy: new SlidingWindowStrategy({ keepTurns: 1 }),
+      // Treat any request with six or more messages as over the cutoff
+      tokenEstimator: { countRequest: (messages) => (messages.length >= 6 ? 1_000_000 : 0) },
+    }).conversation();
+
+    for (const message of ['One', 'Two', 'Three', 'Four']) {
+      await chat.send(message);
+    }
+
+    for (const request of client.requests) {
+      expect(request.length).toBeLessThan(6);
+    }
+    expect(chat.messages[1]).toEqual({ role: 'user', content: 'One' });
+    expect(chat.messages[chat.messages.length - 1]).toMatchObject({ content: 'Reply to: Four' });
+  });
+});
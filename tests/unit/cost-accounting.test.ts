@@ -0,0 +1,140 @@
+/**
+ * Tests for cost accounting:
+ * - Cost estimates with cached-token prices
+ * - Registered prices overriding the built-in table
+ * - Cost in runMetadata.token_usage and SpeedStats
+ * - Sub-agent costs rolled up through SubAgentMetadata
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TokenUsageMetadata, type AssistantMessage, type LLMClient, type ToolCall } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { SubAgentMetadata } from '../../src/core/sub-agent.js';
+import { estimateCost, findModelPricing, registerModelPricing } from '../../src/core/pricing.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+registerModelPricing({
+  'cost-test-parent': { input: 10, output: 20, cacheRead: 1 },
+  'cost-test-sub': { input: 100, output: 200 },
+});
+
+const finishCall: ToolCall = {
+  name: 'finish',
+  arguments: JSON.stringify({ reason: 'done', paths: [] }),
+  toolCallId: 'call_finish',
+};
+
+/**
+ * Client that returns the given responses in order, then finishes
+ * Every generation uses 1000 input tokens (400 from cache) and 100 output tokens.
+ */
+function createClient(modelSlug: string, responses: AssistantMessage[] = []): LLMClient {
+  let callIndex = 0;
+  const tokenUsage = { input: 1000, output: 100, cacheRead: 400 };
+  return {
+    modelSlug,
+    maxTokens: 128_000,
+    generate: async (): Promise<AssistantMessage> => {
+      const response = responses[callIndex++] ?? { role: 'assistant', content: 'Done', toolCalls: [finishCall] };
+      return { ...response, tokenUsage };
+    },
+  };
+}
+
+describe('Cost estimates', () => {
+  it('should bill cached input tokens at the cache prices', () => {
+    const pricing = { input: 10, output: 20, cacheRead: 1, cacheWrite: 12.5 };
+    const usage = { input: 1_000_000, output: 0, cacheRead: 500_000, cacheWrite: 100_000 };
+    // 400k uncached * $10 + 500k read * $1 + 100k written * $12.5
+    expect(estimateCost(usage, pricing)).toBeCloseTo(4 + 0.5 + 1.25);
+  });
+
+  it('should fall back to the input price when no cache price is set', () => {
+    expect(estimateCost({ input: 1_000_000, output: 0, cacheRead: 1_000_000 }, { input: 2, output: 8 })).toBe(2);
+  });
+
+  it('should prefer registered prices over the defaults', () => {
+    registerModelPricing({ 'gpt-4o-cost-test': { input: 1, output: 1 } });
+    expect(findModelPricing('gpt-4o-cost-test')).toEqual({ input: 1, output: 1 });
+    expect(findModelPricing('cost-test-parent')).toMatchObject({ input: 10 });
+  });
+
+  it('should keep cost undefined only when no usage is priced', () => {
+    const priced = new TokenUsageMetadata(10, 5, 0, 0, 0, 0.5);
+    const unpriced = new TokenUsageMetadata(10, 5);
+    expect(unpriced.add(new TokenUsageMetadata()).cost).toBeUndefined();
+    expect(priced.add(unpriced).cost).toBe(0.5);
+    expect(priced.toJSON()).toMatchObject({ cost: 0.5 });
+    expect(unpriced.toJSON()).not.toHaveProperty('cost');
+  });
+});
+
+describe('Cost accounting in agent runs', () => {
+  // 600 uncached * $10 + 400 cached * $1 + 100 output * $20, per million tokens
+  const parentGenerationCost = (600 * 10 + 400 * 1 + 100 * 20) / 1_000_000;
+  // 1000 input * $100 + 100 output * $200, per million tokens
+  const subGenerationCost = (1000 * 100 + 100 * 200) / 1_000_000;
+
+  it('should record cost in token_usage and speedStats', async () => {
+    const agent = new Agent({
+      client: createClient('cost-test-parent'),
+      name: 'cost-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+    });
+    agent.session({ noLogger: true });
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    const tokenUsage = result.runMetadata.token_usage as TokenUsageMetadata;
+    expect(tokenUsage.cacheRead).toBe(400);
+    expect(tokenUsage.cost).toBeCloseTo(parentGenerationCost);
+    expect(result.speedStats?.costUsd).toBeCloseTo(parentGenerationCost);
+  });
+
+  it('should leave cost undefined for models without a price', async () => {
+    const agent = new Agent({
+      client: createClient('unpriced-model'),
+      name: 'cost-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+    });
+    agent.session({ noLogger: true });
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect((result.runMetadata.token_usage as TokenUsageMetadata).cost).toBeUndefined();
+    expect(result.speedStats?.costUsd).toBeUndefined();
+  });
+
+  it('should roll sub-agent costs up into the parent', async () => {
+    const subAgent = new Agent({
+      client: createClient('cost-test-sub'),
+      name: 'researcher',
+      finishTool: SIMPLE_FINISH_TOOL,
+    });
+    const delegate: ToolCall = {
+      name: 'researcher',
+      arguments: JSON.stringify({ task: 'look it up' }),
+      toolCallId: 'call_delegate',
+    };
+    const parent = new Agent({
+      client: createClient('cost-test-parent', [
+        { role: 'assistant', content: 'Delegating', toolCalls: [delegate] },
+        { role: 'assistant', content: 'Delegating again', toolCalls: [{ ...delegate, toolCallId: 'call_again' }] },
+      ]),
+      name: 'cost-parent',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [subAgent.toTool()],
+    });
+    parent.session({ noLogger: true });
+    const result = await parent.run('task');
+    await parent[Symbol.asyncDispose]();
+
+    // Both sub-agent runs are summed when their metadata is aggregated
+    const subMetadata = result.runMetadata.researcher as SubAgentMetadata;
+    expect(subMetadata.tokenUsage.cost).toBeCloseTo(2 * subGenerationCost);
+    expect(subMetadata.toJSON().total_token_usage.input).toBe(2000);
+
+    expect((result.runMetadata.token_usage as TokenUsageMetadata).cost).toBeCloseTo(3 * parentGenerationCost);
+    expect(result.speedStats?.costUsd).toBeCloseTo(3 * parentGenerationCost + 2 * subGenerationCost);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Tests for GeminiClient against a local HTTP stub of the Gemini API:
+ * - Message, media and tool conversion in the request body
+ * - Parsing of text, function calls, thought summaries, signatures and token usage
+ * - Thinking budgets, streaming over server-sent events and error mapping
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import type { ChatMessage, LLMStreamEvent, Tool } from '../../src/core/models.js';
+import { ContextOverflowError } from '../../src/core/models.js';
+import { GeminiAPIError, GeminiClient, type GeminiClientConfig } from '../../src/clients/gemini-client.js';
+
+interface StubRequest {
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+}
+
+interface StubResponse {
+  status?: number;
+  /** JSON body, or server-sent events when an array */
+  body: unknown;
+}
+
+let server: Server;
+let baseURL: string;
+let requests: StubRequest[];
+let responses: StubResponse[];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', headers: req.headers, body: JSON.parse(data) });
+      const response = responses.shift() ?? { status: 500, body: { error: { message: 'No stub response' } } };
+      if (Array.isArray(response.body)) {
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'text/event-stream' });
+        for (const event of response.body) {
+          res.write(`data: ${JSON.stringify(event)}\r\n\r\n`);
+        }
+        res.end();
+      } else {
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+});
+
+function createClient(config: Partial<GeminiClientConfig> = {}): GeminiClient {
+  return new GeminiClient({ model: 'gemini-2.5-flash', apiKey: 'test-key', baseURL, maxRetries: 0, ...config });
+}
+
+const WEATHER_TOOL: Tool<z.ZodObject<{ city: z.ZodString; unit: z.ZodOptional<z.ZodLiteral<'celsius'>> }>> = {
+  name: 'weather',
+  description: 'Get the weather',
+  parameters: z.object({ city: z.string().describe('City name'), unit: z.literal('celsius').optional() }),
+  executor: () => ({ content: 'Sunny' }),
+};
+
+describe('GeminiClient', () => {
+  it('should require an API key', () => {
+    const { GEMINI_API_KEY, GOOGLE_API_KEY } = process.env;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+    try {
+      expect(() => new GeminiClient({ model: 'gemini-2.5-pro' })).toThrow('GEMINI_API_KEY');
+    } finally {
+      if (GEMINI_API_KEY) process.env.GEMINI_API_KEY = GEMINI_API_KEY;
+      if (GOOGLE_API_KEY) process.env.GOOGLE_API_KEY = GOOGLE_API_KEY;
+    }
+  });
+
+  it('should send messages, media and tools in Gemini format', async () => {
+    responses.push({ body: { candidates: [{ content: { role: 'model', parts: [{ text: 'Done' }] } }] } });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'Be brief' },
+      {
+        role: 'user',
+        content: ['Describe these', { type: 'video', data: 'data:video/mp4;base64,VIDEO' }],
+      },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ name: 'weather', arguments: '{"city":"Paris"}', toolCallId: 'call_1', signature: 'sig-1' }],
+      },
+      {
+        role: 'tool',
+        name: 'weather',
+        toolCallId: 'call_1',
+        argsWasValid: true,
+        content: ['Sunny', { type: 'audio', data: 'data:audio/wav;base64,AUDIO' }],
+      },
+    ];
+
+    const message = await createClient().generate(messages, new Map([['weather', WEATHER_TOOL as Tool]]));
+
+    expect(message.content).toBe('Done');
+    const request = requests[0]!;
+    expect(request.url).toBe('/v1beta/models/gemini-2.5-flash:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('test-key');
+    expect(request.body.systemInstruction).toEqual({ parts: [{ text: 'Be brief' }] });
+    expect(request.body.contents).toEqual([
+      {
+        role: 'user',
+        parts: [{ text: 'Describe these' }, { inlineData: { mimeType: 'video/mp4', data: 'VIDEO' } }],
+      },
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { id: 'call_1', name: 'weather', args: { city: 'Paris' } }, thoughtSignature: 'sig-1' },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { id: 'call_1', name: 'weather', response: { output: 'Sunny' } } },
+          { inlineData: { mimeType: 'audio/wav', data: 'AUDIO' } },
+        ],
+      },
+    ]);
+    expect(request.body.tools).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: 'weather',
+            description: 'Get the weather',
+            parameters: {
+              type: 'object',
+              properties: {
+                city: { type: 'string', description: 'City name' },
+                unit: { type: 'string', enum: ['celsius'] },
+              },
+              required: ['city'],
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should parse function calls, thoughts and token usage', async () => {
+    responses.push({
+      body: {
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [
+                { text: 'Checking the forecast', thought: true },
+                { text: 'Let me look.' },
+                { functionCall: { name: 'weather', args: { city: 'Oslo' } }, thoughtSignature: 'sig-2' },
+              ],
+            },
+            finishReason: 'STOP',
+          },
+        ],
+        usageMetadata: {
+          promptTokenCount: 120,
+          candidatesTokenCount: 30,
+          thoughtsTokenCount: 50,
+          cachedContentTokenCount: 100,
+        },
+      },
+    });
+
+    const message = await createClient({ thinking: { budgetTokens: 2048 } }).generate(
+      [{ role: 'user', content: 'Weather in Oslo?' }],
+      new Map()
+    );
+
+    expect(requests[0]!.body.generationConfig.thinkingConfig).toEqual({ thinkingBudget: 2048, includeThoughts: true });
+    expect(message).toMatchObject({
+      content: 'Let me look.',
+      reasoning: [{ type: 'reasoning', text: 'Checking the forecast' }],
+      toolCalls: [{ name: 'weather', arguments: '{"city":"Oslo"}', signature: 'sig-2' }],
+      tokenUsage: { input: 120, output: 80, reasoning: 50, cacheRead: 100 },
+    });
+  });
+
+  it('should stream text and function calls from server-sent events', async () => {
+    responses.push({
+      body: [
+        { candidates: [{ content: { role: 'model', parts: [{ text: 'Thinking', thought: true }] } }] },
+        { candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }] },
+        { candidates: [{ content: { role: 'model', parts: [{ text: 'lo' }] } }] },
+        {
+          candidates: [
+            { content: { role: 'model', parts: [{ functionCall: { name: 'weather', args: { city: 'Rome' } } }] } },
+          ],
+          usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 },
+        },
+      ],
+    });
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of createClient().generateStream([{ role: 'user', content: 'Hi' }], new Map())) {
+      events.push(event);
+    }
+
+    expect(requests[0]!.url).toBe('/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+    expect(events.slice(0, -1)).toEqual([
+      { type: 'reasoning:delta', delta: 'Thinking' },
+      { type: 'text:delta', delta: 'Hel' },
+      { type: 'text:delta', delta: 'lo' },
+      { type: 'tool_call:delta', index: 0, name: 'weather', argumentsDelta: '{"city":"Rome"}' },
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      message: {
+        content: 'Hello',
+        toolCalls: [{ name: 'weather', arguments: '{"city":"Rome"}' }],
+        tokenUsage: { input: 10, output: 5 },
+      },
+    });
+  });
+
+  it('should map context overflow to ContextOverflowError', async () => {
+    responses.push({
+      status: 400,
+      body: {
+        error: {
+          code: 400,
+          message: 'The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).',
+          status: 'INVALID_ARGUMENT',
+        },
+      },
+    });
+
+    await expect(createClient().generate([{ role: 'user', content: 'Hi' }], new Map())).rejects.toBeInstanceOf(
+      ContextOverflowError
+    );
+  });
+
+  it('should report other errors with their HTTP status', async () => {
+    responses.push({
+      status: 429,
+      body: { error: { code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' } },
+    });
+
+    const error = await createClient()
+      .generate([{ role: 'user', content: 'Hi' }], new Map())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GeminiAPIError);
+    expect(error).toMatchObject({ status: 429, reason: 'RESOURCE_EXHAUSTED' });
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for the agent hook pipeline:
+ * - beforeGenerate rewrites the request without touching history
+ * - afterGenerate rewrites or retries generations, with retries capped
+ * - beforeTool rewrites, denies and replaces tool calls
+ * - afterTool replaces results
+ * - Any hook can stop the run, reported via stopReason
+ * - onFinish sees (and may modify) the final result
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool, ToolCall } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { MAX_GENERATION_RETRIES } from '../../src/constants.js';
+import { denyTool, replaceToolResult, retryGeneration, stopRun, type AgentHooks } from '../../src/core/hooks.js';
+import { SIMPLE_FINISH_TOOL, type FinishParams } from '../../src/tools/finish.js';
+
+const EchoParamsSchema = z.object({ text: z.string() });
+
+function createEchoTool(calls: string[]): Tool<typeof EchoParamsSchema> {
+  return {
+    name: 'echo',
+    description: 'Echo text back',
+    parameters: EchoParamsSchema,
+    executor: async (params) => {
+      calls.push(params.text);
+      return { content: `echo: ${params.text}` };
+    },
+  };
+}
+
+const finishCall: ToolCall = {
+  name: 'finish',
+  arguments: JSON.stringify({ reason: 'done', paths: [] }),
+  toolCallId: 'call_finish',
+};
+
+/**
+ * Client that returns scripted responses in order and records every request it receives
+ */
+function createScriptedClient(responses: AssistantMessage[], requests: ChatMessage[][] = []): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (messages): Promise<AssistantMessage> => {
+      requests.push(messages);
+      return (
+        responses[callIndex++] ?? {
+          role: 'assistant',
+          content: 'Done',
+          toolCalls: [finishCall],
+          tokenUsage: { input: 1, output: 1 },
+        }
+      );
+    },
+  };
+}
+
+function echoResponse(text: string): AssistantMessage {
+  return {
+    role: 'assistant',
+    content: 'Echoing',
+    toolCalls: [{ name: 'echo', arguments: JSON.stringify({ text }), toolCallId: `call_${text}` }],
+    tokenUsage: { input: 10, output: 5 },
+  };
+}
+
+function createAgent(client: LLMClient, hooks: AgentHooks | AgentHooks[], calls: string[] = []) {
+  const agent = new Agent({
+    client,
+    name: 'hooks-test',
+    finishTool: SIMPLE_FINISH_TOOL,
+    tools: [createEchoTool(calls)],
+    hooks,
+  });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('Agent hooks', () => {
+  it('should send rewritten messages to the model while keeping history intact', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(createScriptedClient([], requests), {
+      beforeGenerate: (messages) =>
+        messages.map((m) =>
+          m.role === 'user' && typeof m.content === 'string'
+            ? { ...m, content: m.content.replace(/\d{4}/g, '****') }
+            : m
+        ),
+    });
+
+    const result = await agent.run('My PIN is 1234');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests[0]!.find((m) => m.role === 'user')!.content).toBe('My PIN is ****');
+    expect(result.messageHistory.flat().find((m) => m.role === 'user')!.content).toBe('My PIN is 1234');
+  });
+
+  it('should run hooks as a pipeline in order', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(createScriptedClient([], requests), [
+      { beforeGenerate: (messages) => [...messages, { role: 'user', content: 'first' }] },
+      { beforeGenerate: (messages) => [...messages, { role: 'user', content: 'second' }] },
+    ]);
+
+    await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests[0]!.slice(-2).map((m) => m.content)).toEqual(['first', 'second']);
+  });
+
+  it('should retry generation when afterGenerate asks for it', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(
+      createScriptedClient(
+        [{ role: 'assistant', content: 'bad answer', tokenUsage: { input: 10, output: 5 } }],
+        requests
+      ),
+      { afterGenerate: (message) => (message.content === 'bad answer' ? retryGeneration() : undefined) }
+    );
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests).toHaveLength(2);
+    expect((result.finishParams as FinishParams).reason).toBe('done');
+    // Both generations are counted in token usage
+    expect((result.runMetadata.token_usage as { input: number }).input).toBe(11);
+  });
+
+  it('should stop the run when afterGenerate keeps retrying', async () => {
+    const requests: ChatMessage[][] = [];
+    const calls: string[] = [];
+    const agent = createAgent(
+      createScriptedClient(
+        Array.from({ length: 10 }, () => echoResponse('again')),
+        requests
+      ),
+      { afterGenerate: () => retryGeneration() },
+      calls
+    );
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests).toHaveLength(MAX_GENERATION_RETRIES + 1);
+    expect(calls).toEqual([]);
+    expect(result.stopReason).toEqual({
+      source: 'hook',
+      hook: 'afterGenerate',
+      reason: `Generation retried ${MAX_GENERATION_RETRIES} times`,
+    });
+  });
+
+  it('should stop retrying once the budget is exhausted', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = new Agent({
+      client: createScriptedClient(
+        Array.from({ length: 10 }, () => echoResponse('again')),
+        requests
+      ),
+      name: 'hooks-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createEchoTool([])],
+      hooks: { afterGenerate: () => retryGeneration() },
+      budget: { maxInputTokens: 15 },
+    });
+    agent.session({ noLogger: true });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests).toHaveLength(2);
+    expect(result.stopReason).toMatchObject({ source: 'budget', budget: 'inputTokens', limit: 15, used: 20 });
+  });
+
+  it('should rewrite, deny and replace tool calls in beforeTool', async () => {
+    const calls: string[] = [];
+    const agent = createAgent(
+      createScriptedClient([
+        {
+          role: 'assistant',
+          content: 'Echoing',
+          toolCalls: [
+            { name: 'echo', arguments: JSON.stringify({ text: 'rewrite me' }), toolCallId: 'a' },
+            { name: 'echo', arguments: JSON.stringify({ text: 'forbidden' }), toolCallId: 'b' },
+            { name: 'echo', arguments: JSON.stringify({ text: 'cached' }), toolCallId: 'c' },
+          ],
+        },
+      ]),
+      {
+        beforeTool: (toolCall) => {
+          const { text } = JSON.parse(toolCall.arguments) as { text: string };
+          if (text === 'rewrite me') return { ...toolCall, arguments: JSON.stringify({ text: 'rewritten' }) };
+          if (text === 'forbidden') return denyTool('Denied by policy');
+          if (text === 'cached') return replaceToolResult({ content: 'from cache' });
+        },
+      },
+      calls
+    );
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(calls).toEqual(['rewritten']);
+    const toolMessages = result.messageHistory.flat().filter((m) => m.role === 'tool' && m.name === 'echo');
+    expect(toolMessages.map((m) => [m.role === 'tool' && m.toolCallId, m.content])).toEqual([
+      ['a', 'echo: rewritten'],
+      ['b', 'Denied by policy'],
+      ['c', 'from cache'],
+    ]);
+  });
+
+  it('should not finish when the finish call is denied', async () => {
+    let finishAttempts = 0;
+    const agent = createAgent(createScriptedClient([]), {
+      beforeTool: (toolCall) => {
+        if (toolCall.name === 'finish' && finishAttempts++ === 0) return denyTool('Not yet');
+      },
+    });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(finishAttempts).toBe(2);
+    expect(result.finishParams).toBeDefined();
+  });
+
+  it('should replace tool results in afterTool', async () => {
+    const agent = createAgent(createScriptedClient([echoResponse('secret')]), {
+      afterTool: (_toolCall, message) => ({ ...message, content: '[redacted]' }),
+    });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    const echoMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'echo');
+    expect(echoMessage!.content).toBe('[redacted]');
+  });
+
+  it('should stop the run from beforeGenerate', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(createScriptedClient([echoResponse('one')], requests), {
+      beforeGenerate: (_messages, context) => (context.turn === 1 ? stopRun('limit reached') : undefined),
+    });
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests).toHaveLength(1);
+    expect(result.finishParams).toBeUndefined();
+    expect(result.stopReason).toEqual({ source: 'hook', hook: 'beforeGenerate', reason: 'limit reached' });
+  });
+
+  it('should skip remaining tool calls when beforeTool stops the run', async () => {
+    const calls: string[] = [];
+    const agent = createAgent(
+      createScriptedClient([
+        {
+          role: 'assistant',
+          content: 'Echoing',
+          toolCalls: [
+            { name: 'echo', arguments: JSON.stringify({ text: 'dangerous' }), toolCallId: 'a' },
+            { name: 'echo', arguments: JSON.stringify({ text: 'after' }), toolCallId: 'b' },
+          ],
+        },
+      ]),
+      {
+        beforeTool: (toolCall) => (toolCall.arguments.includes('dangerous') ? stopRun('policy violation') : undefined),
+      },
+      calls
+    );
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(calls).toEqual([]);
+    expect(result.stopReason).toEqual({ source: 'hook', hook: 'beforeTool', reason: 'policy violation' });
+    const toolMessages = result.messageHistory.flat().filter((m) => m.role === 'tool');
+    expect(toolMessages).toHaveLength(2);
+    expect(toolMessages.every((m) => String(m.content).startsWith('Tool call skipped'))).toBe(true);
+  });
+
+  it('should stop after generation without running tools', async () => {
+    const calls: string[] = [];
+    const agent = createAgent(createScriptedClient([echoResponse('never')]), { afterGenerate: () => stopRun() }, calls);
+
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(calls).toEqual([]);
+    expect(result.stopReason).toEqual({ source: 'hook', hook: 'afterGenerate', reason: undefined });
+    // The skipped call is still answered, so the history can be sent to a provider again
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool');
+    expect(toolMessage).toMatchObject({
+      toolCallId: 'call_never',
+      name: 'echo',
+      content: 'Tool call skipped: the run was stopped',
+    });
+  });
+
+  it('should pass the final result through onFinish', async () => {
+    const agent = createAgent(createScriptedClient([]), {
+      onFinish: (result) => ({ ...result, runMetadata: { ...result.runMetadata, audited: true } }),
+    });
+
+    let emitted: unknown;
+    agent.on('run:complete', ({ result }) => (emitted = result.runMetadata.audited));
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(result.runMetadata.audited).toBe(true);
+    expect(emitted).toBe(true);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Tests for local model clients against a local HTTP stub:
+ * - OllamaClient reads the context length and tool support from /api/show
+ * - Native function calling, and the JSON-in-text fallback for models without it
+ * - LlamaCppClient renders the chat template and completes through /completion
+ * - Streaming and context overflow mapping
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import type { ChatMessage, LLMStreamEvent, Tool } from '../../src/core/models.js';
+import { ContextOverflowError } from '../../src/core/models.js';
+import { OllamaClient, type OllamaClientConfig } from '../../src/clients/ollama-client.js';
+import { LlamaCppClient } from '../../src/clients/llamacpp-client.js';
+import { parseTextToolCalls, toTextToolMessages } from '../../src/clients/utils.js';
+
+interface StubResponse {
+  status?: number;
+  /** 'sse' and 'ndjson' stream each item of an array body */
+  format?: 'json' | 'sse' | 'ndjson';
+  body: unknown;
+}
+
+let server: Server;
+let baseURL: string;
+let requests: Array<{ method: string; url: string; body: any }>;
+let routes: Record<string, StubResponse | StubResponse[]>;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+    req.on('end', () => {
+      const url = req.url ?? '';
+      requests.push({ method: req.method ?? '', url, body: data ? JSON.parse(data) : undefined });
+      const route = routes[url];
+      const response = (Array.isArray(route) ? route.shift() : route) ?? { status: 404, body: { error: 'Not found' } };
+      if (response.format === 'sse' || response.format === 'ndjson') {
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': response.format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+        });
+        for (const item of response.body as unknown[]) {
+          res.write(response.format === 'sse' ? `data: ${JSON.stringify(item)}\n\n` : `${JSON.stringify(item)}\n`);
+        }
+        res.end();
+      } else {
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  routes = {};
+});
+
+const WEATHER_TOOL: Tool<z.ZodObject<{ city: z.ZodString }>> = {
+  name: 'weather',
+  description: 'Get the weather',
+  parameters: z.object({ city: z.string() }),
+  executor: () => ({ content: 'Sunny' }),
+};
+const tools = new Map([['weather', WEATHER_TOOL as Tool]]);
+
+function showResponse(capabilities: string[]): StubResponse {
+  return {
+    body: {
+      model_info: { 'general.architecture': 'qwen3', 'qwen3.context_length': 40960 },
+      capabilities,
+    },
+  };
+}
+
+function createOllama(config: Partial<OllamaClientConfig> = {}): OllamaClient {
+  return new OllamaClient({ model: 'qwen3:8b', baseURL, maxRetries: 0, ...config });
+}
+
+describe('parseTextToolCalls', () => {
+  it('should parse tool calls from bare or fenced JSON', () => {
+    const bare = parseTextToolCalls('{"tool_calls": [{"name": "weather", "arguments": {"city": "Oslo"}}]}');
+    expect(bare.content).toBe('');
+    expect(bare.toolCalls).toMatchObject([{ name: 'weather', arguments: '{"city":"Oslo"}' }]);
+    expect(bare.toolCalls?.[0]?.toolCallId).toMatch(/^call_/);
+
+    const fenced = parseTextToolCalls(
+      'Let me check.\n```json\n{"tool_calls": [{"name": "a", "arguments": {}}, {"name": "b", "arguments": {"x": "}"}}]}\n```'
+    );
+    expect(fenced.content).toBe('Let me check.');
+    expect(fenced.toolCalls?.map((call) => call.name)).toEqual(['a', 'b']);
+    expect(fenced.toolCalls?.[1]?.arguments).toBe('{"x":"}"}');
+  });
+
+  it('should accept a single call object and leave other JSON as text', () => {
+    expect(parseTextToolCalls('{"name": "weather", "arguments": {"city": "Rome"}}').toolCalls).toMatchObject([
+      { name: 'weather', arguments: '{"city":"Rome"}' },
+    ]);
+    expect(parseTextToolCalls('The config is {"name": "app"} and {not json}')).toEqual({
+      content: 'The config is {"name": "app"} and {not json}',
+    });
+  });
+});
+
+describe('toTextToolMessages', () => {
+  it('should describe tools in the system prompt and turn tool messages into user text', () => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'Be helpful' },
+      { role: 'user', content: 'Weather in Oslo?' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ name: 'weather', arguments: '{"city":"Oslo"}', toolCallId: 'c1' }],
+      },
+      { role: 'tool', name: 'weather', toolCallId: 'c1', argsWasValid: true, content: 'Sunny' },
+      { role: 'user', content: 'Thanks' },
+    ];
+
+    const converted = toTextToolMessages(messages, tools);
+
+    expect(converted).toHaveLength(4);
+    expect(converted[0]?.content).toContain('Be helpful');
+    expect(converted[0]?.content).toContain('- weather: Get the weather');
+    expect(converted[0]?.content).toContain('{"tool_calls": [');
+    expect(converted[2]).toEqual({
+      role: 'assistant',
+      content: '{"tool_calls":[{"name":"weather","arguments":{"city":"Oslo"}}]}',
+    });
+    expect(converted[3]).toEqual({ role: 'user', content: 'Result of weather (call c1):\nSunny\n\nThanks' });
+  });
+});
+
+describe('OllamaClient', () => {
+  it('should read the context length from the server and use native tool calls', async () => {
+    routes['/api/show'] = showResponse(['completion', 'tools']);
+    routes['/api/chat'] = {
+      body: {
+        message: {
+          role: 'assistant',
+          content: '',
+          thinking: 'Need the weather',
+          tool_calls: [{ function: { name: 'weather', arguments: { city: 'Oslo' } } }],
+        },
+        done: true,
+        prompt_eval_count: 42,
+        eval_count: 7,
+      },
+    };
+
+    const client = await OllamaClient.create({ model: 'qwen3:8b', baseURL, maxRetries: 0 });
+    expect(client.maxTokens).toBe(40960);
+
+    const message = await client.generate(
+      [
+        { role: 'user', content: ['Look', { type: 'image', data: 'data:image/png;base64,IMG' }] },
+        { role: 'assistant', content: 'Ok', toolCalls: [{ name: 'weather', arguments: '{"city":"Rome"}' }] },
+        { role: 'tool', name: 'weather', toolCallId: 'c0', argsWasValid: true, content: 'Rainy' },
+      ],
+      tools
+    );
+
+    const chat = requests.find((request) => request.url === '/api/chat')!;
+    expect(chat.body).toMatchObject({
+      model: 'qwen3:8b',
+      stream: false,
+      options: { num_ctx: 40960 },
+      tools: [{ type: 'function', function: { name: 'weather' } }],
+      messages: [
+        { role: 'user', content: 'Look', images: ['IMG'] },
+        {
+          role: 'assistant',
+          content: 'Ok',
+          tool_calls: [{ function: { name: 'weather', arguments: { city: 'Rome' } } }],
+        },
+        { role: 'tool', content: 'Rainy', tool_name: 'weather' },
+      ],
+    });
+    expect(message).toMatchObject({
+      content: '',
+      reasoning: [{ type: 'reasoning', text: 'Need the weather' }],
+      toolCalls: [{ name: 'weather', arguments: '{"city":"Oslo"}' }],
+      tokenUsage: { input: 42, output: 7 },
+    });
+  });
+
+  it('should fall back to JSON tool calls for models without function calling', async () => {
+    routes['/api/show'] = showResponse(['completion']);
+    routes['/api/chat'] = {
+      body: {
+        message: { role: 'assistant', content: '{"tool_calls": [{"name": "weather", "arguments": {"city": "Lima"}}]}' },
+        done: true,
+      },
+    };
+
+    const message = await createOllama().generate([{ role: 'user', content: 'Weather in Lima?' }], tools);
+
+    const chat = requests.find((request) => request.url === '/api/chat')!;
+    expect(chat.body.tools).toBeUndefined();
+    expect(chat.body.messages[0]).toMatchObject({ role: 'system' });
+    expect(chat.body.messages[0].content).toContain('weather');
+    expect(message.toolCalls).toMatchObject([{ name: 'weather', arguments: '{"city":"Lima"}' }]);
+  });
+
+  it('should keep configured settings without asking the server', async () => {
+    routes['/api/chat'] = { body: { message: { role: 'assistant', content: 'Hi' }, done: true } };
+
+    const client = createOllama({ maxTokens: 2048, toolCalling: 'native' });
+    expect((await client.generate([{ role: 'user', content: 'Hello' }], new Map())).content).toBe('Hi');
+
+    expect(requests.map((request) => request.url)).toEqual(['/api/chat']);
+    expect(requests[0]?.body.options.num_ctx).toBe(2048);
+  });
+
+  it('should stream newline-delimited JSON', async () => {
+    routes['/api/show'] = showResponse(['completion', 'tools']);
+    routes['/api/chat'] = {
+      format: 'ndjson',
+      body: [
+        { message: { role: 'assistant', content: 'Hel' }, done: false },
+        { message: { role: 'assistant', content: 'lo' }, done: false },
+        { message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 5, eval_count: 2 },
+      ],
+    };
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of createOllama().generateStream([{ role: 'user', content: 'Hi' }], new Map())) {
+      events.push(event);
+    }
+
+    expect(events.slice(0, -1)).toEqual([
+      { type: 'text:delta', delta: 'Hel' },
+      { type: 'text:delta', delta: 'lo' },
+    ]);
+    expect(events.at(-1)).toMatchObject({
+      type: 'done',
+      message: { content: 'Hello', tokenUsage: { input: 5, output: 2 } },
+    });
+  });
+});
+
+describe('LlamaCppClient', () => {
+  it('should render the chat template, complete and parse tool calls', async () => {
+    routes['/props'] = { body: { default_generation_settings: { n_ctx: 16384 } } };
+    routes['/apply-template'] = { body: { prompt: '<|user|>Weather in Oslo?<|assistant|>' } };
+    routes['/completion'] = {
+      body: {
+        content: 'Checking.\n{"tool_calls": [{"name": "weather", "arguments": {"city": "Oslo"}}]}',
+        tokens_evaluated: 120,
+        tokens_predicted: 20,
+      },
+    };
+
+    const client = await LlamaCppClient.create({ baseURL, model: 'qwen2.5-7b', maxRetries: 0 });
+    expect(client.maxTokens).toBe(16384);
+    expect(client.modelSlug).toBe('qwen2.5-7b');
+
+    const message = await client.generate([{ role: 'user', content: 'Weather in Oslo?' }], tools);
+
+    const template = requests.find((request) => request.url === '/apply-template')!;
+    expect(template.body.messages[0].role).toBe('system');
+    expect(template.body.messages[1]).toEqual({ role: 'user', content: 'Weather in Oslo?' });
+    expect(requests.find((request) => request.url === '/completion')?.body).toMatchObject({
+      prompt: '<|user|>Weather in Oslo?<|assistant|>',
+      stream: false,
+    });
+    expect(message).toMatchObject({
+      content: 'Checking.',
+      toolCalls: [{ name: 'weather', arguments: '{"city":"Oslo"}' }],
+      tokenUsage: { input: 120, output: 20 },
+    });
+  });
+
+  it('should stream completions from server-sent events', async () => {
+    routes['/apply-template'] = { body: { prompt: 'prompt' } };
+    routes['/completion'] = {
+      format: 'sse',
+      body: [
+        { content: 'Hi', stop: false },
+        { content: ' there', stop: false },
+        { content: '', stop: true, tokens_evaluated: 3, tokens_predicted: 2 },
+      ],
+    };
+
+    const events: LLMStreamEvent[] = [];
+    const client = new LlamaCppClient({ baseURL, maxTokens: 4096, maxRetries: 0 });
+    for await (const event of client.generateStream([{ role: 'user', content: 'Hello' }], new Map())) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.type)).toEqual(['text:delta', 'text:delta', 'done']);
+    expect(events.at(-1)).toMatchObject({ message: { content: 'Hi there', tokenUsage: { input: 3, output: 2 } } });
+  });
+
+  it('should map context overflow to ContextOverflowError', async () => {
+    routes['/apply-template'] = { body: { prompt: 'prompt' } };
+    routes['/completion'] = {
+      status: 400,
+      body: {
+        error: {
+          code: 400,
+          message: 'the request exceeds the available context size, try increasing it',
+          type: 'exceed_context_size_error',
+        },
+      },
+    };
+
+    const client = new LlamaCppClient({ baseURL, maxTokens: 4096, maxRetries: 0 });
+    await expect(client.generate([{ role: 'user', content: 'Hello' }], new Map())).rejects.toBeInstanceOf(
+      ContextOverflowError
+    );
+  });
+});
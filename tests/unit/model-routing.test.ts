@@ -0,0 +1,207 @@
+/**
+ * Tests for multi-model clients:
+ * - FallbackClient moves to the next client on rate limits, 5xx errors and context overflow, but not other errors
+ * - RouterClient picks a client per request with its policy
+ * - The agent reports, prices and counts the model used for each turn
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { ChatMessage, LLMStreamEvent, Tool } from '../../src/core/models.js';
+import { ContextOverflowError } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+import { FallbackClient, isFallbackError } from '../../src/clients/fallback-client.js';
+import { RouterClient } from '../../src/clients/router-client.js';
+import { ScriptedClient, callTool, finish, reply } from '../../src/testing/index.js';
+
+const USAGE = { input: 10_000, output: 1_000 };
+
+/** Cost of one generation with USAGE at the given prices (USD per million tokens) */
+function costOf(input: number, output: number): number {
+  return (USAGE.input * input + USAGE.output * output) / 1_000_000;
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Hi' }];
+
+/** Tool that fails when asked to */
+const CHECK_TOOL: Tool<z.ZodObject<{ ok: z.ZodBoolean }>> = {
+  name: 'check',
+  description: 'Run a check',
+  parameters: z.object({ ok: z.boolean() }),
+  executor: (params) => {
+    if (!params.ok) throw new Error('check failed');
+    return { content: 'passed' };
+  },
+};
+
+function createAgent(client: FallbackClient | RouterClient): Agent {
+  const agent = new Agent({ client, name: 'multi-model', tools: [CHECK_TOOL], finishTool: SIMPLE_FINISH_TOOL });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('FallbackClient', () => {
+  it('should fall back on rate limits, server errors and context overflow', async () => {
+    const fallbacks: string[] = [];
+    const client = new FallbackClient({
+      clients: [
+        new ScriptedClient({ modelSlug: 'first', responses: [httpError(429)] }),
+        new ScriptedClient({ modelSlug: 'second', responses: [httpError(503)] }),
+        new ScriptedClient({ modelSlug: 'third', responses: [new ContextOverflowError('too long')] }),
+        new ScriptedClient({ modelSlug: 'fourth', responses: [reply('Hello')] }),
+      ],
+      onFallback: (_error, from, to) => fallbacks.push(`${from.modelSlug}->${to.modelSlug}`),
+    });
+
+    const message = await client.generate(messages, new Map());
+
+    expect(message).toMatchObject({ content: 'Hello', model: 'fourth' });
+    expect(fallbacks).toEqual(['first->second', 'second->third', 'third->fourth']);
+    expect(client.modelSlug).toBe('first');
+  });
+
+  it('should throw other errors and the last client error', async () => {
+    const second = new ScriptedClient({ modelSlug: 'second', fallback: reply('unused') });
+    const badRequest = new FallbackClient({
+      clients: [new ScriptedClient({ responses: [httpError(400)] }), second],
+    });
+    await expect(badRequest.generate(messages, new Map())).rejects.toThrow('HTTP 400');
+    expect(second.requests).toHaveLength(0);
+
+    const exhausted = new FallbackClient({
+      clients: [
+        new ScriptedClient({ responses: [httpError(429)] }),
+        new ScriptedClient({ responses: [httpError(500)] }),
+      ],
+    });
+    await expect(exhausted.generate(messages, new Map())).rejects.toThrow('HTTP 500');
+  });
+
+  it('should fall back when a stream fails before yielding anything', async () => {
+    const client = new FallbackClient({
+      clients: [
+        new ScriptedClient({ modelSlug: 'first', responses: [httpError(529)] }),
+        new ScriptedClient({ modelSlug: 'second', responses: [reply('Streamed')] }),
+      ],
+    });
+
+    const events: LLMStreamEvent[] = [];
+    for await (const event of client.generateStream(messages, new Map())) {
+      events.push(event);
+    }
+
+    expect(events.at(-1)).toMatchObject({ type: 'done', message: { content: 'Streamed', model: 'second' } });
+  });
+
+  it('should classify errors by status', () => {
+    expect(isFallbackError(httpError(429))).toBe(true);
+    expect(isFallbackError(httpError(502))).toBe(true);
+    expect(isFallbackError(new ContextOverflowError('too long'))).toBe(true);
+    expect(isFallbackError(httpError(401))).toBe(false);
+    expect(isFallbackError(new Error('boom'))).toBe(false);
+  });
+
+  it('should report and price the model that answered each turn', async () => {
+    const client = new FallbackClient({
+      clients: [
+        new ScriptedClient({
+          modelSlug: 'gpt-5',
+          tokenUsage: USAGE,
+          responses: [callTool('check', { ok: true }), httpError(429)],
+        }),
+        new ScriptedClient({ modelSlug: 'gpt-5-mini', tokenUsage: USAGE, responses: [finish()] }),
+      ],
+    });
+    const agent = createAgent(client);
+    const turnModels: string[] = [];
+    agent.on('turn:complete', ({ model }) => turnModels.push(model));
+
+    const result = await agent.run('Check it');
+
+    expect(turnModels).toEqual(['gpt-5', 'gpt-5-mini']);
+    expect(result.speedStats?.modelSlug).toBe('gpt-5-mini');
+    expect(result.speedStats?.generationsByModel).toEqual({ 'gpt-5': 1, 'gpt-5-mini': 1 });
+    expect(result.speedStats?.costUsd).toBeCloseTo(costOf(1.25, 10) + costOf(0.25, 2));
+    expect(JSON.parse(JSON.stringify(result.runMetadata['models']))).toMatchObject({
+      by_model: {
+        'gpt-5': { generations: 1, input: 10_000, output: 1_000, cost: costOf(1.25, 10) },
+        'gpt-5-mini': { generations: 1, input: 10_000, output: 1_000, cost: costOf(0.25, 2) },
+      },
+      turns: [
+        { turn: 0, model: 'gpt-5' },
+        { turn: 1, model: 'gpt-5-mini' },
+      ],
+    });
+  });
+});
+
+describe('RouterClient', () => {
+  it('should route turns with the policy', async () => {
+    const cheap = new ScriptedClient({
+      modelSlug: 'gpt-5-mini',
+      tokenUsage: USAGE,
+      responses: [callTool('check', { ok: false }), finish()],
+    });
+    const strong = new ScriptedClient({
+      modelSlug: 'gpt-5',
+      tokenUsage: USAGE,
+      responses: [callTool('check', { ok: true }), callTool('check', { ok: true })],
+    });
+    const client = new RouterClient({
+      clients: { cheap, strong },
+      defaultClient: 'strong',
+      policy: ({ afterToolResults, failedTurns }) => (failedTurns > 0 || !afterToolResults ? 'strong' : 'cheap'),
+    });
+    expect(client.modelSlug).toBe('gpt-5');
+
+    const result = await createAgent(client).run('Check it');
+
+    // strong starts, cheap handles the passing check, strong takes over after the failure, cheap finishes
+    expect(result.runMetadata['models']).toMatchObject({
+      turns: [
+        { turn: 0, model: 'gpt-5' },
+        { turn: 1, model: 'gpt-5-mini' },
+        { turn: 2, model: 'gpt-5' },
+        { turn: 3, model: 'gpt-5-mini' },
+      ],
+    });
+    const models = JSON.parse(JSON.stringify(result.runMetadata['models'])) as {
+      by_model: Record<string, { cost?: number }>;
+    };
+    expect(models.by_model['gpt-5']?.cost).toBeCloseTo(2 * costOf(1.25, 10));
+    expect(models.by_model['gpt-5-mini']?.cost).toBeCloseTo(2 * costOf(0.25, 2));
+    expect(result.speedStats?.costUsd).toBeCloseTo(2 * costOf(1.25, 10) + 2 * costOf(0.25, 2));
+    expect(result.speedStats?.generationsByModel).toEqual({ 'gpt-5': 2, 'gpt-5-mini': 2 });
+  });
+
+  it('should give the policy token estimates and use the largest context window', async () => {
+    const seen: number[] = [];
+    const small = new ScriptedClient({ maxTokens: 1_000, fallback: reply('small') });
+    const large = new ScriptedClient({ maxTokens: 100_000, fallback: reply('large') });
+    const client = new RouterClient({
+      clients: { small, large },
+      policy: ({ estimatedTokens, clients }) => {
+        seen.push(estimatedTokens);
+        return estimatedTokens > clients.small.maxTokens / 2 ? 'large' : 'small';
+      },
+    });
+
+    expect(client.maxTokens).toBe(100_000);
+    expect((await client.generate(messages, new Map())).content).toBe('small');
+    expect((await client.generate([{ role: 'user', content: 'x'.repeat(4_000) }], new Map())).content).toBe('large');
+    expect(seen[1]).toBeGreaterThan(500);
+  });
+
+  it('should reject unknown client keys', async () => {
+    const client = new RouterClient<string>({
+      clients: { only: new ScriptedClient({ fallback: reply('ok') }) },
+      policy: () => 'missing',
+    });
+    await expect(client.generate(messages, new Map())).rejects.toThrow("unknown client 'missing'");
+  });
+});
@@ -52,4 +52,38 @@ describe('OpenResponsesClient', () => {
     expect(typeof client.modelSlug).toBe('string');
     expect(typeof client.maxTokens).toBe('number');
   });
+
+  it('should request and capture reasoning summaries', async () => {
+    const { OpenResponsesClient } = await import('../../src/clients/open-responses-client.js');
+    const client = new OpenResponsesClient({
+      model: 'o3',
+      apiKey: 'test-key',
+      reasoningEffort: 'high',
+      reasoningSummary: 'auto',
+    });
+    const requests: Record<string, unknown>[] = [];
+    (client as any).client.responses.create = async (params: Record<string, unknown>) => {
+      requests.push(params);
+      return {
+        output: [
+          {
+            type: 'reasoning',
+            id: 'rs_1',
+            summary: [
+              { type: 'summary_text', text: 'Considered the options.' },
+              { type: 'summary_text', text: 'Picked the simplest.' },
+            ],
+          },
+          { type: 'message', content: [{ type: 'output_text', text: 'Done' }] },
+        ],
+        usage: { input_tokens: 10, output_tokens: 20, output_tokens_details: { reasoning_tokens: 15 } },
+      };
+    };
+
+    const message = await client.generate([{ role: 'user', content: 'Decide' }], new Map());
+
+    expect(requests[0]!.reasoning).toEqual({ effort: 'high', summary: 'auto' });
+    expect(message.content).toBe('Done');
+    expect(message.reasoning).toEqual([{ type: 'reasoning', text: 'Considered the options.\n\nPicked the simplest.' }]);
+  });
 });
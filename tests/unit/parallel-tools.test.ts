@@ -0,0 +1,270 @@
+/**
+ * Tests for parallel tool execution:
+ * - Bounded concurrency via maxParallelToolCalls
+ * - Tool messages preserve call order
+ * - Exclusive tools run on their own
+ * - Sub-agent concurrency follows the sub-agent's tools
+ * - Wall-clock vs summed tool timing in speed stats
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool, ToolCall } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+import { intervalUnionLength, mapWithConcurrency } from '../../src/utils/concurrency.js';
+
+const SleepParamsSchema = z.object({ ms: z.number(), label: z.string() });
+
+/**
+ * Create a tool that sleeps and records start/end events into a shared log
+ */
+function createSleepTool(
+  name: string,
+  log: string[],
+  concurrency?: 'parallel' | 'exclusive'
+): Tool<typeof SleepParamsSchema> {
+  return {
+    name,
+    description: 'Sleep for the given number of milliseconds',
+    parameters: SleepParamsSchema,
+    concurrency,
+    executor: async (params) => {
+      log.push(`start:${params.label}`);
+      await new Promise((resolve) => setTimeout(resolve, params.ms));
+      log.push(`end:${params.label}`);
+      return { content: `slept ${params.label}` };
+    },
+  };
+}
+
+/**
+ * Client that emits the given tool calls in its first turn, then finishes
+ */
+function createClient(toolCalls: ToolCall[], seen: ChatMessage[][] = []): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (messages): Promise<AssistantMessage> => {
+      seen.push([...messages]);
+      if (callIndex++ === 0) {
+        return { role: 'assistant', content: 'Working', toolCalls, tokenUsage: { input: 10, output: 10 } };
+      }
+      return {
+        role: 'assistant',
+        content: 'Done',
+        toolCalls: [{ name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'fin' }],
+        tokenUsage: { input: 10, output: 10 },
+      };
+    },
+  };
+}
+
+function sleepCall(name: string, ms: number, label: string): ToolCall {
+  return { name, arguments: JSON.stringify({ ms, label }), toolCallId: `call_${label}` };
+}
+
+describe('mapWithConcurrency', () => {
+  it('should cap in-flight calls and keep input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('intervalUnionLength', () => {
+  it('should merge overlapping intervals', () => {
+    expect(
+      intervalUnionLength([
+        [0, 10],
+        [5, 15],
+        [20, 25],
+      ])
+    ).toBe(20);
+    expect(intervalUnionLength([])).toBe(0);
+  });
+});
+
+describe('Parallel tool execution', () => {
+  it('should run tool calls sequentially by default', async () => {
+    const log: string[] = [];
+    const agent = new Agent({
+      client: createClient([sleepCall('sleep', 20, 'a'), sleepCall('sleep', 5, 'b')]),
+      name: 'sequential',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createSleepTool('sleep', log)],
+    });
+    agent.session({ noLogger: true });
+
+    await agent.run('go');
+    await agent[Symbol.asyncDispose]();
+
+    expect(log).toEqual(['start:a', 'end:a', 'start:b', 'end:b']);
+  });
+
+  it('should run calls concurrently and keep tool messages in call order', async () => {
+    const log: string[] = [];
+    const seen: ChatMessage[][] = [];
+    const agent = new Agent({
+      client: createClient([sleepCall('sleep', 60, 'slow'), sleepCall('sleep', 5, 'fast')], seen),
+      name: 'parallel',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createSleepTool('sleep', log)],
+      maxParallelToolCalls: 4,
+    });
+    agent.session({ noLogger: true });
+
+    const result = await agent.run('go');
+    await agent[Symbol.asyncDispose]();
+
+    // The fast call finishes first...
+    expect(log).toEqual(['start:slow', 'start:fast', 'end:fast', 'end:slow']);
+    // ...but results are returned to the model in the order they were requested
+    const toolMessages = seen[1]!.filter((m) => m.role === 'tool');
+    expect(toolMessages.map((m) => m.content)).toEqual(['slept slow', 'slept fast']);
+
+    const timing = result.speedStats!.toolBreakdown['sleep']!;
+    expect(timing.wallMs).toBeLessThan(timing.totalMs);
+    expect(result.speedStats!.totalToolWallMs).toBeLessThan(result.speedStats!.totalToolMs);
+  });
+
+  it('should run exclusive tools on their own', async () => {
+    const log: string[] = [];
+    const agent = new Agent({
+      client: createClient([
+        sleepCall('sleep', 20, 'a'),
+        sleepCall('sleep', 20, 'b'),
+        sleepCall('lock', 5, 'x'),
+        sleepCall('sleep', 5, 'c'),
+      ]),
+      name: 'exclusive',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createSleepTool('sleep', log), createSleepTool('lock', log, 'exclusive')],
+      maxParallelToolCalls: 4,
+    });
+    agent.session({ noLogger: true });
+
+    await agent.run('go');
+    await agent[Symbol.asyncDispose]();
+
+    const lockStart = log.indexOf('start:x');
+    expect(log.slice(0, lockStart).sort()).toEqual(['end:a', 'end:b', 'start:a', 'start:b']);
+    expect(log.slice(lockStart)).toEqual(['start:x', 'end:x', 'start:c', 'end:c']);
+  });
+});
+
+describe('Sub-agent concurrency', () => {
+  /**
+   * Sub-agent client that sleeps once under the task's label, then finishes
+   */
+  function createSubAgentClient(): LLMClient {
+    return {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (messages): Promise<AssistantMessage> => {
+        const last = messages.at(-1)!;
+        if (last.role === 'user') {
+          const label = String(last.content);
+          return { role: 'assistant', content: 'Working', toolCalls: [sleepCall('sleep', 20, label)] };
+        }
+        return {
+          role: 'assistant',
+          content: 'Done',
+          toolCalls: [{ name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'fin' }],
+        };
+      },
+    };
+  }
+
+  it('should make a sub-agent parallel only when all of its tools are', () => {
+    const parallel = new Agent({
+      client: createSubAgentClient(),
+      name: 'helper',
+      tools: [createSleepTool('sleep', [])],
+    });
+    const exclusive = new Agent({
+      client: createSubAgentClient(),
+      name: 'locker',
+      tools: [createSleepTool('sleep', []), createSleepTool('lock', [], 'exclusive')],
+    });
+
+    expect(parallel.toTool().concurrency).toBe('parallel');
+    expect(parallel.toTool(undefined, 'Custom prompt').concurrency).toBe('parallel');
+    expect(exclusive.toTool().concurrency).toBe('exclusive');
+    expect(exclusive.toTool(undefined, 'Custom prompt').concurrency).toBe('exclusive');
+  });
+
+  it('should run concurrent calls to the same sub-agent independently', async () => {
+    const log: string[] = [];
+    const seen: ChatMessage[][] = [];
+    const helper = new Agent({
+      client: createSubAgentClient(),
+      name: 'helper',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createSleepTool('sleep', log)],
+    });
+    const parent = new Agent({
+      client: createClient(
+        [
+          { name: 'helper', arguments: JSON.stringify({ task: 'a' }), toolCallId: 'call_a' },
+          { name: 'helper', arguments: JSON.stringify({ task: 'b' }), toolCallId: 'call_b' },
+        ],
+        seen
+      ),
+      name: 'parent',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [helper.toTool()],
+      maxParallelToolCalls: 2,
+    });
+    parent.session({ noLogger: true });
+
+    await parent.run('go');
+    await parent[Symbol.asyncDispose]();
+
+    expect(log.slice(0, 2).sort()).toEqual(['start:a', 'start:b']);
+    const toolMessages = seen[1]!.filter((m) => m.role === 'tool');
+    expect(toolMessages.map((m) => m.content)).toEqual([
+      '<sub_agent_result>\n  <reason>done</reason>\n</sub_agent_result>',
+      '<sub_agent_result>\n  <reason>done</reason>\n</sub_agent_result>',
+    ]);
+  });
+
+  it('should keep the budget on sub-agent copies', async () => {
+    const log: string[] = [];
+    const helper = new Agent({
+      client: createSubAgentClient(),
+      name: 'helper',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [createSleepTool('sleep', log)],
+      budget: { maxToolCalls: { sleep: 0 } },
+    });
+    const parent = new Agent({
+      client: createClient([
+        { name: 'helper', arguments: JSON.stringify({ task: 'a' }), toolCallId: 'call_a' },
+        { name: 'helper', arguments: JSON.stringify({ task: 'b' }), toolCallId: 'call_b' },
+        { name: 'custom', arguments: JSON.stringify({ task: 'c' }), toolCallId: 'call_c' },
+      ]),
+      name: 'parent',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [helper.toTool(), { ...helper.toTool(undefined, 'Custom prompt'), name: 'custom' }],
+      maxParallelToolCalls: 3,
+    });
+    parent.session({ noLogger: true });
+
+    await parent.run('go');
+    await parent[Symbol.asyncDispose]();
+
+    // The busy instance's copy and the custom-prompt copy both refuse the call, like the instance itself
+    expect(log).toEqual([]);
+  });
+});
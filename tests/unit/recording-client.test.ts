@@ -0,0 +1,194 @@
+/**
+ * Tests for RecordingClient:
+ * - Recording writes each response (and chosen tool results) to a JSONL cassette
+ * - Replay serves the same trajectory offline without calling the client or running recorded tools
+ * - Requests missing from the cassette fail with CassetteMissError
+ * - Request keys ignore token usage and object key order
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import type { ChatMessage, Tool } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+import {
+  CassetteMissError,
+  RecordingClient,
+  ScriptedClient,
+  assertToolCalls,
+  callTool,
+  finish,
+  reply,
+  requestKey,
+} from '../../src/testing/index.js';
+
+let dir: string;
+let cassette: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'stirrup-cassette-'));
+  cassette = join(dir, 'cassettes', 'run.jsonl');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Tool whose output changes on every call, standing in for code_exec */
+function createClockTool(onRun: () => void = () => {}): Tool<z.ZodObject<{ label: z.ZodString }>> {
+  let ticks = 0;
+  return {
+    name: 'clock',
+    description: 'Read the clock',
+    parameters: z.object({ label: z.string() }),
+    executor: (params) => {
+      onRun();
+      return { content: `${params.label}: tick ${++ticks} at ${Math.random()}` };
+    },
+  };
+}
+
+function createAgent(client: RecordingClient, tool: Tool<z.ZodObject<{ label: z.ZodString }>>): Agent {
+  const agent = new Agent({
+    client,
+    name: 'recorded',
+    tools: [tool],
+    finishTool: SIMPLE_FINISH_TOOL,
+    hooks: client.toolHooks(['clock']),
+  });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('RecordingClient', () => {
+  it('should record a run and replay it offline', async () => {
+    const scripted = new ScriptedClient({
+      responses: [
+        callTool('clock', { label: 'first' }),
+        callTool('clock', { label: 'second' }),
+        finish({ reason: 'done', paths: [] }),
+      ],
+    });
+    const recorder = new RecordingClient(scripted, { path: cassette, mode: 'record' });
+    const recorded = await createAgent(recorder, createClockTool()).run('Read the clock twice');
+
+    const lines = (await readFile(cassette, 'utf-8')).trim().split('\n');
+    expect(lines.map((line) => (JSON.parse(line) as { type: string }).type)).toEqual([
+      'generate',
+      'tool',
+      'generate',
+      'tool',
+      'generate',
+    ]);
+
+    let toolRuns = 0;
+    const replayer = new RecordingClient(undefined, { path: cassette, mode: 'replay', modelSlug: scripted.modelSlug });
+    const replayed = await createAgent(
+      replayer,
+      createClockTool(() => toolRuns++)
+    ).run('Read the clock twice');
+
+    expect(toolRuns).toBe(0);
+    assertToolCalls(replayed, ['clock', 'clock', 'finish']);
+    expect(replayed.finishParams).toEqual(recorded.finishParams);
+    const toolOutputs = (messages: ChatMessage[][]) =>
+      messages
+        .flat()
+        .filter((m) => m.role === 'tool' && m.name === 'clock')
+        .map((m) => m.content);
+    expect(toolOutputs(replayed.messageHistory)).toEqual(toolOutputs(recorded.messageHistory));
+  });
+
+  it('should fail loudly when a request is not in the cassette', async () => {
+    const recorder = new RecordingClient(new ScriptedClient({ responses: [finish()] }), {
+      path: cassette,
+      mode: 'record',
+    });
+    await createAgent(recorder, createClockTool()).run('Original task');
+
+    const replayer = new RecordingClient(undefined, { path: cassette, mode: 'replay' });
+    await expect(createAgent(replayer, createClockTool()).run('Changed task')).rejects.toBeInstanceOf(
+      CassetteMissError
+    );
+  });
+
+  it('should fail loudly when a recorded tool is called with new arguments', async () => {
+    const recorder = new RecordingClient(
+      new ScriptedClient({ responses: [callTool('clock', { label: 'a' }), finish()] }),
+      { path: cassette, mode: 'record' }
+    );
+    await createAgent(recorder, createClockTool()).run('Tick');
+
+    // Rewrite the cassette's tool call so the recorded result no longer matches it
+    const edited = (await readFile(cassette, 'utf-8')).replace('{\\"label\\":\\"a\\"}', '{\\"label\\":\\"b\\"}');
+    await writeFile(cassette, edited);
+
+    const replayer = new RecordingClient(undefined, { path: cassette, mode: 'replay' });
+    await expect(createAgent(replayer, createClockTool()).run('Tick')).rejects.toThrow(/No recorded result for clock/);
+  });
+
+  it('should answer repeated requests with their responses in order', async () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Roll a die' }];
+    const recorder = new RecordingClient(new ScriptedClient({ responses: [reply('4'), reply('2')] }), {
+      path: cassette,
+      mode: 'record',
+    });
+    await recorder.generate(messages, new Map());
+    await recorder.generate(messages, new Map());
+
+    const replayer = new RecordingClient(undefined, { path: cassette, mode: 'replay' });
+    expect((await replayer.generate(messages, new Map())).content).toBe('4');
+    expect((await replayer.generate(messages, new Map())).content).toBe('2');
+    await expect(replayer.generate(messages, new Map())).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('should require a client to record and a cassette to replay', async () => {
+    expect(() => new RecordingClient(undefined, { path: cassette, mode: 'record' })).toThrow('needs a client');
+    const replayer = new RecordingClient(undefined, { path: cassette, mode: 'replay' });
+    await expect(replayer.generate([], new Map())).rejects.toThrow('could not be read');
+  });
+});
+
+describe('requestKey', () => {
+  it('should ignore token usage and key order but not content or tools', () => {
+    const tools = new Map([['clock', createClockTool() as Tool]]);
+    const base = requestKey(
+      [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello', tokenUsage: { input: 1, output: 1 } },
+      ],
+      tools
+    );
+
+    expect(
+      requestKey(
+        [
+          { content: 'Hi', role: 'user' },
+          { content: 'Hello', role: 'assistant' },
+        ],
+        tools
+      )
+    ).toBe(base);
+    expect(
+      requestKey(
+        [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hey' },
+        ],
+        tools
+      )
+    ).not.toBe(base);
+    expect(
+      requestKey(
+        [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello' },
+        ],
+        new Map()
+      )
+    ).not.toBe(base);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests that run() and runStream() share one turn engine:
+ * - Identical AgentRunResult from both entry points
+ * - Identical EventEmitter events from both entry points
+ * - Summarization, speed stats and cache resume in streaming mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool } from '../../src/core/models.js';
+import { Agent, type AgentEvents, type AgentRunResult, type AgentStreamEvent } from '../../src/core/agent.js';
+import { CacheManager } from '../../src/core/cache.js';
+import { SIMPLE_FINISH_TOOL, type FinishParams } from '../../src/tools/finish.js';
+
+const EchoParamsSchema = z.object({ text: z.string() });
+
+const echoTool: Tool<typeof EchoParamsSchema> = {
+  name: 'echo',
+  description: 'Echo text back',
+  parameters: EchoParamsSchema,
+  executor: async (params) => ({ content: `echo: ${params.text}` }),
+};
+
+/**
+ * Client that calls echo, then finish. Token usage is configurable to trigger summarization.
+ */
+function createScriptedClient(maxTokens = 128_000, stateless = false): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens,
+    generate: async (messages: ChatMessage[]): Promise<AssistantMessage> => {
+      // Summarization requests carry no tools and end with the summary prompt
+      const last = messages[messages.length - 1];
+      if (last?.role === 'user' && last.content === 'Please provide a concise summary.') {
+        return { role: 'assistant', content: 'Summary of work so far' };
+      }
+      // With `stateless`, decide from the conversation alone so a resumed run picks up where the cache left off
+      const echoed = stateless ? messages.some((m) => m.role === 'tool') : callIndex++ > 0;
+      if (!echoed) {
+        return {
+          role: 'assistant',
+          content: 'Echoing',
+          toolCalls: [{ name: 'echo', arguments: JSON.stringify({ text: 'hi' }), toolCallId: 'call_echo' }],
+          tokenUsage: { input: 100, output: 20 },
+        };
+      }
+      return {
+        role: 'assistant',
+        content: 'Done',
+        toolCalls: [
+          { name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'call_finish' },
+        ],
+        tokenUsage: { input: 150, output: 30 },
+      };
+    },
+  };
+}
+
+const EVENT_NAMES: Array<keyof AgentEvents> = [
+  'run:start',
+  'run:complete',
+  'run:error',
+  'turn:start',
+  'turn:complete',
+  'message:assistant',
+  'message:tool',
+  'tool:start',
+  'tool:complete',
+  'tool:error',
+  'summarization:start',
+  'summarization:complete',
+];
+
+function createAgent(client: LLMClient, name: string) {
+  const agent = new Agent({ client, name, finishTool: SIMPLE_FINISH_TOOL, tools: [echoTool] });
+  agent.session({ noLogger: true });
+  const emitted: string[] = [];
+  for (const eventName of EVENT_NAMES) {
+    agent.on(eventName, () => emitted.push(eventName));
+  }
+  return { agent, emitted };
+}
+
+/** Strip timing values, which naturally differ between runs */
+function normalize(result: AgentRunResult<unknown>) {
+  const { speedStats, ...rest } = result;
+  return {
+    ...rest,
+    speedStats: speedStats && {
+      modelSlug: speedStats.modelSlug,
+      generationCount: speedStats.generationCount,
+      totalOutputTokens: speedStats.totalOutputTokens,
+      tools: Object.keys(speedStats.toolBreakdown),
+    },
+  };
+}
+
+async function collectStream(agent: Agent, task: string) {
+  const events: AgentStreamEvent[] = [];
+  for await (const event of agent.runStream(task)) {
+    events.push(event);
+  }
+  const complete = events.find((e) => e.type === 'complete');
+  return { events, result: complete?.type === 'complete' ? complete.result : undefined };
+}
+
+describe('run() / runStream() parity', () => {
+  it('should produce the same AgentRunResult from both entry points', async () => {
+    const batch = createAgent(createScriptedClient(), 'parity-run');
+    const runResult = await batch.agent.run('Echo then finish');
+    await batch.agent[Symbol.asyncDispose]();
+
+    const streaming = createAgent(createScriptedClient(), 'parity-stream');
+    const { result: streamResult } = await collectStream(streaming.agent, 'Echo then finish');
+    await streaming.agent[Symbol.asyncDispose]();
+
+    expect(streamResult).toBeDefined();
+    expect(streamResult!.speedStats).toBeDefined();
+    expect((streamResult!.finishParams as FinishParams).reason).toBe('done');
+    expect(normalize(streamResult!)).toEqual(normalize(runResult));
+  });
+
+  it('should emit the same EventEmitter events from both entry points', async () => {
+    const batch = createAgent(createScriptedClient(), 'events-run');
+    await batch.agent.run('Echo then finish');
+    await batch.agent[Symbol.asyncDispose]();
+
+    const streaming = createAgent(createScriptedClient(), 'events-stream');
+    await collectStream(streaming.agent, 'Echo then finish');
+    await streaming.agent[Symbol.asyncDispose]();
+
+    expect(batch.emitted[0]).toBe('run:start');
+    expect(batch.emitted).toContain('tool:start');
+    expect(batch.emitted[batch.emitted.length - 1]).toBe('run:complete');
+    expect(streaming.emitted).toEqual(batch.emitted);
+  });
+
+  it('should summarize in streaming mode with summarization:start', async () => {
+    // 120 of 150 tokens used after the first turn crosses the default 0.7 cutoff
+    const streaming = createAgent(createScriptedClient(150), 'summarize-stream');
+    const { events, result } = await collectStream(streaming.agent, 'Echo then finish');
+    await streaming.agent[Symbol.asyncDispose]();
+
+    const types = events.map((e) => e.type);
+    expect(types).toContain('summarization:start');
+    expect(types.indexOf('summarization:start')).toBeLessThan(types.indexOf('summarization'));
+    expect(streaming.emitted).toContain('summarization:complete');
+    expect(result!.messageHistory.length).toBeGreaterThan(1);
+  });
+
+  it('should resume from cached state in streaming mode', async () => {
+    const task = `Resume parity task ${Date.now()}`;
+    const cacheManager = new CacheManager([{ role: 'user', content: task }]);
+
+    try {
+      // First run stops after one turn without finishing, which caches its state
+      const interrupted = new Agent({
+        client: createScriptedClient(128_000, true),
+        name: 'resume-first',
+        maxTurns: 1,
+        finishTool: SIMPLE_FINISH_TOOL,
+        tools: [echoTool],
+      });
+      interrupted.session({ noLogger: true });
+      const partial = await interrupted.run(task);
+      await interrupted[Symbol.asyncDispose]();
+      expect(partial.finishParams).toBeUndefined();
+
+      const resumed = new Agent({
+        client: createScriptedClient(128_000, true),
+        name: 'resume-second',
+        maxTurns: 1,
+        finishTool: SIMPLE_FINISH_TOOL,
+        tools: [echoTool],
+      });
+      resumed.session({ noLogger: true, resume: true });
+      const { events } = await collectStream(resumed, task);
+      await resumed[Symbol.asyncDispose]();
+
+      // The resumed run starts from the cached conversation, so its single turn is enough to finish
+      const complete = events.find((e) => e.type === 'complete');
+      expect(complete?.type === 'complete' && (complete.result.finishParams as FinishParams).reason).toBe('done');
+      const assistantMessages = events.filter((e) => e.type === 'message' && e.message.role === 'assistant');
+      expect(assistantMessages).toHaveLength(1);
+    } finally {
+      await cacheManager.clearState();
+    }
+  });
+});
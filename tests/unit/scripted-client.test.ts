@@ -0,0 +1,160 @@
+/**
+ * Tests for the testing utilities:
+ * - ScriptedClient replays queued and matched responses, records requests and simulates usage and overflow
+ * - Response builders produce valid tool calls
+ * - Assertions check tool call sequences, finish params and event order
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AssertionError } from 'node:assert';
+import { ContextOverflowError } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { CALCULATOR_TOOL } from '../../src/tools/calculator.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+import {
+  ScriptedClient,
+  assertEvents,
+  assertFinishParams,
+  assertToolCalls,
+  callTool,
+  callTools,
+  collectEvents,
+  finish,
+  reply,
+  toolCalls,
+} from '../../src/testing/index.js';
+
+function createAgent(client: ScriptedClient): Agent {
+  const agent = new Agent({ client, name: 'scripted', tools: [CALCULATOR_TOOL], finishTool: SIMPLE_FINISH_TOOL });
+  agent.session({ noLogger: true });
+  return agent;
+}
+
+describe('ScriptedClient', () => {
+  it('should replay queued responses and record each request', async () => {
+    const client = new ScriptedClient({
+      responses: [callTool('calculator', { expression: '2 + 2' }), finish({ reason: '4', paths: [] })],
+    });
+    const result = await createAgent(client).run('What is 2 + 2?');
+
+    expect(result.finishParams).toEqual({ reason: '4', paths: [] });
+    expect(client.requests).toHaveLength(2);
+    expect(client.requests[0]?.messages[1]).toEqual({ role: 'user', content: 'What is 2 + 2?' });
+    expect(client.requests[0]?.tools.has('calculator')).toBe(true);
+    expect(client.lastRequest?.messages[client.lastRequest.messages.length - 1]).toMatchObject({
+      role: 'tool',
+      name: 'calculator',
+      content: 'Result: 4',
+    });
+    expect(client.remaining).toBe(0);
+  });
+
+  it('should prefer matchers and fall back once the queue is empty', async () => {
+    const client = new ScriptedClient({
+      responses: [reply('queued')],
+      matchers: [{ match: (request) => request.index === 1, response: reply('matched'), times: 1 }],
+      fallback: (request) => reply(`fallback ${request.index}`),
+    });
+
+    const contents: unknown[] = [];
+    for (let i = 0; i < 4; i++) {
+      contents.push((await client.generate([{ role: 'user', content: 'Hi' }], new Map())).content);
+    }
+    expect(contents).toEqual(['queued', 'matched', 'fallback 2', 'fallback 3']);
+  });
+
+  it('should throw when the script is exhausted', async () => {
+    const client = new ScriptedClient();
+    await expect(client.generate([], new Map())).rejects.toThrow('script is exhausted');
+  });
+
+  it('should throw scripted errors and simulate context overflow', async () => {
+    const client = new ScriptedClient({ responses: [new Error('Rate limited'), reply('ok')], overflowAt: 100 });
+
+    await expect(client.generate([{ role: 'user', content: 'Hi' }], new Map())).rejects.toThrow('Rate limited');
+    await expect(client.generate([{ role: 'user', content: 'x'.repeat(1_000) }], new Map())).rejects.toBeInstanceOf(
+      ContextOverflowError
+    );
+    expect((await client.generate([{ role: 'user', content: 'Hi' }], new Map())).content).toBe('ok');
+    expect(client.requests).toHaveLength(3);
+  });
+
+  it('should simulate token usage from the request size', async () => {
+    const estimated = new ScriptedClient({ responses: [reply('x'.repeat(40))] });
+    const message = await estimated.generate([{ role: 'user', content: 'y'.repeat(400) }], new Map());
+    expect(message.tokenUsage).toEqual({ input: 104, output: 14 });
+
+    const fixed = new ScriptedClient({ responses: [reply('hi')], tokenUsage: { input: 7, output: 3 } });
+    expect((await fixed.generate([], new Map())).tokenUsage).toEqual({ input: 7, output: 3 });
+
+    const none = new ScriptedClient({ responses: [reply('hi')], tokenUsage: false });
+    expect((await none.generate([], new Map())).tokenUsage).toBeUndefined();
+  });
+
+  it('should stream responses as deltas', async () => {
+    const client = new ScriptedClient({ responses: [finish()] });
+    const { events, result } = await collectEvents(createAgent(client).runStream('Finish now'));
+
+    assertEvents(events, ['start', 'tool_call:delta', 'tool:start', 'complete']);
+    assertFinishParams(result!, { reason: 'Task complete', paths: [] });
+  });
+});
+
+describe('Response builders', () => {
+  it('should build tool calls with unique IDs', () => {
+    const message = callTools([
+      { name: 'calculator', args: { expression: '1 + 1' } },
+      { name: 'calculator', args: '{broken', toolCallId: 'call_fixed' },
+    ]);
+    expect(message.toolCalls?.[0]?.arguments).toBe('{"expression":"1 + 1"}');
+    expect(message.toolCalls?.[1]).toEqual({ name: 'calculator', arguments: '{broken', toolCallId: 'call_fixed' });
+    expect(callTool('a').toolCalls?.[0]?.toolCallId).not.toBe(callTool('a').toolCalls?.[0]?.toolCallId);
+  });
+});
+
+describe('Assertions', () => {
+  it('should check tool call sequences by name and argument subset', async () => {
+    const client = new ScriptedClient({
+      responses: [
+        callTools([
+          { name: 'calculator', args: { expression: '1 + 1' } },
+          { name: 'calculator', args: { expression: '2 * 3' } },
+        ]),
+        finish({ reason: 'done', paths: [] }),
+      ],
+    });
+    const result = await createAgent(client).run('Calculate');
+
+    expect(toolCalls(result).map((call) => call.name)).toEqual(['calculator', 'calculator', 'finish']);
+    assertToolCalls(result, ['calculator', { name: 'calculator', arguments: { expression: '2 * 3' } }, 'finish']);
+    expect(() => assertToolCalls(result, ['calculator', 'finish'])).toThrow(AssertionError);
+    expect(() =>
+      assertToolCalls(result, ['calculator', { name: 'calculator', arguments: { expression: '1 + 1' } }, 'finish'])
+    ).toThrow('Expected tool calls');
+  });
+
+  it('should check finish params', async () => {
+    const result = await createAgent(new ScriptedClient({ responses: [finish({ reason: 'done', paths: [] })] })).run(
+      'Finish'
+    );
+    assertFinishParams(result, { reason: 'done', paths: [] });
+    expect(() => assertFinishParams(result, { reason: 'other', paths: [] })).toThrow(AssertionError);
+
+    const unfinished = await createAgent(new ScriptedClient({ responses: [reply('No tools needed')] })).run('Chat');
+    expect(() => assertFinishParams(unfinished, undefined)).toThrow('never accepted');
+  });
+
+  it('should check event order and keep events from failed runs', async () => {
+    const { events } = await collectEvents(
+      createAgent(new ScriptedClient({ responses: [callTool('calculator', { expression: '1' }), finish()] })).runStream(
+        'Go'
+      )
+    );
+    assertEvents(events, ['start', 'tool:start', 'tool:complete', 'complete']);
+    expect(() => assertEvents(events, ['complete', 'start'])).toThrow(AssertionError);
+
+    const failing = collectEvents(createAgent(new ScriptedClient()).runStream('Go'));
+    const error = await failing.catch((e: unknown) => e as Error & { events: Array<{ type: string }> });
+    expect(error.events.map((event) => event.type)).toContain('error');
+  });
+});
@@ -11,7 +11,8 @@ describe('SpeedStats', () => {
       totalGenerationMs: 5000,
       totalOutputTokens: 1000,
       totalToolMs: 2000,
-      toolBreakdown: { code_exec: 1500, web_fetch: 500 },
+      totalToolWallMs: 1500,
+      toolBreakdown: { code_exec: { totalMs: 1500, wallMs: 1000 }, web_fetch: { totalMs: 500, wallMs: 500 } },
       generationCount: 3,
       modelSlug: 'gpt-4o',
     };
@@ -21,7 +22,8 @@ describe('SpeedStats', () => {
     expect(stats.totalToolMs).toBe(2000);
     expect(stats.generationCount).toBe(3);
     expect(stats.modelSlug).toBe('gpt-4o');
-    expect(stats.toolBreakdown.code_exec).toBe(1500);
+    expect(stats.totalToolWallMs).toBe(1500);
+    expect(stats.toolBreakdown.code_exec).toEqual({ totalMs: 1500, wallMs: 1000 });
   });
 
   it('should calculate OTPS correctly', () => {
@@ -29,6 +31,7 @@ describe('SpeedStats', () => {
       totalGenerationMs: 2000,
       totalOutputTokens: 100,
       totalToolMs: 0,
+      totalToolWallMs: 0,
       toolBreakdown: {},
       generationCount: 1,
       modelSlug: 'test',
@@ -43,6 +46,7 @@ describe('SpeedStats', () => {
       totalGenerationMs: 0,
       totalOutputTokens: 50,
       totalToolMs: 0,
+      totalToolWallMs: 0,
       toolBreakdown: {},
       generationCount: 1,
       modelSlug: 'fast-model',
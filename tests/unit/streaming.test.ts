@@ -0,0 +1,111 @@
+/**
+ * Tests for token-level streaming through LLMClient.generateStream() and runStream()
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AssistantMessage, LLMClient, LLMStreamEvent } from '../../src/core/models.js';
+import { Agent, type AgentStreamEvent } from '../../src/core/agent.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const finishMessage: AssistantMessage = {
+  role: 'assistant',
+  content: 'All done',
+  toolCalls: [
+    {
+      name: 'finish',
+      arguments: JSON.stringify({ reason: 'streamed', paths: [] }),
+      toolCallId: 'call_1',
+    },
+  ],
+  tokenUsage: { input: 10, output: 5 },
+};
+
+function createStreamingClient(): LLMClient & { generateCalls: number } {
+  const client = {
+    modelSlug: 'mock-stream',
+    maxTokens: 128_000,
+    generateCalls: 0,
+    generate: async (): Promise<AssistantMessage> => {
+      client.generateCalls++;
+      return finishMessage;
+    },
+    async *generateStream(): AsyncGenerator<LLMStreamEvent> {
+      yield { type: 'reasoning:delta', delta: 'thinking...' };
+      yield { type: 'text:delta', delta: 'All ' };
+      yield { type: 'text:delta', delta: 'done' };
+      yield { type: 'tool_call:delta', index: 0, toolCallId: 'call_1', name: 'finish', argumentsDelta: '' };
+      yield { type: 'tool_call:delta', index: 0, argumentsDelta: '{"reason":"streamed",' };
+      yield { type: 'tool_call:delta', index: 0, argumentsDelta: '"paths":[]}' };
+      yield { type: 'done', message: finishMessage };
+    },
+  };
+  return client;
+}
+
+describe('runStream token deltas', () => {
+  it('should yield text, reasoning and tool call deltas before the assistant message', async () => {
+    const client = createStreamingClient();
+    const agent = new Agent({ client, name: 'stream-test', finishTool: SIMPLE_FINISH_TOOL, tools: [] });
+    agent.session({ noLogger: true });
+
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.runStream('Stream something')) {
+      events.push(event);
+    }
+    await agent[Symbol.asyncDispose]();
+
+    const types = events.map((e) => e.type);
+    expect(types).toContain('reasoning:delta');
+
+    const text = events
+      .filter((e): e is Extract<AgentStreamEvent, { type: 'text:delta' }> => e.type === 'text:delta')
+      .map((e) => e.delta)
+      .join('');
+    expect(text).toBe('All done');
+
+    const args = events
+      .filter((e): e is Extract<AgentStreamEvent, { type: 'tool_call:delta' }> => e.type === 'tool_call:delta')
+      .map((e) => e.argumentsDelta)
+      .join('');
+    expect(JSON.parse(args)).toEqual({ reason: 'streamed', paths: [] });
+
+    const firstDelta = types.indexOf('text:delta');
+    const assistantMessage = events.findIndex((e) => e.type === 'message' && e.message.role === 'assistant');
+    expect(firstDelta).toBeLessThan(assistantMessage);
+
+    const complete = events.find((e) => e.type === 'complete');
+    expect(complete?.type === 'complete' && complete.result.finishParams).toEqual({ reason: 'streamed', paths: [] });
+    expect(client.generateCalls).toBe(0);
+  });
+
+  it('should fall back to generate() when the client does not stream', async () => {
+    const client: LLMClient = {
+      modelSlug: 'mock',
+      maxTokens: 128_000,
+      generate: async () => finishMessage,
+    };
+    const agent = new Agent({ client, name: 'no-stream-test', finishTool: SIMPLE_FINISH_TOOL, tools: [] });
+    agent.session({ noLogger: true });
+
+    const types: string[] = [];
+    for await (const event of agent.runStream('Task')) {
+      types.push(event.type);
+    }
+    await agent[Symbol.asyncDispose]();
+
+    expect(types).not.toContain('text:delta');
+    expect(types).toContain('complete');
+  });
+
+  it('should not use generateStream() from run()', async () => {
+    const client = createStreamingClient();
+    const agent = new Agent({ client, name: 'run-test', finishTool: SIMPLE_FINISH_TOOL, tools: [] });
+    agent.session({ noLogger: true });
+
+    const result = await agent.run('Task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(result.finishParams).toEqual({ reason: 'streamed', paths: [] });
+    expect(client.generateCalls).toBe(1);
+  });
+});
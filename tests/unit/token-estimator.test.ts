@@ -0,0 +1,220 @@
+/**
+ * Tests for token estimation and context overflow handling:
+ * - Estimators count text, tool calls, media and tool schemas, caching per message
+ * - Models map to offline tokenizers by provider family, with a heuristic fallback
+ * - The agent summarizes before a request estimated to reach the cutoff
+ * - ContextOverflowError from the client is recovered by summarizing (and trimming) and retrying the turn
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool } from '../../src/core/models.js';
+import { ContextOverflowError } from '../../src/core/models.js';
+import { Agent, type AgentStreamEvent } from '../../src/core/agent.js';
+import {
+  TextTokenEstimator,
+  createHeuristicTokenEstimator,
+  createTokenEstimator,
+  tokenizerEncodingForModel,
+} from '../../src/core/token-estimator.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const SUMMARY_PROMPT = 'Please provide a concise summary.';
+
+const readTool: Tool<z.ZodObject<{ part: z.ZodNumber }>> = {
+  name: 'read',
+  description: 'Read part of a large file',
+  parameters: z.object({ part: z.number() }),
+  executor: async (params) => ({ content: `part ${params.part}: ` + 'x'.repeat(2_000) }),
+};
+
+function isSummaryRequest(messages: ChatMessage[]): boolean {
+  const last = messages[messages.length - 1];
+  return last?.role === 'user' && last.content === SUMMARY_PROMPT;
+}
+
+/**
+ * Client that reads parts 1..reads, then finishes
+ * `reject` can throw ContextOverflowError for a request, e.g. one that is too long.
+ */
+function createReadingClient(
+  reads: number,
+  reject: (messages: ChatMessage[]) => boolean = () => false
+): LLMClient & { requests: ChatMessage[][] } {
+  const requests: ChatMessage[][] = [];
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 4_000,
+    requests,
+    generate: async (messages: ChatMessage[]): Promise<AssistantMessage> => {
+      requests.push(messages);
+      if (reject(messages)) throw new ContextOverflowError('Context window exceeded');
+      if (isSummaryRequest(messages)) {
+        return { role: 'assistant', content: 'Summary of the parts read so far' };
+      }
+      const part = requests.filter((r) => !isSummaryRequest(r)).length;
+      return {
+        role: 'assistant',
+        content: 'Reading',
+        toolCalls: [
+          part <= reads
+            ? { name: 'read', arguments: JSON.stringify({ part }), toolCallId: `call_${part}` }
+            : { name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'call_finish' },
+        ],
+        tokenUsage: { input: 100, output: 10 },
+      };
+    },
+  };
+}
+
+async function collectEvents(agent: Agent): Promise<AgentStreamEvent[]> {
+  const events: AgentStreamEvent[] = [];
+  for await (const event of agent.runStream('Read the file')) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('TextTokenEstimator', () => {
+  it('should count text, tool calls and media with per-message overhead', () => {
+    const estimator = createHeuristicTokenEstimator();
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'x'.repeat(400) },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ name: 'read', arguments: '{"part":1}', toolCallId: 'call_1' }],
+      },
+      {
+        role: 'tool',
+        content: ['y'.repeat(40), { type: 'image', data: 'data:image/png;base64,AA==' }],
+        toolCallId: 'call_1',
+        name: 'read',
+        argsWasValid: true,
+      },
+    ];
+
+    // 100 text + 4 overhead; 1 + 3 for the call + 4 overhead; 10 text + 1500 image + 4 overhead
+    expect(estimator.countRequest(messages)).toBe(104 + 8 + 1514);
+  });
+
+  it('should count tool names, descriptions and schemas', () => {
+    const estimator = createHeuristicTokenEstimator();
+    const withoutTools = estimator.countRequest([]);
+    const withTools = estimator.countRequest([], new Map([['read', readTool]]));
+    expect(withoutTools).toBe(0);
+    expect(withTools).toBeGreaterThan(10);
+  });
+
+  it('should tokenize each message only once', () => {
+    const counted: string[] = [];
+    const estimator = new TextTokenEstimator((text) => {
+      counted.push(text);
+      return text.length;
+    });
+    const first: ChatMessage = { role: 'user', content: 'first' };
+    estimator.countRequest([first]);
+    estimator.countRequest([first, { role: 'user', content: 'second' }]);
+    expect(counted).toEqual(['first', 'second']);
+  });
+});
+
+describe('createTokenEstimator', () => {
+  it('should map models to tokenizer encodings by provider family', () => {
+    expect(tokenizerEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(tokenizerEncodingForModel('openai/gpt-5')).toBe('o200k_base');
+    expect(tokenizerEncodingForModel('o3-mini')).toBe('o200k_base');
+    expect(tokenizerEncodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(tokenizerEncodingForModel('claude-sonnet-4-5')).toBe('cl100k_base');
+    expect(tokenizerEncodingForModel('gemini-2.5-pro')).toBeUndefined();
+  });
+
+  it('should use the offline tokenizer for known families', async () => {
+    const estimator = await createTokenEstimator('gpt-4o');
+    // "hello world" is two tokens in o200k_base, plus the per-message overhead
+    expect(estimator.countRequest([{ role: 'user', content: 'hello world' }])).toBe(6);
+    // Special-token text is counted as ordinary text rather than rejected
+    expect(estimator.countRequest([{ role: 'user', content: '<|endoftext|>' }])).toBeGreaterThan(5);
+  });
+
+  it('should fall back to the heuristic for other models', async () => {
+    const estimator = await createTokenEstimator('mock-model');
+    expect(estimator.countRequest([{ role: 'user', content: 'x'.repeat(40) }])).toBe(14);
+  });
+});
+
+describe('Agent context size checks', () => {
+  it('should summarize before a request estimated to reach the cutoff', async () => {
+    // Each read adds ~500 tokens; usage reported by the client (110) never reaches the cutoff
+    const client = createReadingClient(6);
+    const agent = new Agent({ client, name: 'estimate-test', finishTool: SIMPLE_FINISH_TOOL, tools: [readTool] });
+    agent.session({ noLogger: true });
+
+    const events = await collectEvents(agent);
+    const starts = events.filter((e) => e.type === 'summarization:start');
+    expect(starts.length).toBeGreaterThan(0);
+    expect(starts.every((e) => e.type === 'summarization:start' && e.reason === 'estimate')).toBe(true);
+    expect(events[events.length - 1]?.type).toBe('complete');
+
+    const estimator = createHeuristicTokenEstimator();
+    for (const request of client.requests.filter((r) => !isSummaryRequest(r))) {
+      expect(estimator.countRequest(request) / client.maxTokens).toBeLessThan(0.85);
+    }
+  });
+
+  it('should summarize and retry the turn when the client reports a context overflow', async () => {
+    // The estimate never reaches the cutoff, but the provider rejects requests with three parts read
+    const client = createReadingClient(
+      4,
+      (messages) => !isSummaryRequest(messages) && messages.filter((m) => m.role === 'tool').length >= 3
+    );
+    const agent = new Agent({
+      client,
+      name: 'overflow-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [readTool],
+      contextSummarizationCutoff: 0.99,
+      tokenEstimator: { countRequest: () => 0 },
+    });
+    agent.session({ noLogger: true });
+
+    const events = await collectEvents(agent);
+    expect(events.filter((e) => e.type === 'summarization:start')).toEqual([
+      expect.objectContaining({ reason: 'overflow' }),
+    ]);
+    const complete = events.find((e) => e.type === 'complete');
+    expect(complete?.type === 'complete' && complete.result.finishParams).toEqual({ reason: 'done', paths: [] });
+  });
+
+  it('should trim the oldest turns when the history is too long to summarize', async () => {
+    // Summary requests that still contain part 1 are rejected as too long
+    const client = createReadingClient(3, (messages) => {
+      const hasPartOne = messages.some((m) => m.role === 'tool' && String(m.content).startsWith('part 1'));
+      return hasPartOne && (isSummaryRequest(messages) || messages.filter((m) => m.role === 'tool').length >= 3);
+    });
+    const agent = new Agent({
+      client,
+      name: 'trim-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [readTool],
+      contextSummarizationCutoff: 0.2,
+      tokenEstimator: createHeuristicTokenEstimator(),
+    });
+    agent.session({ noLogger: true });
+
+    const result = await agent.run('Read the file');
+    expect(result.finishParams).toEqual({ reason: 'done', paths: [] });
+    const summaryRequests = client.requests.filter(isSummaryRequest);
+    expect(summaryRequests.length).toBeGreaterThanOrEqual(2);
+    const lastSummary = summaryRequests[summaryRequests.length - 1]!;
+    expect(lastSummary.some((m) => m.role === 'tool' && String(m.content).startsWith('part 1'))).toBe(false);
+  });
+
+  it('should still fail when there is nothing to summarize', async () => {
+    const client = createReadingClient(1, () => true);
+    const agent = new Agent({ client, name: 'fail-test', finishTool: SIMPLE_FINISH_TOOL, tools: [readTool] });
+    agent.session({ noLogger: true });
+
+    await expect(agent.run('Read the file')).rejects.toThrow(ContextOverflowError);
+  });
+});
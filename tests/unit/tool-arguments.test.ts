@@ -0,0 +1,201 @@
+/**
+ * Tests for tool call arguments:
+ * - Zod issues and JSON errors formatted for the model
+ * - Repair of trailing commas, single quotes and stringified nested JSON
+ * - Validation feedback and repair counts in agent runs
+ * - Repaired and malformed calls in history on later turns
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, ChatMessage, LLMClient, Tool, ToolCall } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { ArgumentRepairMetadata, formatArgumentError, repairToolArguments } from '../../src/core/tool-arguments.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+import { toAnthropicMessages } from '../../src/clients/utils.js';
+
+const SearchParamsSchema = z.object({
+  query: z.string(),
+  filters: z.object({ tags: z.array(z.string()), limit: z.number().max(50) }).optional(),
+});
+
+describe('formatArgumentError', () => {
+  it('should list each Zod issue with its path', () => {
+    const result = SearchParamsSchema.safeParse({ query: 1, filters: { tags: ['a', 2], limit: 100 } });
+    expect(formatArgumentError(result.error)).toBe(
+      [
+        'Tool arguments are not valid:',
+        '- query: Invalid input: expected string, received number',
+        '- filters.tags[1]: Invalid input: expected string, received number',
+        '- filters.limit: Too big: expected number to be <=50',
+      ].join('\n')
+    );
+  });
+
+  it('should include the parser message for invalid JSON', () => {
+    let error: unknown;
+    try {
+      JSON.parse('{"query":');
+    } catch (e) {
+      error = e;
+    }
+    expect(formatArgumentError(error)).toMatch(/^Tool arguments are not valid JSON: /);
+  });
+});
+
+describe('repairToolArguments', () => {
+  it('should leave valid arguments untouched', () => {
+    expect(repairToolArguments('{"query":"a, b}"}', SearchParamsSchema)).toEqual({
+      value: { query: 'a, b}' },
+      repairs: [],
+    });
+  });
+
+  it('should remove trailing commas outside strings', () => {
+    const { value, repairs } = repairToolArguments(
+      '{"query":"x,]","filters":{"tags":["a",],"limit":3,},}',
+      SearchParamsSchema
+    );
+    expect(value).toEqual({ query: 'x,]', filters: { tags: ['a'], limit: 3 } });
+    expect(repairs).toEqual(['trailingCommas']);
+  });
+
+  it('should convert single-quoted JSON', () => {
+    const { value, repairs } = repairToolArguments(`{'query': 'say "hi" it\\'s'}`, SearchParamsSchema);
+    expect(value).toEqual({ query: `say "hi" it's` });
+    expect(repairs).toEqual(['singleQuotes']);
+  });
+
+  it('should parse nested objects sent as JSON strings', () => {
+    const raw = JSON.stringify({ query: 'x', filters: JSON.stringify({ tags: '["a"]', limit: 1 }) });
+    const { value, repairs } = repairToolArguments(raw, SearchParamsSchema);
+    expect(value).toEqual({ query: 'x', filters: { tags: ['a'], limit: 1 } });
+    expect(repairs).toEqual(['stringifiedJson']);
+  });
+
+  it('should throw the original syntax error when repair fails', () => {
+    expect(() => repairToolArguments('{"query": nope}', SearchParamsSchema)).toThrow(SyntaxError);
+  });
+});
+
+describe('Tool arguments in agent runs', () => {
+  const finishCall: ToolCall = {
+    name: 'finish',
+    arguments: JSON.stringify({ reason: 'done', paths: [] }),
+    toolCallId: 'call_finish',
+  };
+
+  function createAgent(calls: ToolCall[], repairToolArguments: boolean, requests: ChatMessage[][], seen: unknown[]) {
+    const searchTool: Tool<typeof SearchParamsSchema> = {
+      name: 'search',
+      description: 'Search',
+      parameters: SearchParamsSchema,
+      executor: (params) => {
+        seen.push(params);
+        return { content: 'found' };
+      },
+    };
+    let callIndex = 0;
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (messages): Promise<AssistantMessage> => {
+        // Convert as a provider client would, so malformed calls in history surface here
+        toAnthropicMessages(messages);
+        requests.push(messages);
+        const toolCall = calls[callIndex++] ?? finishCall;
+        return { role: 'assistant', content: 'Working', toolCalls: [toolCall], tokenUsage: { input: 10, output: 5 } };
+      },
+    };
+    const agent = new Agent({
+      client,
+      name: 'arguments-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [searchTool],
+      repairToolArguments,
+    });
+    agent.session({ noLogger: true });
+    return agent;
+  }
+
+  it('should send validation issues back to the model', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(
+      [{ name: 'search', arguments: '{"query": 42}', toolCallId: 'call_1' }],
+      false,
+      requests,
+      []
+    );
+    await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(requests[1]!.at(-1)).toMatchObject({
+      role: 'tool',
+      argsWasValid: false,
+      content: 'Tool arguments are not valid:\n- query: Invalid input: expected string, received number',
+    });
+  });
+
+  it('should repair arguments and count repairs when enabled', async () => {
+    const seen: unknown[] = [];
+    const agent = createAgent(
+      [
+        { name: 'search', arguments: "{'query': 'cats',}", toolCallId: 'call_1' },
+        {
+          name: 'search',
+          arguments: '{"query":"dogs","filters":"{\\"tags\\":[],\\"limit\\":2}"}',
+          toolCallId: 'call_2',
+        },
+      ],
+      true,
+      [],
+      seen
+    );
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(seen).toEqual([{ query: 'cats' }, { query: 'dogs', filters: { tags: [], limit: 2 } }]);
+    const repairs = result.runMetadata.argument_repair as ArgumentRepairMetadata;
+    expect(repairs.toJSON()).toEqual({ num_trailing_commas: 1, num_single_quotes: 1, num_stringified_json: 1 });
+  });
+
+  it('should keep repaired arguments in history for the next turn', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(
+      [{ name: 'search', arguments: '{"query": "cats",}', toolCallId: 'call_1' }],
+      true,
+      requests,
+      []
+    );
+    await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    const assistant = requests[1]!.find((message) => message.role === 'assistant');
+    expect(assistant).toMatchObject({ toolCalls: [{ name: 'search', arguments: '{"query":"cats"}' }] });
+    expect(toAnthropicMessages(requests[1]!).messages).toContainEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Working' },
+        { type: 'tool_use', id: 'call_1', name: 'search', input: { query: 'cats' } },
+      ],
+    });
+  });
+
+  it('should send unparseable arguments in history as an empty object', async () => {
+    const requests: ChatMessage[][] = [];
+    const agent = createAgent(
+      [{ name: 'search', arguments: '{"query": "cats"', toolCallId: 'call_1' }],
+      false,
+      requests,
+      []
+    );
+    const result = await agent.run('task');
+    await agent[Symbol.asyncDispose]();
+
+    expect(result.finishParams).toBeDefined();
+    expect(requests[1]!.at(-1)).toMatchObject({ role: 'tool', argsWasValid: false });
+    expect(JSON.stringify(toAnthropicMessages(requests[1]!).messages)).toContain(
+      '{"type":"tool_use","id":"call_1","name":"search","input":{}}'
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for the tool execution context:
+ * - The agent passes call, agent and session details to executors
+ * - reportProgress surfaces as tool:progress events
+ * - One-argument executors keep working
+ * - Executors can be unit-tested with createToolContext()
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, LLMClient, Tool, ToolExecutionContext } from '../../src/core/models.js';
+import { Agent, type AgentStreamEvent } from '../../src/core/agent.js';
+import { createToolContext, createToolLogger } from '../../src/core/tool-context.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+/** Client that calls `tool` once, then finish */
+function createClient(tool: string): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (): Promise<AssistantMessage> => ({
+      role: 'assistant',
+      content: 'Working',
+      toolCalls: [
+        callIndex++ === 0
+          ? { name: tool, arguments: '{}', toolCallId: 'call_tool' }
+          : { name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'call_finish' },
+      ],
+      tokenUsage: { input: 10, output: 5 },
+    }),
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ToolExecutionContext in agent runs', () => {
+  it('should pass call, agent and session details to executors', async () => {
+    let received: ToolExecutionContext | undefined;
+    const inspectTool: Tool = {
+      name: 'inspect',
+      description: 'Inspect the context',
+      parameters: z.object({}),
+      executor: (_params, ctx) => {
+        received = ctx;
+        return { content: 'ok' };
+      },
+    };
+
+    const agent = new Agent({
+      client: createClient('inspect'),
+      name: 'ctx-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [new LocalCodeExecToolProvider(), inspectTool],
+    });
+    await using session = agent.session({ noLogger: true, outputDir: './ctx-test-output' });
+    await session.run('Inspect');
+
+    expect(received).toMatchObject({ toolCallId: 'call_tool', turn: 0, agentName: 'ctx-test', depth: 0 });
+    expect(received?.outputDir).toBe('./ctx-test-output');
+    expect(received?.execEnv).toBeInstanceOf(LocalCodeExecToolProvider);
+  });
+
+  it('should emit reported progress as tool:progress events', async () => {
+    const progressTool: Tool = {
+      name: 'progress',
+      description: 'Reports progress',
+      parameters: z.object({}),
+      executor: (_params, ctx) => {
+        ctx.reportProgress({ message: 'halfway', percent: 50 });
+        return { content: 'ok' };
+      },
+    };
+    const agent = new Agent({
+      client: createClient('progress'),
+      name: 'progress-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [progressTool],
+    });
+    agent.session({ noLogger: true });
+
+    const emitted: unknown[] = [];
+    agent.on('tool:progress', (data) => emitted.push(data));
+
+    const streamed: AgentStreamEvent[] = [];
+    for await (const event of agent.runStream('Go')) {
+      streamed.push(event);
+    }
+
+    expect(streamed.find((e) => e.type === 'tool:progress')).toMatchObject({
+      toolName: 'progress',
+      toolCallId: 'call_tool',
+      progress: { message: 'halfway', percent: 50 },
+      turn: 0,
+    });
+    expect(emitted).toEqual([
+      { name: 'progress', toolCallId: 'call_tool', progress: { message: 'halfway', percent: 50 } },
+    ]);
+  });
+
+  it('should keep one-argument executors working', async () => {
+    const legacyTool: Tool<z.ZodObject<{ text: z.ZodDefault<z.ZodString> }>> = {
+      name: 'legacy',
+      description: 'Takes params only',
+      parameters: z.object({ text: z.string().default('hi') }),
+      executor: async (params) => ({ content: `legacy: ${params.text}` }),
+    };
+    const agent = new Agent({
+      client: createClient('legacy'),
+      name: 'legacy-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [legacyTool],
+    });
+    agent.session({ noLogger: true });
+    const result = await agent.run('Go');
+
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'legacy');
+    expect(toolMessage?.content).toBe('legacy: hi');
+  });
+
+  it('should silence the tool logger when the session has no logger', async () => {
+    const log = vi.spyOn(console, 'info').mockImplementation(() => {});
+    const loggingTool: Tool = {
+      name: 'logging',
+      description: 'Logs a line',
+      parameters: z.object({}),
+      executor: (_params, ctx) => {
+        ctx.logger.info('working');
+        return { content: 'ok' };
+      },
+    };
+    const agent = new Agent({
+      client: createClient('logging'),
+      name: 'logging-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [loggingTool],
+    });
+    agent.session({ noLogger: true });
+    await agent.run('Go');
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
+
+describe('createToolContext', () => {
+  it('should test an executor without an agent or session', async () => {
+    await using execEnv = new LocalCodeExecToolProvider();
+    await execEnv.getTools();
+
+    const missing = await SIMPLE_FINISH_TOOL.executor(
+      { reason: 'done', paths: ['report.md'] },
+      createToolContext({ execEnv })
+    );
+    expect(missing.success).toBe(false);
+    expect(missing.content).toContain('report.md');
+
+    await execEnv.writeFileBytes('report.md', Buffer.from('# Report'));
+    const found = await SIMPLE_FINISH_TOOL.executor(
+      { reason: 'done', paths: ['report.md'] },
+      createToolContext({ execEnv })
+    );
+    expect(found.success).toBe(true);
+  });
+
+  it('should default to a root agent with a silent logger and ignored progress', () => {
+    const ctx = createToolContext({ turn: 3 });
+    expect(ctx).toMatchObject({ toolCallId: 'test_call', turn: 3, agentName: 'test', depth: 0 });
+    expect(() => ctx.reportProgress({ percent: 10 })).not.toThrow();
+  });
+});
+
+describe('createToolLogger', () => {
+  it('should prefix lines and drop those below the level', () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const logger = createToolLogger('code_exec', 'info');
+    logger.debug('hidden');
+    logger.warn('disk almost full');
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[code_exec] disk almost full');
+  });
+});
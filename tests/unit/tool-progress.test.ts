@@ -0,0 +1,146 @@
+/**
+ * Tests for tool progress:
+ * - code_exec streams command output lines as tool:progress events
+ * - Sub-agent turns are reported as progress on the delegating call
+ * - The console logger renders progress under the running tool
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AssistantMessage, LLMClient, ToolCall, ToolProgress } from '../../src/core/models.js';
+import { Agent, type AgentStreamEvent } from '../../src/core/agent.js';
+import { createLineSplitter } from '../../src/tools/code-exec/base.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const finishCall: ToolCall = {
+  name: 'finish',
+  arguments: JSON.stringify({ reason: 'done', paths: [] }),
+  toolCallId: 'call_finish',
+};
+
+/** Client that makes the given tool calls, one per turn, then finishes */
+function createClient(calls: ToolCall[]): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (): Promise<AssistantMessage> => ({
+      role: 'assistant',
+      content: 'Working',
+      toolCalls: [calls[callIndex++] ?? finishCall],
+      tokenUsage: { input: 10, output: 5 },
+    }),
+  };
+}
+
+async function collectProgress(agent: Agent): Promise<Array<{ toolName: string; progress: ToolProgress }>> {
+  const progress: Array<{ toolName: string; progress: ToolProgress }> = [];
+  for await (const event of agent.runStream('Go') as AsyncGenerator<AgentStreamEvent>) {
+    if (event.type === 'tool:progress') {
+      progress.push({ toolName: event.toolName, progress: event.progress });
+    }
+  }
+  return progress;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createLineSplitter', () => {
+  it('should emit complete lines across chunks and flush the remainder', () => {
+    const lines: string[] = [];
+    const splitter = createLineSplitter('stdout', (stream, line) => lines.push(`${stream}:${line}`));
+    splitter.write('first li');
+    splitter.write('ne\r\nsecond\nthi');
+    expect(lines).toEqual(['stdout:first line', 'stdout:second']);
+    splitter.flush();
+    expect(lines).toEqual(['stdout:first line', 'stdout:second', 'stdout:thi']);
+  });
+});
+
+describe('code_exec progress', () => {
+  it('should stream output lines from runCommand', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    await provider.getTools();
+
+    const lines: Array<[string, string]> = [];
+    const result = await provider.runCommand('echo one; echo oops >&2; printf two', undefined, {
+      onOutput: (stream, line) => lines.push([stream, line]),
+    });
+
+    expect(result.stdout).toBe('one\ntwo');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        ['stdout', 'one'],
+        ['stderr', 'oops'],
+        ['stdout', 'two'],
+      ])
+    );
+    expect(lines).toHaveLength(3);
+  });
+
+  it('should report command output as tool:progress events', async () => {
+    const agent = new Agent({
+      client: createClient([
+        { name: 'code_exec', arguments: JSON.stringify({ cmd: 'echo alpha; echo beta' }), toolCallId: 'call_exec' },
+      ]),
+      name: 'progress-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [new LocalCodeExecToolProvider()],
+    });
+    await using session = agent.session({ noLogger: true });
+
+    const progress = await collectProgress(session);
+    expect(progress).toEqual([
+      { toolName: 'code_exec', progress: { output: { stream: 'stdout', text: 'alpha' } } },
+      { toolName: 'code_exec', progress: { output: { stream: 'stdout', text: 'beta' } } },
+    ]);
+  });
+});
+
+describe('sub-agent progress', () => {
+  it('should report each sub-agent turn on the delegating call', async () => {
+    const subAgent = new Agent({
+      client: createClient([]),
+      name: 'researcher',
+      finishTool: SIMPLE_FINISH_TOOL,
+    });
+    const parent = new Agent({
+      client: createClient([
+        { name: 'researcher', arguments: JSON.stringify({ task: 'look it up' }), toolCallId: 'call_delegate' },
+      ]),
+      name: 'parent',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [subAgent.toTool()],
+    });
+    await using session = parent.session({ noLogger: true });
+
+    const progress = await collectProgress(session);
+    expect(progress).toEqual([
+      { toolName: 'researcher', progress: { subAgentTurn: { agentName: 'researcher', turn: 0, maxTurns: 30 } } },
+    ]);
+  });
+});
+
+describe('console logger', () => {
+  it('should render progress under the running tool', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const agent = new Agent({
+      client: createClient([
+        { name: 'code_exec', arguments: JSON.stringify({ cmd: 'echo live-line' }), toolCallId: 'call_exec' },
+      ]),
+      name: 'logger-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [new LocalCodeExecToolProvider()],
+    });
+    await using session = agent.session();
+    await session.run('Go');
+
+    const lines = log.mock.calls.map((args) => String(args[0]));
+    const progressIndex = lines.findIndex((line) => line.includes('│') && line.includes('live-line'));
+    const resultIndex = lines.findIndex((line) => line.includes('ToolResult'));
+    expect(progressIndex).toBeGreaterThan(-1);
+    expect(progressIndex).toBeLessThan(resultIndex);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for media in tool results:
+ * - Moving tool result media to a follow-up user message
+ * - Native image tool results for Anthropic, fallback for Chat Completions
+ * - textOnlyToolResponses in agent runs
+ * - The view_image code-exec tool
+ */
+
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { z } from 'zod';
+import {
+  moveToolMediaToUserMessages,
+  type AssistantMessage,
+  type ChatMessage,
+  type LLMClient,
+  type Tool,
+  type ToolCall,
+} from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { toAnthropicMessages, toOpenAIMessages } from '../../src/clients/utils.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const messages: ChatMessage[] = [
+  { role: 'user', content: 'Plot it' },
+  {
+    role: 'assistant',
+    content: 'Plotting',
+    toolCalls: [
+      { name: 'plot', arguments: '{}', toolCallId: 'call_1' },
+      { name: 'echo', arguments: '{}', toolCallId: 'call_2' },
+    ],
+  },
+  {
+    role: 'tool',
+    content: ['Saved plot.png', { type: 'image', data: PNG }],
+    toolCallId: 'call_1',
+    name: 'plot',
+    argsWasValid: true,
+  },
+  { role: 'tool', content: 'ok', toolCallId: 'call_2', name: 'echo', argsWasValid: true },
+];
+
+describe('moveToolMediaToUserMessages', () => {
+  it('should keep tool text and attach media after the run of tool messages', () => {
+    const converted = moveToolMediaToUserMessages(messages);
+
+    expect(converted).toHaveLength(5);
+    expect(converted[2]).toMatchObject({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content: 'Saved plot.png\n[image attached in the next message]',
+    });
+    expect(converted[3]).toBe(messages[3]);
+    expect(converted[4]).toEqual({
+      role: 'user',
+      content: ['Media returned by plot (call call_1):', { type: 'image', data: PNG }],
+    });
+  });
+
+  it('should only move the selected media types', () => {
+    expect(moveToolMediaToUserMessages(messages, (block) => block.type === 'audio')).toEqual(messages);
+  });
+});
+
+describe('Client conversion of tool result media', () => {
+  it('should send images natively in Anthropic tool results', () => {
+    const { messages: converted } = toAnthropicMessages(messages);
+    expect((converted[2] as { content: unknown[] }).content).toEqual([
+      {
+        type: 'tool_result',
+        tool_use_id: 'call_1',
+        content: [
+          { type: 'text', text: 'Saved plot.png' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        ],
+      },
+    ]);
+  });
+
+  it('should fall back to a user message for Chat Completions', () => {
+    const converted = toOpenAIMessages(messages) as Array<{ role: string; content: unknown }>;
+    expect(converted.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'user']);
+    expect(converted[2]!.content).toBe('Saved plot.png\n[image attached in the next message]');
+    expect(converted[4]!.content).toContainEqual({ type: 'image_url', image_url: { url: PNG } });
+  });
+});
+
+describe('textOnlyToolResponses', () => {
+  const plotTool: Tool = {
+    name: 'plot',
+    description: 'Plot data',
+    parameters: z.object({}),
+    executor: () => ({ content: ['Saved plot.png', { type: 'image', data: PNG }] }),
+  };
+
+  const plotCall: ToolCall = { name: 'plot', arguments: '{}', toolCallId: 'call_plot' };
+  const finishCall: ToolCall = {
+    name: 'finish',
+    arguments: JSON.stringify({ reason: 'done', paths: [] }),
+    toolCallId: 'call_finish',
+  };
+
+  function createClient(requests: ChatMessage[][]): LLMClient {
+    return {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (messages): Promise<AssistantMessage> => {
+        requests.push(messages);
+        const toolCalls = requests.length === 1 ? [plotCall] : [finishCall];
+        return { role: 'assistant', content: 'Working', toolCalls, tokenUsage: { input: 10, output: 5 } };
+      },
+    };
+  }
+
+  async function runAgent(textOnlyToolResponses?: boolean) {
+    const requests: ChatMessage[][] = [];
+    const agent = new Agent({
+      client: createClient(requests),
+      name: 'media-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [plotTool],
+      textOnlyToolResponses,
+    });
+    agent.session({ noLogger: true });
+    const completed: string[] = [];
+    agent.on('tool:complete', (data) => completed.push(data.result));
+    await agent.run('Plot it');
+    await agent[Symbol.asyncDispose]();
+    return { history: requests[1]!, completed };
+  }
+
+  it('should move tool media to a user message by default', async () => {
+    const { history, completed } = await runAgent();
+
+    expect(history.slice(-2).map((m) => m.role)).toEqual(['tool', 'user']);
+    expect(history.at(-1)!.content).toContainEqual({ type: 'image', data: PNG });
+    expect(completed[0]).toBe('Saved plot.png\n[image]');
+  });
+
+  it('should keep media in the tool message when disabled', async () => {
+    const { history } = await runAgent(false);
+
+    expect(history.at(-1)).toMatchObject({ role: 'tool', content: ['Saved plot.png', { type: 'image', data: PNG }] });
+  });
+});
+
+describe('view_image tool', () => {
+  it('should return an image read from the execution environment', async () => {
+    await using provider = new LocalCodeExecToolProvider();
+    const tools = await provider.getTools();
+    const viewImage = tools.find((tool) => tool.name === 'view_image')!;
+
+    const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#ff0000' } })
+      .png()
+      .toBuffer();
+    await provider.writeFileBytes('plot.png', png);
+
+    const result = await viewImage.executor({ path: 'plot.png' });
+    expect(result.content).toEqual([
+      'Image plot.png:',
+      { type: 'image', data: expect.stringMatching(/^data:image\/png;base64,/) },
+    ]);
+
+    const missing = await viewImage.executor({ path: 'missing.png' });
+    expect(missing.success).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for tool call time limits:
+ * - runWithTimeout aborts the call signal and rejects with ToolTimeoutError
+ * - The agent applies toolTimeoutMs and per-tool timeoutMs, reports timeouts to the model and counts them
+ * - Cancelling the run still stops it instead of being reported as a timeout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, LLMClient, Tool, ToolCall } from '../../src/core/models.js';
+import { ToolTimeoutError } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { runWithTimeout, ToolTimeoutMetadata } from '../../src/core/tool-timeout.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+/** Promise that rejects with the signal's reason once it is aborted */
+function untilAborted(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason as Error), { once: true });
+  });
+}
+
+/** Client that makes the given tool calls, one per turn, then finishes */
+function createClient(calls: ToolCall[]): LLMClient {
+  let callIndex = 0;
+  return {
+    modelSlug: 'mock-model',
+    maxTokens: 128_000,
+    generate: async (): Promise<AssistantMessage> => ({
+      role: 'assistant',
+      content: 'Working',
+      toolCalls: [
+        calls[callIndex++] ?? {
+          name: 'finish',
+          arguments: JSON.stringify({ reason: 'done', paths: [] }),
+          toolCallId: 'call_finish',
+        },
+      ],
+      tokenUsage: { input: 10, output: 5 },
+    }),
+  };
+}
+
+const hangingTool: Tool = {
+  name: 'hang',
+  description: 'Never returns unless aborted',
+  parameters: z.object({}),
+  executor: (_params, ctx) => untilAborted(ctx.signal),
+};
+
+describe('runWithTimeout', () => {
+  it('should abort the call signal with a ToolTimeoutError', async () => {
+    let callSignal: AbortSignal | undefined;
+    const start = Date.now();
+    await expect(
+      runWithTimeout('hang', 50, undefined, (signal) => {
+        callSignal = signal;
+        return untilAborted(signal);
+      })
+    ).rejects.toThrow(new ToolTimeoutError('hang', 50));
+    expect(callSignal?.reason).toBeInstanceOf(ToolTimeoutError);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should reject on time even if the call ignores its signal', async () => {
+    const ignoring = new Promise<string>((resolve) => setTimeout(() => resolve('late'), 1000));
+    await expect(runWithTimeout('stubborn', 20, undefined, () => ignoring)).rejects.toBeInstanceOf(ToolTimeoutError);
+  });
+
+  it('should follow the run signal and pass it through when there is no limit', async () => {
+    const controller = new AbortController();
+    const pending = runWithTimeout('hang', 10_000, controller.signal, untilAborted);
+    controller.abort(new Error('cancelled by user'));
+    await expect(pending).rejects.toThrow('cancelled by user');
+
+    let received: AbortSignal | undefined;
+    await runWithTimeout('quick', undefined, controller.signal, async (signal) => {
+      received = signal;
+    });
+    expect(received).toBe(controller.signal);
+  });
+});
+
+describe('ToolTimeoutMetadata', () => {
+  it('should count timeouts by tool', () => {
+    const total = ToolTimeoutMetadata.fromTool('a')
+      .add(ToolTimeoutMetadata.fromTool('b'))
+      .add(ToolTimeoutMetadata.fromTool('a'));
+    expect(total.toJSON()).toEqual({ num_timeouts: 3, by_tool: { a: 2, b: 1 } });
+  });
+});
+
+describe('Agent tool timeouts', () => {
+  it('should report a timed-out call to the model and count it in runMetadata', async () => {
+    const agent = new Agent({
+      client: createClient([{ name: 'hang', arguments: '{}', toolCallId: 'call_hang' }]),
+      name: 'timeout-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [hangingTool],
+      toolTimeoutMs: 50,
+    });
+    agent.session({ noLogger: true });
+
+    const errors: string[] = [];
+    agent.on('tool:error', ({ error }) => errors.push(error.message));
+    const result = await agent.run('Go');
+
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'hang');
+    expect(toolMessage?.content).toBe("Error executing tool: Tool 'hang' timed out after 50ms");
+    expect(errors).toEqual(["Tool 'hang' timed out after 50ms"]);
+    const timeouts = result.runMetadata.tool_timeouts as ToolTimeoutMetadata;
+    expect(timeouts.toJSON()).toEqual({ num_timeouts: 1, by_tool: { hang: 1 } });
+  });
+
+  it('should let a tool override the agent default', async () => {
+    const agent = new Agent({
+      client: createClient([{ name: 'hang', arguments: '{}', toolCallId: 'call_hang' }]),
+      name: 'override-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [{ ...hangingTool, timeoutMs: 30 }],
+      toolTimeoutMs: 60_000,
+    });
+    agent.session({ noLogger: true });
+
+    const start = Date.now();
+    const result = await agent.run('Go');
+    expect(Date.now() - start).toBeLessThan(5000);
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'hang');
+    expect(toolMessage?.content).toContain('timed out after 30ms');
+  });
+
+  it('should kill a code_exec command that runs past the limit', async () => {
+    const agent = new Agent({
+      client: createClient([
+        { name: 'code_exec', arguments: JSON.stringify({ cmd: 'sleep 5' }), toolCallId: 'call_exec' },
+      ]),
+      name: 'exec-timeout-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [new LocalCodeExecToolProvider()],
+      toolTimeoutMs: 100,
+    });
+    await using session = agent.session({ noLogger: true });
+
+    const start = Date.now();
+    const result = await session.run('Go');
+    expect(Date.now() - start).toBeLessThan(3000);
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'code_exec');
+    expect(toolMessage?.content).toBe("Error executing tool: Tool 'code_exec' timed out after 100ms");
+  });
+
+  it('should still stop the run when it is cancelled', async () => {
+    const agent = new Agent({
+      client: createClient([{ name: 'hang', arguments: '{}', toolCallId: 'call_hang' }]),
+      name: 'cancel-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [hangingTool],
+      toolTimeoutMs: 10_000,
+    });
+    agent.session({ noLogger: true });
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled by user')), 50);
+    await expect(agent.run('Go', { signal: controller.signal })).rejects.toThrow('cancelled by user');
+  });
+});
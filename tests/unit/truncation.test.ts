@@ -1,23 +1,19 @@
 /**
- * Tests for start+end truncation (Python PR #12)
+ * Tests for start+end truncation (Python PR #12) and the agent's tool result limit:
+ * - truncateMiddle keeps the start and end of long text
+ * - limitToolResult cuts text to the token limit and saves the full text to the exec env
+ * - maxToolResultTokens applies the limit to tool messages
  */
 
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import type { AssistantMessage, LLMClient, Tool } from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { limitToolResult, truncateMiddle as truncate } from '../../src/core/tool-output.js';
+import { LocalCodeExecToolProvider } from '../../src/tools/code-exec/local.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
 
 describe('Start+End Truncation', () => {
-  // The truncate method is protected, so we test the logic directly
-  function truncate(content: string, maxLength: number): string {
-    if (content.length <= maxLength) {
-      return content;
-    }
-    const half = Math.floor(maxLength / 2);
-    return (
-      content.substring(0, half) +
-      '\n\n[... output truncated ...]\n\n' +
-      content.substring(content.length - half)
-    );
-  }
-
   it('should not truncate short content', () => {
     const result = truncate('short output', 100);
     expect(result).toBe('short output');
@@ -48,3 +44,98 @@ describe('Start+End Truncation', () => {
     expect(result).toBe(content);
   });
 });
+
+describe('limitToolResult', () => {
+  const longText = 'start\n' + 'x'.repeat(1000) + '\nError: the end';
+
+  it('should leave results within the limit unchanged', async () => {
+    const content = ['short', { type: 'image' as const, data: 'data:image/png;base64,AA==' }];
+    const limited = await limitToolResult(content, { maxTokens: 100, toolName: 'tool', toolCallId: 'call_1' });
+    expect(limited.content).toBe(content);
+    expect(limited.savedPath).toBeUndefined();
+  });
+
+  it('should keep start and end within roughly the token limit', async () => {
+    const limited = await limitToolResult(longText, { maxTokens: 50, toolName: 'tool', toolCallId: 'call_1' });
+    const text = limited.content as string;
+
+    expect(text.startsWith('start')).toBe(true);
+    expect(text.endsWith('Error: the end')).toBe(true);
+    expect(text).toContain(`[... ${longText.length - 200} of ${longText.length} characters truncated ...]`);
+    expect(text.length).toBeLessThan(400);
+  });
+
+  it('should save the full text to the exec env and point the model at it', async () => {
+    await using execEnv = new LocalCodeExecToolProvider();
+    await execEnv.getTools();
+
+    const limited = await limitToolResult(longText, {
+      maxTokens: 50,
+      toolName: 'code_exec',
+      toolCallId: 'call/1',
+      execEnv,
+    });
+
+    expect(limited.savedPath).toBe('tool_outputs/code_exec_call_1.txt');
+    expect(limited.content).toContain('The full output is saved to tool_outputs/code_exec_call_1.txt');
+    expect((await execEnv.readFileBytes(limited.savedPath!)).toString()).toBe(longText);
+  });
+
+  it('should truncate text blocks together and keep media blocks', async () => {
+    const image = { type: 'image' as const, data: 'data:image/png;base64,AA==' };
+    const limited = await limitToolResult(['a'.repeat(300), image, 'b'.repeat(300)], {
+      maxTokens: 25,
+      toolName: 'tool',
+      toolCallId: 'call_1',
+    });
+
+    const blocks = limited.content as unknown[];
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatch(/^a{50}\n\n\[\.\.\. .* truncated \.\.\.\]\n\nb{50}$/);
+    expect(blocks[1]).toBe(image);
+  });
+});
+
+describe('Agent maxToolResultTokens', () => {
+  it('should truncate long tool results sent to the model', async () => {
+    const output = 'head ' + 'y'.repeat(5000) + ' tail';
+    const verboseTool: Tool = {
+      name: 'verbose',
+      description: 'Prints a lot',
+      parameters: z.object({}),
+      executor: () => ({ content: output }),
+    };
+    let callIndex = 0;
+    const client: LLMClient = {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (): Promise<AssistantMessage> => ({
+        role: 'assistant',
+        content: 'Working',
+        toolCalls: [
+          callIndex++ === 0
+            ? { name: 'verbose', arguments: '{}', toolCallId: 'call_verbose' }
+            : { name: 'finish', arguments: JSON.stringify({ reason: 'done', paths: [] }), toolCallId: 'call_finish' },
+        ],
+        tokenUsage: { input: 10, output: 5 },
+      }),
+    };
+
+    const agent = new Agent({
+      client,
+      name: 'truncation-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [new LocalCodeExecToolProvider(), verboseTool],
+      maxToolResultTokens: 100,
+    });
+    await using session = agent.session({ noLogger: true });
+    const result = await session.run('Go');
+
+    const toolMessage = result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'verbose');
+    const content = toolMessage?.content as string;
+    expect(content.startsWith('head ')).toBe(true);
+    expect(content.endsWith(' tail')).toBe(true);
+    expect(content).toContain('tool_outputs/verbose_call_verbose.txt');
+    expect(content.length).toBeLessThan(600);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for the worker-thread tool pool:
+ * - Running executors by module path without blocking the event loop
+ * - Timeouts and cancellation terminate the worker
+ * - Clear errors for executors that cannot be moved to a worker
+ * - runSyncInThread in agent runs
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import {
+  ToolExecutionError,
+  type AssistantMessage,
+  type LLMClient,
+  type Tool,
+  type ToolCall,
+} from '../../src/core/models.js';
+import { Agent } from '../../src/core/agent.js';
+import { WorkerPool } from '../../src/utils/worker-pool.js';
+import { SIMPLE_FINISH_TOOL } from '../../src/tools/finish.js';
+
+const EXECUTORS = `
+export default function double({ n }) {
+  return { content: 'doubled in worker: ' + n * 2, metadata: { numUses: 1 } };
+}
+export function spin({ ms }) {
+  const end = Date.now() + ms;
+  while (Date.now() < end) {}
+  return { content: 'done spinning' };
+}
+export function fail() {
+  throw new Error('bad input');
+}
+export function unclonable() {
+  return { content: 'x', metadata: { callback: () => 1 } };
+}
+export const notAFunction = 1;
+`;
+
+let dir: string;
+let modulePath: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'stirrup-worker-'));
+  modulePath = join(dir, 'executors.mjs');
+  await writeFile(modulePath, EXECUTORS);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('WorkerPool', () => {
+  it('should run an executor by module path', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1 });
+    const result = await pool.run('double', { module: modulePath }, { n: 21 });
+    expect(result).toEqual({ content: 'doubled in worker: 42', metadata: { numUses: 1 } });
+  });
+
+  it('should keep the event loop responsive while an executor spins', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1 });
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 10);
+    try {
+      await pool.run('spin', { module: modulePath, exportName: 'spin' }, { ms: 300 });
+    } finally {
+      clearInterval(interval);
+    }
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('should report executor errors as ToolExecutionError', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1 });
+    const error = await pool.run('fail', { module: modulePath, exportName: 'fail' }, {}).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect((error as ToolExecutionError).message).toBe('bad input');
+  });
+
+  it('should terminate calls that exceed the time limit and keep serving', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1, timeoutMs: 100 });
+    await expect(pool.run('spin', { module: modulePath, exportName: 'spin' }, { ms: 5000 })).rejects.toThrow(
+      "Tool 'spin' timed out after 100ms"
+    );
+    await expect(pool.run('double', { module: modulePath }, { n: 1 })).resolves.toMatchObject({
+      content: 'doubled in worker: 2',
+    });
+  });
+
+  it('should reject with the abort reason when cancelled', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled by user')), 50);
+    await expect(
+      pool.run('spin', { module: modulePath, exportName: 'spin' }, { ms: 5000 }, { signal: controller.signal })
+    ).rejects.toThrow('cancelled by user');
+  });
+
+  it('should explain why an executor cannot run in a worker', async () => {
+    await using pool = new WorkerPool({ maxWorkers: 1 });
+    await expect(pool.run('rel', { module: './executors.mjs' }, {})).rejects.toThrow(
+      "Tool 'rel' cannot run in a worker thread: module must be an absolute path or file: URL"
+    );
+    await expect(pool.run('missing', { module: modulePath, exportName: 'notAFunction' }, {})).rejects.toThrow(
+      'has no function export "notAFunction"'
+    );
+    await expect(pool.run('params', { module: modulePath }, { n: () => 1 })).rejects.toThrow(
+      'its params could not be copied to the worker'
+    );
+    await expect(pool.run('result', { module: modulePath, exportName: 'unclonable' }, {})).rejects.toThrow(
+      'its result could not be copied back to the main thread'
+    );
+  });
+});
+
+describe('runSyncInThread', () => {
+  const doubleCall: ToolCall = { name: 'double', arguments: JSON.stringify({ n: 4 }), toolCallId: 'call_double' };
+  const finishCall: ToolCall = {
+    name: 'finish',
+    arguments: JSON.stringify({ reason: 'done', paths: [] }),
+    toolCallId: 'call_finish',
+  };
+
+  function createClient(): LLMClient {
+    let callIndex = 0;
+    return {
+      modelSlug: 'mock-model',
+      maxTokens: 128_000,
+      generate: async (): Promise<AssistantMessage> => ({
+        role: 'assistant',
+        content: 'Working',
+        toolCalls: [callIndex++ === 0 ? doubleCall : finishCall],
+        tokenUsage: { input: 10, output: 5 },
+      }),
+    };
+  }
+
+  async function runAgent(runSyncInThread?: boolean) {
+    const doubleTool: Tool = {
+      name: 'double',
+      description: 'Double a number',
+      parameters: z.object({ n: z.number() }),
+      executor: (params: { n: number }) => ({ content: `doubled in process: ${params.n * 2}` }),
+      worker: { module: modulePath },
+    };
+    const agent = new Agent({
+      client: createClient(),
+      name: 'worker-test',
+      finishTool: SIMPLE_FINISH_TOOL,
+      tools: [doubleTool],
+      runSyncInThread,
+    });
+    agent.session({ noLogger: true });
+    const result = await agent.run('Double 4');
+    await agent[Symbol.asyncDispose]();
+    return result.messageHistory.flat().find((m) => m.role === 'tool' && m.name === 'double')?.content;
+  }
+
+  it('should run worker tools in the pool by default', async () => {
+    expect(await runAgent()).toBe('doubled in worker: 8');
+  });
+
+  it('should fall back to the in-process executor when disabled', async () => {
+    expect(await runAgent(false)).toBe('doubled in process: 8');
+  });
+});